@@ -0,0 +1,215 @@
+/**
+ * Operations of the command-line interface, named after their `tar` letters.
+ */
+export type CliCommand = "c" | "x" | "t" | "r";
+
+/**
+ * Options parsed from the command line.
+ */
+export interface CliOptions {
+	/** The operation to run, or undefined when only `--help` is given. */
+	command?: CliCommand;
+	/** Path of the archive, or `-` for standard input or output. */
+	file: string;
+	/** Directory to resolve paths against when packing, or to extract into. */
+	directory: string;
+	/** Number of leading path components to strip when extracting or listing. */
+	strip: number;
+	/** Glob patterns of entry names to skip. */
+	exclude: string[];
+	compression?: "gzip" | "zstd";
+	verbose: boolean;
+	/** List entries as JSON lines. */
+	json: boolean;
+	help: boolean;
+	/** Paths to pack, relative to `directory`. */
+	paths: string[];
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+	c: "c",
+	x: "x",
+	t: "t",
+	r: "r",
+	create: "c",
+	extract: "x",
+	list: "t",
+	append: "r",
+};
+
+// Short options that take a value.
+const VALUE_OPTIONS: Record<string, "file" | "directory"> = {
+	f: "file",
+	C: "directory",
+};
+
+/**
+ * Parses command-line arguments the way `tar` does: the operation comes first as a word
+ * (`c`), an old-style letter bundle (`czf out.tar`) or an option (`-c`, `--create`), and
+ * short options can be grouped (`-xvzf in.tar`). Throws on anything it does not know.
+ */
+export function parseArgs(argv: string[]): CliOptions {
+	const options: CliOptions = {
+		file: "-",
+		directory: ".",
+		strip: 0,
+		exclude: [],
+		verbose: false,
+		json: false,
+		help: false,
+		paths: [],
+	};
+
+	const args = [...argv];
+
+	const setCommand = (command: CliCommand) => {
+		if (options.command && options.command !== command) {
+			throw new Error("Only one of c, x, t and r can be given.");
+		}
+		options.command = command;
+	};
+
+	const takeValue = (name: string): string => {
+		const value = args.shift();
+		if (value === undefined) throw new Error(`Option ${name} needs a value.`);
+		return value;
+	};
+
+	// Applies a short option letter, calling `value` for the value of an option that takes one.
+	const setShort = (letter: string, value: () => string) => {
+		if (letter in COMMANDS) {
+			setCommand(COMMANDS[letter]);
+		} else if (letter in VALUE_OPTIONS) {
+			options[VALUE_OPTIONS[letter]] = value();
+		} else if (letter === "v") {
+			options.verbose = true;
+		} else if (letter === "z") {
+			options.compression = "gzip";
+		} else if (letter === "h") {
+			options.help = true;
+		} else {
+			throw new Error(`Unknown option -${letter}.`);
+		}
+	};
+
+	// An old-style bundle takes the values of its options from the following arguments.
+	const first = args[0];
+	if (first !== undefined && !first.startsWith("-")) {
+		args.shift();
+		if (first in COMMANDS) {
+			setCommand(COMMANDS[first]);
+		} else {
+			for (const letter of first) {
+				setShort(letter, () => takeValue(`-${letter}`));
+			}
+		}
+	}
+
+	let operands = false;
+	while (args.length > 0) {
+		const arg = args.shift() as string;
+
+		if (operands || arg === "-" || !arg.startsWith("-")) {
+			options.paths.push(arg);
+			continue;
+		}
+		if (arg === "--") {
+			operands = true;
+			continue;
+		}
+
+		if (arg.startsWith("--")) {
+			const equals = arg.indexOf("=");
+			const name = equals === -1 ? arg : arg.slice(0, equals);
+			const value = () =>
+				equals === -1 ? takeValue(name) : arg.slice(equals + 1);
+
+			switch (name) {
+				case "--create":
+				case "--extract":
+				case "--list":
+				case "--append":
+					setCommand(COMMANDS[name.slice(2)]);
+					break;
+				case "--file":
+					options.file = value();
+					break;
+				case "--directory":
+					options.directory = value();
+					break;
+				case "--strip-components": {
+					const strip = Number(value());
+					if (!Number.isInteger(strip) || strip < 0) {
+						throw new Error(
+							"Option --strip-components must be a non-negative integer.",
+						);
+					}
+					options.strip = strip;
+					break;
+				}
+				case "--exclude":
+					options.exclude.push(value());
+					break;
+				case "--gzip":
+					options.compression = "gzip";
+					break;
+				case "--zstd":
+					options.compression = "zstd";
+					break;
+				case "--verbose":
+					options.verbose = true;
+					break;
+				case "--json":
+					options.json = true;
+					break;
+				case "--help":
+					options.help = true;
+					break;
+				default:
+					throw new Error(`Unknown option ${name}.`);
+			}
+			continue;
+		}
+
+		// A group of short options, where an option with a value takes the rest of the
+		// group or the next argument.
+		for (let i = 1; i < arg.length; i++) {
+			const letter = arg[i];
+			let consumed = false;
+			setShort(letter, () => {
+				consumed = true;
+				return i + 1 < arg.length ? arg.slice(i + 1) : takeValue(`-${letter}`);
+			});
+			if (consumed) break;
+		}
+	}
+
+	if (!options.command && !options.help) {
+		throw new Error("One of c, x, t or r must be given.");
+	}
+
+	return options;
+}
+
+/**
+ * Creates a matcher for `--exclude` patterns, where `*` and `?` match any characters
+ * including `/`. Like `tar`, a pattern matches any trailing part of a name, and also
+ * excludes everything inside a matching directory.
+ */
+export function createExcludeMatcher(
+	patterns: string[],
+): (name: string) => boolean {
+	if (patterns.length === 0) return () => false;
+
+	const globs = patterns.map((pattern) =>
+		pattern
+			.replace(/^(\.\/)+/, "")
+			.replace(/\/+$/, "")
+			.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+			.replaceAll("*", ".*")
+			.replaceAll("?", "."),
+	);
+	const regex = new RegExp(`(^|/)(${globs.join("|")})(/|$)`);
+
+	return (name) => regex.test(name.replace(/^(\.\/)+/, ""));
+}
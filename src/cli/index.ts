@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { run } from "./run";
+
+run(process.argv.slice(2)).catch((err) => {
+	process.stderr.write(`modern-tar: ${String(err?.message ?? err)}\n`);
+	process.exitCode = 2;
+});
@@ -0,0 +1,213 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Readable, type Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { appendToArchive } from "../fs/append";
+import { packSources, type SourceFilter } from "../fs/archive";
+import { createCompressor, createZstdEncoder } from "../fs/compression";
+import type { TarSource } from "../fs/types";
+import { unpackTar } from "../fs/unpack";
+import { formatTarHeader } from "../web/format";
+import { listTar } from "../web/helpers";
+import { type CliOptions, createExcludeMatcher, parseArgs } from "./args";
+
+const USAGE = `Usage: modern-tar <c|x|t|r> [options] [paths...]
+
+Operations:
+  c, -c, --create            Create an archive from the given paths
+  x, -x, --extract           Extract an archive, or only the given paths
+  t, -t, --list              List the entries of an archive, or only the given paths
+  r, -r, --append            Append the given paths to an uncompressed archive
+
+Options:
+  -f, --file <archive>       Archive to read or write, or - for stdin/stdout (default: -)
+  -C, --directory <dir>      Pack paths relative to, or extract into, this directory
+  --strip-components <n>     Strip leading path components when extracting or listing
+  --exclude <pattern>        Skip entries matching a glob pattern (repeatable)
+  -z, --gzip                 Compress a new archive with gzip
+  --zstd                     Compress a new archive with Zstandard
+  -v, --verbose              Print the entries that are processed, in detail when listing
+  --json                     List entries as JSON lines
+  -h, --help                 Print this help
+
+Compressed archives are detected automatically when extracting or listing.
+`;
+
+/**
+ * Standard streams of the command-line interface.
+ */
+export interface CliIO {
+	stdin: Readable;
+	stdout: Writable;
+	stderr: Writable;
+}
+
+/**
+ * Runs the command-line interface with the given arguments, without the node and script
+ * paths. Rejects with the error of a failed operation or invalid arguments.
+ */
+export async function run(argv: string[], io: CliIO = process): Promise<void> {
+	const options = parseArgs(argv);
+	if (options.help) {
+		io.stdout.write(USAGE);
+		return;
+	}
+
+	// Names go to stderr when the archive is written to stdout, as with `tar`.
+	const toStdout = options.command === "c" && options.file === "-";
+	const log = (name: string) => {
+		if (options.verbose) (toStdout ? io.stderr : io.stdout).write(`${name}\n`);
+	};
+
+	switch (options.command) {
+		case "c":
+			await create(options, io, log);
+			break;
+		case "x":
+			await extract(options, io, log);
+			break;
+		case "t":
+			await list(options, io);
+			break;
+		case "r":
+			await append(options, log);
+			break;
+	}
+}
+
+async function create(
+	options: CliOptions,
+	io: CliIO,
+	log: (name: string) => void,
+): Promise<void> {
+	const sources = await resolveSources(options);
+	const archive = packSources(
+		sources,
+		{},
+		createSourceFilter(options, log),
+		true,
+	);
+	const output =
+		options.file === "-" ? io.stdout : createWriteStream(options.file);
+
+	if (options.compression === "gzip") {
+		await pipeline(archive, createCompressor("gzip"), output);
+	} else if (options.compression === "zstd") {
+		await pipeline(archive, createZstdEncoder(), output);
+	} else {
+		await pipeline(archive, output);
+	}
+}
+
+async function extract(
+	options: CliOptions,
+	io: CliIO,
+	log: (name: string) => void,
+): Promise<void> {
+	const selected = createSelector(options);
+
+	await pipeline(
+		openArchive(options, io),
+		unpackTar(options.directory, {
+			strip: options.strip,
+			filter: (header) => {
+				if (!selected(header.name)) return false;
+				log(header.name);
+				return true;
+			},
+		}),
+	);
+}
+
+async function list(options: CliOptions, io: CliIO): Promise<void> {
+	const selected = createSelector(options);
+	const entries = await listTar(
+		Readable.toWeb(openArchive(options, io)) as ReadableStream<Uint8Array>,
+		{ strip: options.strip, filter: (header) => selected(header.name) },
+	);
+
+	for (const { header } of entries) {
+		const line =
+			options.verbose || options.json
+				? formatTarHeader(header, { json: options.json })
+				: header.name;
+		io.stdout.write(`${line}\n`);
+	}
+}
+
+async function append(
+	options: CliOptions,
+	log: (name: string) => void,
+): Promise<void> {
+	if (options.file === "-") {
+		throw new Error("Cannot append to an archive on standard input.");
+	}
+	if (options.compression) {
+		throw new Error("Cannot append to a compressed archive.");
+	}
+
+	const sources = await resolveSources(options);
+	const filter = createSourceFilter(options, log);
+	await appendToArchive(options.file, () =>
+		packSources(sources, {}, filter, true),
+	);
+}
+
+// Turns the paths to pack into sources named as given, without any leading slash.
+async function resolveSources(options: CliOptions): Promise<TarSource[]> {
+	if (options.paths.length === 0) {
+		throw new Error("No paths to pack were given.");
+	}
+
+	const sources: TarSource[] = [];
+	for (const name of options.paths) {
+		const source = path.resolve(options.directory, name);
+		const target =
+			path.posix
+				.normalize(name.replaceAll("\\", "/"))
+				.replace(/^\/+/, "")
+				.replace(/\/+$/, "") || ".";
+
+		const stat = await fs.stat(source);
+		sources.push({
+			type: stat.isDirectory() ? "directory" : "file",
+			source,
+			target,
+		});
+	}
+
+	return sources;
+}
+
+function createSourceFilter(
+	options: CliOptions,
+	log: (name: string) => void,
+): SourceFilter {
+	const excluded = createExcludeMatcher(options.exclude);
+
+	return (name) => {
+		if (excluded(name)) return false;
+		log(name);
+		return true;
+	};
+}
+
+// Matches the entries to extract or list: those not excluded that are, or are inside, one
+// of the given paths.
+function createSelector(options: CliOptions): (name: string) => boolean {
+	const excluded = createExcludeMatcher(options.exclude);
+	const paths = options.paths.map((p) => p.replace(/\/+$/, ""));
+
+	return (name) => {
+		if (excluded(name)) return false;
+		if (paths.length === 0) return true;
+
+		const trimmed = name.replace(/\/+$/, "");
+		return paths.some((p) => trimmed === p || trimmed.startsWith(`${p}/`));
+	};
+}
+
+function openArchive(options: CliOptions, io: CliIO): Readable {
+	return options.file === "-" ? io.stdin : createReadStream(options.file);
+}
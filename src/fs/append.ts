@@ -0,0 +1,158 @@
+import * as fs from "node:fs/promises";
+import { BLOCK_SIZE } from "../web/constants";
+import { detectFormat } from "../web/detect";
+import type { TarIndexEntry, TarPackerOptions } from "../web/types";
+import { padded } from "../web/utils";
+import { packSources, packTarSources } from "./archive";
+import { createTarIndex } from "./tar-index";
+import type { TarSource } from "./types";
+
+// A valid tar archive ends with two 512-byte empty blocks.
+const EOF_BUFFER = new Uint8Array(BLOCK_SIZE * 2);
+
+/**
+ * Append entries to an existing tar archive on disk, like `tar -r`.
+ *
+ * The archive is scanned for the end of its last entry, and the new entries are written
+ * over its end-of-archive marker, so the rest of the archive is never rewritten. The
+ * archive is created if it does not exist. If packing a source fails, the end-of-archive
+ * marker is restored so the archive keeps its original entries. Archives with anything but
+ * the end-of-archive marker after their last entry, such as a trailing global PAX header,
+ * are rejected rather than partly overwritten.
+ *
+ * @param archivePath - Path to an uncompressed tar archive
+ * @param sources - An array of {@link TarSource} objects describing what to append
+ * @param options - Optional {@link TarPackerOptions}, such as the header format
+ * @returns A `Promise` that resolves once the entries have been written
+ *
+ * @example
+ * ```typescript
+ * import { appendTar } from 'modern-tar/fs';
+ *
+ * await appendTar('logs.tar', [
+ *   { type: 'file', source: './app.log', target: 'logs/app-2024-01-01.log' },
+ * ]);
+ * ```
+ */
+export async function appendTar(
+	archivePath: string,
+	sources: TarSource[],
+	options: TarPackerOptions = {},
+): Promise<void> {
+	await appendToArchive(archivePath, () => packTarSources(sources, options));
+}
+
+/**
+ * Append only the sources that are newer than their copy in a tar archive on disk, like
+ * `tar -u`.
+ *
+ * The names and mtimes of the archive's entries are read from its headers. Files and
+ * directories, including those inside directory sources, are appended when they are not
+ * in the archive or their mtime is later than the last entry of the same name. Names are
+ * compared without a leading `./` or a trailing slash, so `./data/` matches `data`, and
+ * mtimes in whole seconds, as archives store them. Content sources have no mtime, so
+ * they are only appended when their name is not in the archive yet.
+ *
+ * @param archivePath - Path to an uncompressed tar archive
+ * @param sources - An array of {@link TarSource} objects describing what to update
+ * @param options - Optional {@link TarPackerOptions}, such as the header format
+ * @returns A `Promise` that resolves once the newer entries have been written
+ *
+ * @example
+ * ```typescript
+ * import { updateTar } from 'modern-tar/fs';
+ *
+ * // Nightly backup that only adds files changed since the last run
+ * await updateTar('backup.tar', [
+ *   { type: 'directory', source: './data', target: 'data' },
+ * ]);
+ * ```
+ */
+export async function updateTar(
+	archivePath: string,
+	sources: TarSource[],
+	options: TarPackerOptions = {},
+): Promise<void> {
+	await appendToArchive(archivePath, (entries) => {
+		// Later entries replace earlier ones of the same name on extraction.
+		const archived = new Map<string, number>();
+		for (const { header } of entries) {
+			archived.set(normalizeName(header.name), toSeconds(header.mtime));
+		}
+
+		return packSources(sources, options, (name, mtime) => {
+			const archivedMtime = archived.get(normalizeName(name));
+			if (archivedMtime === undefined) return true;
+			return mtime !== undefined && toSeconds(mtime) > archivedMtime;
+		});
+	});
+}
+
+/**
+ * Writes the archive created by `pack` from the index of the existing entries over the
+ * end-of-archive marker, restoring the marker if packing fails.
+ */
+export async function appendToArchive(
+	archivePath: string,
+	pack: (entries: TarIndexEntry[]) => AsyncIterable<Uint8Array>,
+): Promise<void> {
+	const { O_RDWR, O_CREAT } = fs.constants;
+	const handle = await fs.open(archivePath, O_RDWR | O_CREAT);
+
+	try {
+		const { bytesRead, buffer } = await handle.read(
+			new Uint8Array(BLOCK_SIZE),
+			0,
+			BLOCK_SIZE,
+			0,
+		);
+		const format = detectFormat(buffer.subarray(0, bytesRead));
+		if (format && format !== "tar") {
+			throw new Error(`Cannot append to a ${format} compressed archive.`);
+		}
+
+		const entries = await createTarIndex(handle);
+		const last = entries.at(-1);
+		const end = last ? last.dataOffset + padded(last.dataSize) : 0;
+
+		// The index ends at the last entry, so anything else before the end-of-archive
+		// marker, such as a trailing global PAX header, would be overwritten.
+		const { bytesRead: tailLength, buffer: tail } = await handle.read(
+			new Uint8Array(EOF_BUFFER.length),
+			0,
+			EOF_BUFFER.length,
+			end,
+		);
+		if (tail.subarray(0, tailLength).some((b) => b !== 0)) {
+			throw new Error(
+				`Cannot append to an archive with data after its last entry at offset ${end}.`,
+			);
+		}
+
+		let position = end;
+		try {
+			for await (const chunk of pack(entries)) {
+				await handle.write(chunk, 0, chunk.length, position);
+				position += chunk.length;
+			}
+		} catch (err) {
+			await handle.truncate(end);
+			await handle.write(EOF_BUFFER, 0, EOF_BUFFER.length, end);
+			throw err;
+		}
+
+		// Drop any record padding that followed the old end-of-archive marker.
+		await handle.truncate(position);
+	} finally {
+		await handle.close();
+	}
+}
+
+// Strips the leading "./" and trailing slash that some archivers write, so names match.
+function normalizeName(name: string): string {
+	return name.replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+}
+
+function toSeconds(mtime: Date | undefined): number {
+	return Math.floor((mtime?.getTime() ?? 0) / 1000);
+}
@@ -3,8 +3,13 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { Readable, Writable } from "node:stream";
 import { pipeline } from "node:stream/promises";
-import { createTarPacker, type TarPackController } from "../web/index";
+import {
+	createTarPacker,
+	type TarPackController,
+	type TarPackerOptions,
+} from "../web/index";
 import { encoder } from "../web/utils";
+import { createTempFileStorage } from "./spool";
 import type { TarSource } from "./types";
 
 /**
@@ -12,6 +17,8 @@ import type { TarSource } from "./types";
  * array of sources (files, directories, or raw content).
  *
  * @param sources - An array of {@link TarSource} objects describing what to include.
+ * @param options - Optional {@link TarPackerOptions}, such as the header format. Stream
+ * content is spooled to a temporary file once it outgrows `spoolMemory`.
  * @returns A Node.js [`Readable`](https://nodejs.org/api/stream.html#class-streamreadable)
  * stream that outputs the tar archive bytes.
  *
@@ -29,8 +36,35 @@ import type { TarSource } from "./types";
  * await pipeline(archiveStream, createWriteStream('project.tar'));
  * ```
  */
-export function packTarSources(sources: TarSource[]): Readable {
-	const { readable, controller } = createTarPacker();
+export function packTarSources(
+	sources: TarSource[],
+	options: TarPackerOptions = {},
+): Readable {
+	return packSources(sources, options);
+}
+
+/**
+ * Decides whether to pack an entry from its name in the archive and its mtime on disk,
+ * which is undefined for content sources.
+ */
+export type SourceFilter = (name: string, mtime?: Date) => boolean;
+
+/**
+ * Packs sources like {@link packTarSources}, skipping the files and directories that the
+ * filter rejects. Directories are still walked when their own entry is skipped. With
+ * `symlinks`, symlinks inside directories are stored as symlinks, as `tar` does, rather
+ * than skipped.
+ */
+export function packSources(
+	sources: TarSource[],
+	options: TarPackerOptions = {},
+	filter: SourceFilter = () => true,
+	symlinks = false,
+): Readable {
+	const { readable, controller } = createTarPacker({
+		spoolStorage: createTempFileStorage,
+		...options,
+	});
 
 	// Run the packing process in the background for streams.
 	(async () => {
@@ -40,14 +74,22 @@ export function packTarSources(sources: TarSource[]): Readable {
 
 			switch (source.type) {
 				case "file":
-					await addFileToPacker(controller, source.source, targetPath);
+					await addFileToPacker(controller, source.source, targetPath, filter);
 					break;
 
 				case "directory":
-					await addDirectoryToPacker(controller, source.source, targetPath);
+					await addDirectoryToPacker(
+						controller,
+						source.source,
+						targetPath,
+						filter,
+						symlinks,
+					);
 					break;
 
 				case "content": {
+					if (!filter(targetPath)) break;
+
 					// Handle different content types appropriately.
 					const { content, mode } = source;
 
@@ -64,26 +106,11 @@ export function packTarSources(sources: TarSource[]): Readable {
 						break;
 					}
 
-					// This is inefficient for large streams as we have to buffer the entire content first,
-					// to get the size. It's better to use Blob if possible.
+					// Streams are spooled to learn their size. A Blob avoids the copy.
 					if (content instanceof ReadableStream) {
-						const chunks: Buffer[] = [];
-						for await (const chunk of Readable.fromWeb(content)) {
-							chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-						}
-
-						const buffer = Buffer.concat(chunks);
-
-						const entryStream = controller.add({
-							name: targetPath,
-							size: buffer.length,
-							mode,
-							type: "file",
-						});
-
-						const writer = entryStream.getWriter();
-						await writer.write(buffer);
-						await writer.close();
+						await content.pipeTo(
+							controller.addStream({ name: targetPath, mode, type: "file" }),
+						);
 
 						break;
 					}
@@ -130,8 +157,11 @@ async function addFileToPacker(
 	controller: TarPackController,
 	sourcePath: string,
 	targetPath: string,
+	filter: SourceFilter,
 ): Promise<void> {
 	const stat = await fs.stat(sourcePath);
+	if (!filter(targetPath, stat.mtime)) return;
+
 	const entryStream = controller.add({
 		name: targetPath,
 		size: stat.size,
@@ -146,18 +176,23 @@ async function addDirectoryToPacker(
 	controller: TarPackController,
 	sourcePath: string,
 	targetPathInArchive: string,
+	filter: SourceFilter,
+	symlinks: boolean,
 ): Promise<void> {
 	// Add the directory entry itself first.
 	const sourceStat = await fs.stat(sourcePath);
-	controller
-		.add({
-			name: `${targetPathInArchive}/`, // Directories in tar must end with a slash.
-			type: "directory",
-			mode: sourceStat.mode,
-			mtime: sourceStat.mtime,
-			size: 0,
-		})
-		.close();
+	const name = `${targetPathInArchive}/`; // Directories in tar must end with a slash.
+	if (filter(name, sourceStat.mtime)) {
+		controller
+			.add({
+				name,
+				type: "directory",
+				mode: sourceStat.mode,
+				mtime: sourceStat.mtime,
+				size: 0,
+			})
+			.close();
+	}
 
 	const dirents = await fs.readdir(sourcePath, { withFileTypes: true });
 
@@ -170,9 +205,48 @@ async function addDirectoryToPacker(
 			.replaceAll("\\", "/");
 
 		if (dirent.isDirectory()) {
-			await addDirectoryToPacker(controller, fullSourcePath, archiveEntryPath);
+			await addDirectoryToPacker(
+				controller,
+				fullSourcePath,
+				archiveEntryPath,
+				filter,
+				symlinks,
+			);
 		} else if (dirent.isFile()) {
-			await addFileToPacker(controller, fullSourcePath, archiveEntryPath);
+			await addFileToPacker(
+				controller,
+				fullSourcePath,
+				archiveEntryPath,
+				filter,
+			);
+		} else if (symlinks && dirent.isSymbolicLink()) {
+			await addSymlinkToPacker(
+				controller,
+				fullSourcePath,
+				archiveEntryPath,
+				filter,
+			);
 		}
 	}
 }
+
+async function addSymlinkToPacker(
+	controller: TarPackController,
+	sourcePath: string,
+	targetPath: string,
+	filter: SourceFilter,
+): Promise<void> {
+	const stat = await fs.lstat(sourcePath);
+	if (!filter(targetPath, stat.mtime)) return;
+
+	controller
+		.add({
+			name: targetPath,
+			type: "symlink",
+			linkname: await fs.readlink(sourcePath),
+			mode: stat.mode,
+			mtime: stat.mtime,
+			size: 0,
+		})
+		.close();
+}
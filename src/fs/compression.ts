@@ -0,0 +1,146 @@
+import { Duplex } from "node:stream";
+import * as zlib from "node:zlib";
+import type {
+	CompressorFormat,
+	CompressorOptions,
+	ZstdOptions,
+} from "../web/types";
+import {
+	createZstdDecoder as createZstdDecoderWeb,
+	createZstdEncoder as createZstdEncoderWeb,
+	type ZstdCodec,
+} from "../web/zstd";
+
+/**
+ * Zstandard codec backed by `node:zlib`, on Node.js versions that support it.
+ */
+export const nodeZstdCodec: ZstdCodec | undefined =
+	typeof zlib.createZstdCompress === "function"
+		? {
+				createEncoder: (level) => toWebPair(createNodeZstdCompress(level)),
+				createDecoder: () => toWebPair(zlib.createZstdDecompress()),
+			}
+		: undefined;
+
+/**
+ * Create a compression stream backed by `node:zlib`.
+ *
+ * @param format - The {@link CompressorFormat} to compress to
+ * @param options - Optional {@link CompressorOptions} for the compression level
+ * @returns Node.js [`Duplex`](https://nodejs.org/api/stream.html#class-streamduplex) stream that compresses its input
+ *
+ * @example
+ * ```typescript
+ * import { createCompressor, packTar } from 'modern-tar/fs';
+ * import { createWriteStream } from 'node:fs';
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * await pipeline(
+ *   packTar('./dist'),
+ *   createCompressor('brotli', { level: 11 }),
+ *   createWriteStream('dist.tar.br'),
+ * );
+ * ```
+ */
+export function createCompressor(
+	format: CompressorFormat,
+	options: CompressorOptions = {},
+): Duplex {
+	const { level } = options;
+
+	switch (format) {
+		case "gzip":
+			return zlib.createGzip({ level });
+		case "deflate":
+			return zlib.createDeflate({ level });
+		case "deflate-raw":
+			return zlib.createDeflateRaw({ level });
+		case "brotli":
+			return zlib.createBrotliCompress(
+				level === undefined
+					? {}
+					: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } },
+			);
+		default:
+			throw new Error(`Compression format "${format}" is not supported.`);
+	}
+}
+
+/**
+ * Create a decompression stream backed by `node:zlib`.
+ *
+ * @param format - The {@link CompressorFormat} to decompress from
+ * @returns Node.js [`Duplex`](https://nodejs.org/api/stream.html#class-streamduplex) stream that decompresses its input
+ */
+export function createDecompressor(format: CompressorFormat): Duplex {
+	switch (format) {
+		case "gzip":
+			return zlib.createGunzip();
+		case "deflate":
+			return zlib.createInflate();
+		case "deflate-raw":
+			return zlib.createInflateRaw();
+		case "brotli":
+			return zlib.createBrotliDecompress();
+		default:
+			throw new Error(`Compression format "${format}" is not supported.`);
+	}
+}
+
+/**
+ * Create a Zstandard compression stream for `.tar.zst` archives.
+ *
+ * Uses `node:zlib` where available, and otherwise the codec set with `setZstdCodec`.
+ *
+ * @param options - Optional {@link ZstdOptions} for the compression level and frame size
+ * @returns Node.js [`Duplex`](https://nodejs.org/api/stream.html#class-streamduplex) stream that compresses its input
+ *
+ * @example
+ * ```typescript
+ * import { createZstdEncoder, packTar } from 'modern-tar/fs';
+ * import { createWriteStream } from 'node:fs';
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * await pipeline(
+ *   packTar('./build'),
+ *   createZstdEncoder({ level: 19 }),
+ *   createWriteStream('build.tar.zst'),
+ * );
+ * ```
+ */
+export function createZstdEncoder(options: ZstdOptions = {}): Duplex {
+	// Without frames, the native stream can be used as is.
+	if (nodeZstdCodec && options.frameSize === undefined) {
+		return createNodeZstdCompress(options.level);
+	}
+
+	return Duplex.fromWeb(createZstdEncoderWeb(options, nodeZstdCodec));
+}
+
+/**
+ * Create a Zstandard decompression stream for `.tar.zst` archives.
+ *
+ * `unpackTar` detects and decompresses Zstandard archives automatically, so this is only
+ * needed to decompress them elsewhere. Archives made of several frames are supported.
+ *
+ * @returns Node.js [`Duplex`](https://nodejs.org/api/stream.html#class-streamduplex) stream that decompresses its input
+ */
+export function createZstdDecoder(): Duplex {
+	// The native stream stops after the first frame, so frames are split up front.
+	return Duplex.fromWeb(createZstdDecoderWeb(nodeZstdCodec));
+}
+
+function createNodeZstdCompress(level?: number): Duplex {
+	return zlib.createZstdCompress(
+		level === undefined
+			? {}
+			: { params: { [zlib.constants.ZSTD_c_compressionLevel]: level } },
+	);
+}
+
+// Node.js and DOM typings of web streams differ, so convert to the pair type of the codec.
+function toWebPair(stream: Duplex): ReturnType<ZstdCodec["createEncoder"]> {
+	return Duplex.toWeb(stream) as unknown as ReturnType<
+		ZstdCodec["createEncoder"]
+	>;
+}
@@ -1,10 +1,35 @@
+export { TarError, TarFormatError, TarPathError } from "../web/errors";
+export { formatTarHeader } from "../web/format";
+export type {
+	TarErrorCode,
+	TarErrorOptions,
+	TarFormatErrorCode,
+	TarListingOptions,
+	TarPathErrorCode,
+} from "../web/types";
+export { appendTar, updateTar } from "./append";
 export { packTarSources } from "./archive";
+export {
+	createCompressor,
+	createDecompressor,
+	createZstdDecoder,
+	createZstdEncoder,
+} from "./compression";
 export { packTar } from "./pack";
+export { createParallelGzipEncoder } from "./parallel-gzip";
+export {
+	createTarIndex,
+	loadTarIndex,
+	readTarEntry,
+	serializeTarIndex,
+} from "./tar-index";
 export type {
 	ContentSource,
+	DeterministicOptions,
 	DirectorySource,
 	FileSource,
 	PackOptionsFS,
+	ParallelGzipOptions,
 	TarSource,
 	UnpackOptionsFS,
 } from "./types";
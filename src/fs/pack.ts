@@ -3,10 +3,11 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { Readable } from "node:stream";
 import { BLOCK_SIZE, BLOCK_SIZE_MASK } from "../web/constants";
-import { createTarHeader } from "../web/pack";
-import { generatePax } from "../web/pack-pax";
+import { createHeaderBlocks } from "../web/pack";
+import { createSparseEntry } from "../web/sparse";
 import type { TarHeader } from "../web/types";
-import type { PackOptionsFS } from "./types";
+import { findSparseSegments, hasHoles } from "./sparse";
+import type { DeterministicOptions, PackOptionsFS } from "./types";
 
 const ZERO_BUFFER = Buffer.alloc(BLOCK_SIZE);
 const EOF_BUFFER = Buffer.alloc(BLOCK_SIZE * 2);
@@ -37,16 +38,26 @@ const EOF_BUFFER = Buffer.alloc(BLOCK_SIZE * 2);
  *   map: (header) => ({ ...header, uname: 'builder' }),
  *   dereference: true  // Follow symlinks
  * });
+ *
+ * // Reproducible output, with mtimes clamped to SOURCE_DATE_EPOCH
+ * const reproducibleStream = packTar('/my/project', { deterministic: true });
  * ```
  */
 export function packTar(
 	directoryPath: string,
 	options: PackOptionsFS = {},
 ): Readable {
-	const { dereference, filter, map } = options;
+	const { dereference, filter, map, deterministic, format = "pax" } = options;
+	const clampTime = deterministic ? resolveClampTime(deterministic) : null;
+	const sparse = options.sparse && !clampTime && format === "pax";
 	const seenInodes = new Map<number, string>();
 	const getStat = dereference ? fs.stat : fs.lstat;
 
+	const readNames = async (dirPath: string) => {
+		const names = await fs.readdir(dirPath);
+		return clampTime ? names.sort() : names;
+	};
+
 	async function* walk(
 		currentPath: string, // The relative path inside the tar archive
 	): AsyncGenerator<Uint8Array | Buffer> {
@@ -79,6 +90,14 @@ export function packTar(
 					seenInodes.set(stat.ino, header.name);
 				}
 			}
+
+			// Only keep the sparse map if the file actually has holes.
+			if (sparse && header.type === "file" && hasHoles(stat)) {
+				const segments = await findSparseSegments(fullPath, stat.size);
+				if (segments.length !== 1 || segments[0].size !== stat.size) {
+					header.sparse = segments;
+				}
+			}
 		} else if (stat.isDirectory()) {
 			header.type = "directory";
 			if (!header.name.endsWith("/")) header.name += "/";
@@ -87,39 +106,59 @@ export function packTar(
 			header.linkname = await fs.readlink(fullPath);
 		}
 
+		// Normalize everything that comes from the host rather than the tree itself.
+		if (clampTime) {
+			header.mtime = stat.mtime > clampTime ? clampTime : stat.mtime;
+			header.uid = 0;
+			header.gid = 0;
+			if (header.type === "symlink") {
+				header.mode = 0o777;
+			} else {
+				header.mode =
+					header.type === "directory" || stat.mode & 0o111 ? 0o755 : 0o644;
+			}
+		}
+
 		header = map?.(header) ?? header;
 
-		// Automatically generate and yield a PAX header if needed.
-		const pax = generatePax(header);
-		if (pax) {
-			yield pax.paxHeader;
-			yield pax.paxBody;
-			const padding = -pax.paxBody.length & BLOCK_SIZE_MASK;
-			if (padding > 0) yield ZERO_BUFFER.subarray(0, padding);
-		}
+		// Sparse files are archived with only their data regions, preceded by their map.
+		const segments = header.type === "file" ? header.sparse : undefined;
+		const sparseEntry = segments ? createSparseEntry(header, segments) : null;
+		const entryHeader = sparseEntry?.header ?? header;
 
-		yield createTarHeader(header);
+		// Yield any PAX or GNU long name entries, followed by the entry's own header.
+		yield* createHeaderBlocks(entryHeader, options);
 
-		// Yield file content and padding
-		if (header.type === "file" && header.size > 0) {
+		// Yield sparse map, data regions and padding
+		if (sparseEntry && segments) {
+			yield sparseEntry.map;
+			for (const segment of segments) {
+				if (segment.size === 0) continue;
+				yield* createReadStream(fullPath, {
+					start: segment.offset,
+					end: segment.offset + segment.size - 1,
+				});
+			}
+			const padding = -entryHeader.size & BLOCK_SIZE_MASK;
+			if (padding > 0) yield ZERO_BUFFER.subarray(0, padding);
+		} else if (header.type === "file" && header.size > 0) {
+			// Yield file content and padding
 			yield* createReadStream(fullPath);
 			const padding = -header.size & BLOCK_SIZE_MASK;
 			if (padding > 0) yield ZERO_BUFFER.subarray(0, padding);
 		}
 
 		if (stat.isDirectory()) {
-			const dirents = await fs.readdir(fullPath, { withFileTypes: true });
-			for (const dirent of dirents) {
-				yield* walk(path.join(currentPath, dirent.name));
+			for (const name of await readNames(fullPath)) {
+				yield* walk(path.join(currentPath, name));
 			}
 		}
 	}
 
 	return Readable.from(
 		(async function* () {
-			const topLevelDirents = await fs.readdir(directoryPath);
-			for (const dirent of topLevelDirents) {
-				yield* walk(dirent);
+			for (const name of await readNames(directoryPath)) {
+				yield* walk(name);
 			}
 
 			// End with two zero-filled blocks
@@ -127,3 +166,17 @@ export function packTar(
 		})(),
 	);
 }
+
+// Resolves the clamp time of deterministic archives: the given mtime, SOURCE_DATE_EPOCH,
+// or the Unix epoch.
+function resolveClampTime(options: true | DeterministicOptions): Date {
+	if (typeof options === "object" && options.mtime) return options.mtime;
+
+	const epoch = process.env.SOURCE_DATE_EPOCH;
+	if (!epoch) return new Date(0);
+	if (!/^\d+$/.test(epoch)) {
+		throw new Error("SOURCE_DATE_EPOCH must be a whole number of seconds.");
+	}
+
+	return new Date(Number(epoch) * 1000);
+}
@@ -0,0 +1,234 @@
+import * as os from "node:os";
+import { Transform } from "node:stream";
+import { Worker } from "node:worker_threads";
+import * as zlib from "node:zlib";
+import { crc32 } from "../web/checksum";
+import { writeGzipHeader, writeGzipTrailer } from "../web/gzip";
+import type { ParallelGzipOptions } from "./types";
+
+// Default uncompressed bytes in each block, as in pigz.
+const DEFAULT_BLOCK_SIZE = 128 * 1024;
+
+// Bytes of preceding data used as the dictionary of each block, the deflate window size.
+const DICTIONARY_SIZE = 32 * 1024;
+
+// Blocks kept in flight for each thread before the input is paused.
+const BLOCKS_PER_THREAD = 2;
+
+// Compresses blocks to raw deflate. Every block but the last ends with a sync flush
+// instead of a final block, so their output can be concatenated into one deflate stream.
+// The worker is evaluated from source so the bundle does not need a separate entry for it.
+const WORKER_SOURCE = `
+const { parentPort } = require("node:worker_threads");
+const zlib = require("node:zlib");
+
+parentPort.on("message", ({ data, dictionary, level, last }) => {
+	try {
+		const output = zlib.deflateRawSync(data, {
+			level,
+			dictionary,
+			finishFlush: last ? zlib.constants.Z_FINISH : zlib.constants.Z_SYNC_FLUSH,
+		});
+		parentPort.postMessage({ output });
+	} catch (err) {
+		parentPort.postMessage({ error: err.message });
+	}
+});
+`;
+
+// The native CRC32 is much faster where available (Node.js 20.15 and 22.2 onwards).
+const checksum: (data: Uint8Array, crc: number) => number =
+	typeof zlib.crc32 === "function" ? zlib.crc32 : crc32;
+
+interface Block {
+	data: Uint8Array;
+	dictionary?: Uint8Array;
+	last: boolean;
+	output?: Uint8Array;
+}
+
+/**
+ * Create a gzip compression stream that compresses blocks of its input on several worker
+ * threads at once, like `pigz`.
+ *
+ * Each block is primed with the last 32 KiB of the data before it, so the compression
+ * ratio stays close to a single-threaded encoder. The compressed blocks are joined into a
+ * standard gzip file that `gunzip` and {@link unpackTar} read as usual.
+ *
+ * @param options - Optional {@link ParallelGzipOptions} for the level, threads and header
+ * @returns Node.js [`Transform`](https://nodejs.org/api/stream.html#class-streamtransform) stream that compresses its input
+ *
+ * @example
+ * ```typescript
+ * import { createParallelGzipEncoder, packTar } from 'modern-tar/fs';
+ * import { createWriteStream } from 'node:fs';
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * await pipeline(
+ *   packTar('./build'),
+ *   createParallelGzipEncoder({ threads: 8, level: 9 }),
+ *   createWriteStream('build.tar.gz'),
+ * );
+ * ```
+ */
+export function createParallelGzipEncoder(
+	options: ParallelGzipOptions = {},
+): Transform {
+	const { level, blockSize = DEFAULT_BLOCK_SIZE, header = {} } = options;
+	const threads = options.threads ?? os.availableParallelism();
+
+	if (!Number.isInteger(threads) || threads < 1) {
+		throw new Error("Thread count must be a positive integer.");
+	}
+	if (!(blockSize > 0)) {
+		throw new Error("Block size must be greater than 0.");
+	}
+
+	const headerBytes = writeGzipHeader(header);
+
+	const workers: Worker[] = [];
+	const idle: Worker[] = [];
+	const running = new Map<Worker, Block>();
+	const queued: Block[] = []; // Waiting for a worker
+	const blocks: Block[] = []; // Compressing or waiting to be output, in input order
+
+	let failure: Error | undefined;
+	let progress: (() => void) | undefined;
+
+	let pending: Uint8Array[] = [];
+	let pendingLength = 0;
+	let dictionary: Uint8Array | undefined;
+	let crc = 0;
+	let size = 0;
+
+	// Outputs the compressed blocks that are ready, in order.
+	const emit = () => {
+		while (blocks[0]?.output) {
+			const block = blocks.shift() as Block;
+			stream.push(block.output);
+		}
+	};
+
+	const notify = () => {
+		emit();
+		progress?.();
+		progress = undefined;
+	};
+
+	const fail = (err: Error) => {
+		failure ??= err;
+		if (progress) notify();
+		else stream.destroy(err);
+	};
+
+	const spawn = (): Worker => {
+		const worker = new Worker(WORKER_SOURCE, { eval: true });
+
+		worker.on("message", (message: { output?: Uint8Array; error?: string }) => {
+			const block = running.get(worker) as Block;
+			running.delete(worker);
+			idle.push(worker);
+
+			if (message.error !== undefined) {
+				fail(new Error(message.error));
+				return;
+			}
+
+			block.output = message.output;
+			dispatch();
+			notify();
+		});
+		worker.on("error", fail);
+
+		workers.push(worker);
+		return worker;
+	};
+
+	const dispatch = () => {
+		while (queued.length > 0) {
+			const worker =
+				idle.pop() ?? (workers.length < threads ? spawn() : undefined);
+			if (!worker) return;
+
+			const block = queued.shift() as Block;
+			running.set(worker, block);
+
+			const transfer = [block.data.buffer as ArrayBuffer];
+			if (block.dictionary) {
+				transfer.push(block.dictionary.buffer as ArrayBuffer);
+			}
+			worker.postMessage(
+				{
+					data: block.data,
+					dictionary: block.dictionary,
+					level,
+					last: block.last,
+				},
+				transfer,
+			);
+		}
+	};
+
+	// Cuts the next block from the buffered input and queues it. Blocks and dictionaries
+	// are copied, so only their own bytes are transferred to the worker.
+	const queue = (length: number, last: boolean) => {
+		const input = pending.length === 1 ? pending[0] : Buffer.concat(pending);
+		const data = input.subarray(0, length);
+		pending = length < input.length ? [input.subarray(length)] : [];
+		pendingLength = input.length - length;
+
+		const block: Block = {
+			data: new Uint8Array(data),
+			dictionary: dictionary && new Uint8Array(dictionary),
+			last,
+		};
+		blocks.push(block);
+		queued.push(block);
+
+		dictionary =
+			data.length >= DICTIONARY_SIZE || !dictionary
+				? data.subarray(-DICTIONARY_SIZE)
+				: Buffer.concat([dictionary, data]).subarray(-DICTIONARY_SIZE);
+
+		dispatch();
+	};
+
+	// Waits until no more than `limit` blocks are in flight. Blocks are output as soon as
+	// they are ready, so this only waits on blocks that are still compressing.
+	const wait = async (limit: number) => {
+		while (!failure && blocks.length > limit) {
+			await new Promise<void>((resolve) => {
+				progress = resolve;
+			});
+		}
+		if (failure) throw failure;
+	};
+
+	const stream: Transform = new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			crc = checksum(chunk, crc);
+			size += chunk.length;
+			pending.push(chunk);
+			pendingLength += chunk.length;
+
+			while (pendingLength >= blockSize) queue(blockSize, false);
+			wait(threads * BLOCKS_PER_THREAD).then(() => callback(), callback);
+		},
+
+		flush(callback) {
+			queue(pendingLength, true);
+			wait(0).then(() => {
+				stream.push(writeGzipTrailer(crc, size));
+				callback();
+			}, callback);
+		},
+
+		destroy(err, callback) {
+			for (const worker of workers) void worker.terminate();
+			callback(err);
+		},
+	});
+
+	stream.push(headerBytes);
+	return stream;
+}
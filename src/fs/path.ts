@@ -1,6 +1,8 @@
 import type { Stats } from "node:fs";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { TarPathError } from "../web/errors";
+import type { TarErrorOptions } from "../web/types";
 
 const unicodeCache = new Map<string, string>();
 const MAX_CACHE_SIZE = 10000;
@@ -34,12 +36,13 @@ export const normalizeUnicode = (s: string): string => {
  * a safe symlink.
  *
  * We need to call this for each path component to ensure that no symlinks escape the
- * target directory.
+ * target directory. The context is attached to the {@link TarPathError} that is thrown.
  */
 export async function validatePath(
 	currentPath: string,
 	root: string,
 	cache: Set<string>,
+	context: TarErrorOptions = {},
 ) {
 	const normalizedPath = normalizeUnicode(currentPath);
 
@@ -94,13 +97,18 @@ export async function validatePath(
 				realPath,
 				root,
 				`Symlink "${current}" points outside the extraction directory.`,
+				context,
 			);
 
 			cache.add(current);
 			continue;
 		}
 
-		throw new Error(`"${current}" is not a valid directory component.`);
+		throw new TarPathError(
+			"TAR_NOT_A_DIRECTORY",
+			`"${current}" is not a valid directory component.`,
+			context,
+		);
 	}
 }
 
@@ -109,6 +117,7 @@ export function validateBounds(
 	targetPath: string,
 	destDir: string,
 	errorMessage: string,
+	context: TarErrorOptions = {},
 ): void {
 	const normalizedTarget = normalizeUnicode(targetPath);
 	if (
@@ -117,6 +126,6 @@ export function validateBounds(
 			normalizedTarget.startsWith(destDir + path.sep)
 		)
 	) {
-		throw new Error(errorMessage);
+		throw new TarPathError("TAR_PATH_ESCAPE", errorMessage, context);
 	}
 }
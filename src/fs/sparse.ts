@@ -0,0 +1,71 @@
+import type { Stats } from "node:fs";
+import * as fs from "node:fs/promises";
+import { BLOCK_SIZE } from "../web/constants";
+import type { TarSparseSegment } from "../web/types";
+
+// Read files in larger chunks, but detect holes at the tar block granularity.
+const READ_BUFFER_SIZE = 64 * 1024;
+const ZERO_BLOCK = Buffer.alloc(BLOCK_SIZE);
+
+/**
+ * Checks whether a file allocates less space on disk than its size, which means it has
+ * holes worth scanning for.
+ */
+export function hasHoles(stat: Stats): boolean {
+	return stat.isFile() && stat.blocks * 512 < stat.size;
+}
+
+/**
+ * Scans a file for its data regions by treating every all-zero block as a hole.
+ *
+ * Like GNU tar, a final empty region marks the end of a file that ends in a hole.
+ */
+export async function findSparseSegments(
+	filePath: string,
+	size: number,
+): Promise<TarSparseSegment[]> {
+	const segments: TarSparseSegment[] = [];
+	const buffer = Buffer.alloc(READ_BUFFER_SIZE);
+	const handle = await fs.open(filePath, "r");
+
+	try {
+		let current: TarSparseSegment | null = null;
+		let position = 0;
+
+		while (position < size) {
+			const { bytesRead } = await handle.read(
+				buffer,
+				0,
+				buffer.length,
+				position,
+			);
+			if (bytesRead === 0) break;
+
+			for (let offset = 0; offset < bytesRead; offset += BLOCK_SIZE) {
+				const end = Math.min(offset + BLOCK_SIZE, bytesRead);
+				const isHole =
+					buffer.compare(ZERO_BLOCK, 0, end - offset, offset, end) === 0;
+
+				if (isHole) {
+					current = null;
+				} else if (current) {
+					current.size += end - offset;
+				} else {
+					current = { offset: position + offset, size: end - offset };
+					segments.push(current);
+				}
+			}
+
+			position += bytesRead;
+		}
+	} finally {
+		await handle.close();
+	}
+
+	const last = segments.at(-1);
+	if (!last || last.offset + last.size < size) {
+		segments.push({ offset: size, size: 0 });
+	}
+
+	return segments;
+}
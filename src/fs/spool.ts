@@ -0,0 +1,36 @@
+import { createReadStream } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Readable } from "node:stream";
+import type { SpoolStorage } from "../web/types";
+
+/**
+ * Creates spool storage in a temporary file, which is removed once it has been read or
+ * discarded.
+ */
+export async function createTempFileStorage(): Promise<SpoolStorage> {
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "modern-tar-spool-"));
+	const file = path.join(dir, "spool");
+	const handle = await fs.open(file, "w");
+
+	const remove = () => fs.rm(dir, { recursive: true, force: true });
+
+	return {
+		async write(data) {
+			await handle.write(data);
+		},
+
+		async read() {
+			await handle.close();
+			const input = createReadStream(file);
+			input.once("close", () => void remove());
+			return Readable.toWeb(input) as ReadableStream<Uint8Array>;
+		},
+
+		async discard() {
+			await handle.close();
+			await remove();
+		},
+	};
+}
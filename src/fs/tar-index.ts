@@ -0,0 +1,162 @@
+import * as fs from "node:fs/promises";
+import { Readable } from "node:stream";
+import {
+	createTarIndex as createTarIndexWeb,
+	loadTarIndex as loadTarIndexWeb,
+	readTarEntry as readTarEntryWeb,
+	serializeTarIndex as serializeTarIndexWeb,
+} from "../web/tar-index";
+import type { DecoderOptions, RangeReader, TarIndexEntry } from "../web/types";
+
+/**
+ * Scan the headers of a tar archive on disk to build an index of its entries.
+ *
+ * Entry bodies are skipped with positional reads, so only the header blocks of the archive
+ * are read. Use {@link readTarEntry} to read a single entry's body afterwards.
+ *
+ * @param archive - Path to an uncompressed tar archive, or an open `FileHandle`
+ * @param options - Optional configuration using {@link DecoderOptions}
+ * @returns A `Promise` that resolves to the {@link TarIndexEntry} list in archive order
+ *
+ * @example
+ * ```typescript
+ * import { createTarIndex, readTarEntry } from 'modern-tar/fs';
+ * import { createWriteStream } from 'node:fs';
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * const index = await createTarIndex('dataset.tar');
+ * const entry = index.find((e) => e.header.name === 'images/0001.png');
+ * if (entry) {
+ *   await pipeline(readTarEntry('dataset.tar', entry), createWriteStream('0001.png'));
+ * }
+ * ```
+ */
+export async function createTarIndex(
+	archive: string | fs.FileHandle,
+	options: DecoderOptions = {},
+): Promise<TarIndexEntry[]> {
+	return withHandle(archive, (handle) =>
+		createTarIndexWeb(createRangeReader(handle), options),
+	);
+}
+
+/**
+ * Read the body of an indexed entry from a tar archive on disk.
+ *
+ * @param archive - Path to the archive the index was built from, or an open `FileHandle`
+ * @param entry - An entry returned by {@link createTarIndex}
+ * @returns Node.js [`Readable`](https://nodejs.org/api/stream.html#class-streamreadable) stream of the entry's body
+ */
+export function readTarEntry(
+	archive: string | fs.FileHandle,
+	entry: TarIndexEntry,
+): Readable {
+	if (typeof archive !== "string") {
+		return Readable.fromWeb(readTarEntryWeb(createRangeReader(archive), entry));
+	}
+
+	// Open the archive lazily on first read, and close it once the stream is done.
+	let handle: Promise<fs.FileHandle> | undefined;
+	const read: RangeReader = async (offset, length) => {
+		handle ??= fs.open(archive, "r");
+		return createRangeReader(await handle)(offset, length);
+	};
+
+	const stream = Readable.fromWeb(readTarEntryWeb(read, entry));
+	stream.once("close", () => {
+		handle?.then((h) => h.close()).catch(() => {});
+	});
+
+	return stream;
+}
+
+/**
+ * Serialize an index to a compact JSON string, to store as a sidecar file next to the archive.
+ *
+ * The archive size and the checksums of a sample of header blocks are recorded, so
+ * {@link loadTarIndex} can detect when the archive has changed since it was indexed.
+ *
+ * @param entries - Entries returned by {@link createTarIndex}
+ * @param archive - Path to the archive the index was built from, or an open `FileHandle`
+ * @returns A `Promise` that resolves to the serialized index
+ *
+ * @example
+ * ```typescript
+ * import { createTarIndex, loadTarIndex, serializeTarIndex } from 'modern-tar/fs';
+ * import { readFile, writeFile } from 'node:fs/promises';
+ *
+ * const index = await createTarIndex('dataset.tar');
+ * await writeFile('dataset.tar.idx', await serializeTarIndex(index, 'dataset.tar'));
+ *
+ * // Later, without rescanning the archive
+ * const cached = await loadTarIndex(await readFile('dataset.tar.idx', 'utf8'), 'dataset.tar');
+ * ```
+ */
+export async function serializeTarIndex(
+	entries: TarIndexEntry[],
+	archive: string | fs.FileHandle,
+): Promise<string> {
+	return withHandle(archive, async (handle) => {
+		const { size } = await handle.stat();
+		return serializeTarIndexWeb(entries, createRangeReader(handle), { size });
+	});
+}
+
+/**
+ * Load an index serialized with {@link serializeTarIndex}, validating it against the archive.
+ *
+ * Throws if the archive size or any sampled header checksum no longer matches, so the
+ * caller can rebuild the index with {@link createTarIndex}.
+ *
+ * @param data - The serialized index
+ * @param archive - Path to the archive the index was built from, or an open `FileHandle`
+ * @returns A `Promise` that resolves to the {@link TarIndexEntry} list, usable with {@link readTarEntry}
+ */
+export async function loadTarIndex(
+	data: string,
+	archive: string | fs.FileHandle,
+): Promise<TarIndexEntry[]> {
+	return withHandle(archive, async (handle) => {
+		const { size } = await handle.stat();
+		return loadTarIndexWeb(data, createRangeReader(handle), { size });
+	});
+}
+
+/**
+ * Creates a {@link RangeReader} that uses positional reads on a `FileHandle`.
+ */
+export function createRangeReader(handle: fs.FileHandle): RangeReader {
+	return async (offset, length) => {
+		const buffer = new Uint8Array(length);
+		let bytesRead = 0;
+
+		// Positional reads may return fewer bytes than requested, so read until full or EOF.
+		while (bytesRead < length) {
+			const result = await handle.read(
+				buffer,
+				bytesRead,
+				length - bytesRead,
+				offset + bytesRead,
+			);
+			if (result.bytesRead === 0) break;
+			bytesRead += result.bytesRead;
+		}
+
+		return bytesRead < length ? buffer.subarray(0, bytesRead) : buffer;
+	};
+}
+
+// Runs `fn` with the archive's handle, opening and closing it when given a path.
+async function withHandle<T>(
+	archive: string | fs.FileHandle,
+	fn: (handle: fs.FileHandle) => Promise<T>,
+): Promise<T> {
+	if (typeof archive !== "string") return fn(archive);
+
+	const handle = await fs.open(archive, "r");
+	try {
+		return await fn(handle);
+	} finally {
+		await handle.close();
+	}
+}
@@ -1,20 +1,68 @@
 import type { Stats } from "node:fs";
-import type { UnpackOptions } from "../web/index";
-import type { TarEntryData, TarHeader } from "../web/types";
+import type { PackOptions, UnpackOptions } from "../web/index";
+import type { GzipHeader, TarEntryData, TarHeader } from "../web/types";
 
 /**
  * Filesystem-specific configuration options for packing directories into tar archives.
  *
- * These options are specific to Node.js filesystem operations and use Node.js-specific
- * types like `Stats` for file system metadata.
+ * Extends the core {@link PackOptions} with options that are specific to Node.js
+ * filesystem operations and use Node.js-specific types like `Stats` for file system metadata.
  */
-export interface PackOptionsFS {
+export interface PackOptionsFS extends PackOptions {
 	/** Follow symlinks instead of storing them as symlinks (default: false) */
 	dereference?: boolean;
 	/** Filter function to include/exclude files (return false to exclude) */
 	filter?: (path: string, stat: Stats) => boolean;
 	/** Transform function to modify tar headers before packing */
 	map?: (header: TarHeader) => TarHeader;
+	/**
+	 * Detect holes in sparse files and archive only their data regions as PAX 1.0 sparse
+	 * entries, which GNU tar and {@link unpackTar} restore as sparse files. Holes are found
+	 * by scanning files that allocate less disk space than their size for zero blocks.
+	 * Only used with the `pax` format.
+	 * @default false
+	 */
+	sparse?: boolean;
+	/**
+	 * Produce the same bytes for the same tree on any host, e.g. for build caches. Entries
+	 * are sorted by name, mtimes are clamped to a fixed time, ownership is set to 0, and
+	 * modes are normalized to 0o755 for directories and executables, or 0o644 otherwise.
+	 * Sparse detection depends on how the host allocated files, so `sparse` is ignored.
+	 *
+	 * Pass {@link DeterministicOptions} to set the clamp time, which otherwise comes from
+	 * the `SOURCE_DATE_EPOCH` environment variable, or the Unix epoch if it is unset.
+	 * @default false
+	 */
+	deterministic?: boolean | DeterministicOptions;
+}
+
+/**
+ * Options for the `deterministic` mode of {@link PackOptionsFS}.
+ */
+export interface DeterministicOptions {
+	/** Latest mtime written to the archive. Later mtimes are clamped to it. */
+	mtime?: Date;
+}
+
+/**
+ * Options for compressing gzip on several threads with `createParallelGzipEncoder`.
+ */
+export interface ParallelGzipOptions {
+	/** Compression level from 0 (none) to 9 (best). Defaults to the `node:zlib` default of 6. */
+	level?: number;
+	/**
+	 * Number of worker threads compressing blocks at the same time.
+	 * @default os.availableParallelism()
+	 */
+	threads?: number;
+	/**
+	 * Uncompressed bytes in each block given to a worker. Larger blocks lower the overhead
+	 * of threads, while smaller ones start compressing sooner.
+	 * @default 131072 (128 KiB)
+	 */
+	blockSize?: number;
+	/** Header fields to write, as with `createGzipEncoder` from the core API. */
+	header?: GzipHeader;
 }
 
 /**
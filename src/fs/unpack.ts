@@ -3,8 +3,16 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { Readable, Writable } from "node:stream";
 import { pipeline } from "node:stream/promises";
-import { createTarDecoder, createTarOptionsTransformer } from "../web/index";
+import { TarPathError } from "../web/errors";
+import {
+	createAutoDecoder,
+	createTarDecoder,
+	createTarOptionsTransformer,
+} from "../web/index";
+import type { TarSparseSegment } from "../web/types";
 import { streamToBuffer } from "../web/utils";
+import { createZstdDecoder } from "../web/zstd";
+import { nodeZstdCodec } from "./compression";
 import { normalizeUnicode, validateBounds, validatePath } from "./path";
 import type { UnpackOptionsFS } from "./types";
 
@@ -15,6 +23,8 @@ import type { UnpackOptionsFS } from "./types";
  * stream to pipe tar archive bytes into. Files, directories, symlinks, and hardlinks
  * are written to the filesystem with correct permissions and timestamps.
  *
+ * Compressed archives are detected from their first bytes and decompressed automatically.
+ *
  * @param directoryPath - Path to directory where files will be extracted
  * @param options - Optional extraction configuration
  * @returns Node.js [`Writable`](https://nodejs.org/api/stream.html#class-streamwritable) stream to pipe tar archive bytes into
@@ -50,7 +60,13 @@ export function unpackTar(
 	>();
 
 	const entryStream = readable
-		.pipeThrough(createTarDecoder(options))
+		.pipeThrough(
+			createAutoDecoder(options, {
+				zstd: () => createZstdDecoder(nodeZstdCodec),
+			}),
+		)
+		// Sparse bodies are kept packed, as their regions are written at their offsets.
+		.pipeThrough(createTarDecoder({ ...options, inflateSparse: false }))
 		.pipeThrough(createTarOptionsTransformer(options));
 
 	const webWriter = webWritable.getWriter();
@@ -77,19 +93,28 @@ export function unpackTar(
 
 				const { header } = entry;
 				const normalizedName = normalizeUnicode(header.name);
+				const context = { header, offset: entry.offset };
 
 				// Check path depth to prevent DoS attacks
 				if (maxDepth !== Infinity) {
 					const depth = normalizedName.split("/").length;
 
 					if (depth > maxDepth) {
-						throw new Error("Tar exceeds max specified depth.");
+						throw new TarPathError(
+							"TAR_MAX_DEPTH",
+							"Tar exceeds max specified depth.",
+							context,
+						);
 					}
 				}
 
 				// Check for absolute paths in the entry name
 				if (path.isAbsolute(normalizedName)) {
-					throw new Error(`Absolute path found in "${header.name}".`);
+					throw new TarPathError(
+						"TAR_ABSOLUTE_PATH",
+						`Absolute path found in "${header.name}".`,
+						context,
+					);
 				}
 
 				const outPath = path.join(resolvedDestDir, normalizedName);
@@ -98,11 +123,12 @@ export function unpackTar(
 					outPath,
 					resolvedDestDir,
 					`Entry "${header.name}" points outside the extraction directory.`,
+					context,
 				);
 
 				const parentDir = path.dirname(outPath);
 
-				await validatePath(parentDir, resolvedDestDir, validatedDirs);
+				await validatePath(parentDir, resolvedDestDir, validatedDirs, context);
 				await fs.mkdir(parentDir, { recursive: true });
 
 				switch (header.type) {
@@ -118,8 +144,17 @@ export function unpackTar(
 					}
 
 					case "file": {
-						// For < 32kb files, buffer the content and use writeFile to avoid overhead of creating a stream.
-						if (header.size <= 32 * 1024) {
+						// Sparse files only write their data regions, leaving the holes unallocated.
+						if (header.sparse) {
+							await writeSparseFile(
+								outPath,
+								entry.body,
+								header.sparse,
+								header.size,
+								options.fmode ?? header.mode,
+							);
+						} else if (header.size <= 32 * 1024) {
+							// For < 32kb files, buffer the content and use writeFile to avoid overhead of creating a stream.
 							await fs.writeFile(outPath, await streamToBuffer(entry.body), {
 								mode: options.fmode ?? header.mode,
 							});
@@ -146,6 +181,7 @@ export function unpackTar(
 							resolvedTarget,
 							resolvedDestDir,
 							`Symlink "${header.linkname}" points outside the extraction directory.`,
+							context,
 						);
 						await fs.symlink(header.linkname, outPath);
 
@@ -170,8 +206,10 @@ export function unpackTar(
 
 						// Check for absolute paths in hardlink target
 						if (path.isAbsolute(normalizedLinkname)) {
-							throw new Error(
+							throw new TarPathError(
+								"TAR_PATH_ESCAPE",
 								`Hardlink "${header.linkname}" points outside the extraction directory.`,
+								context,
 							);
 						}
 
@@ -183,12 +221,14 @@ export function unpackTar(
 							resolvedLinkTarget,
 							resolvedDestDir,
 							`Hardlink target "${header.linkname}" points outside the extraction directory.`,
+							context,
 						);
 
 						await validatePath(
 							path.dirname(resolvedLinkTarget),
 							resolvedDestDir,
 							validatedDirs,
+							context,
 						);
 
 						await fs.link(resolvedLinkTarget, outPath);
@@ -221,6 +261,10 @@ export function unpackTar(
 		throw err;
 	});
 
+	// Errors are surfaced through the writable, so avoid reporting them as unhandled
+	// before it is finalized or destroyed.
+	processingPromise.catch(() => {});
+
 	const writable = new Writable({
 		async write(chunk, _encoding, callback) {
 			// Prevent writes after processing completes to avoid race condition.
@@ -276,11 +320,60 @@ export function unpackTar(
 			entryStream.cancel(err).catch(() => {});
 
 			// Wait for the promise to settle to ensure resources are released
-			processingPromise.finally(() => {
-				callback(err);
-			});
+			processingPromise
+				.catch(() => {})
+				.finally(() => {
+					callback(err);
+				});
 		},
 	});
 
 	return writable;
 }
+
+/**
+ * Writes the packed body of a sparse entry, placing each data region at its offset. The
+ * file is then truncated to its full size, so the holes are not allocated on filesystems
+ * that support sparse files.
+ */
+async function writeSparseFile(
+	outPath: string,
+	body: ReadableStream<Uint8Array>,
+	segments: TarSparseSegment[],
+	size: number,
+	mode?: number,
+): Promise<void> {
+	const handle = await fs.open(outPath, "w", mode);
+
+	try {
+		let index = 0;
+		let written = 0; // Bytes written of the current region
+
+		for await (const chunk of Readable.fromWeb(
+			body,
+		) as AsyncIterable<Uint8Array>) {
+			let offset = 0;
+
+			while (offset < chunk.length && index < segments.length) {
+				const segment = segments[index];
+
+				// Region is complete (or empty), move on to the next one.
+				if (written === segment.size) {
+					index++;
+					written = 0;
+					continue;
+				}
+
+				const length = Math.min(chunk.length - offset, segment.size - written);
+				await handle.write(chunk, offset, length, segment.offset + written);
+				offset += length;
+				written += length;
+			}
+		}
+
+		// Extends the file over any trailing hole.
+		await handle.truncate(size);
+	} finally {
+		await handle.close();
+	}
+}
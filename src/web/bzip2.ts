@@ -0,0 +1,346 @@
+import { createDecoderStream } from "./compression";
+import { type ByteReader, buildHuffman, type Huffman } from "./deflate";
+
+// "BZh", followed by the block size in hundreds of kilobytes ('1' to '9').
+const BZIP2_MAGIC = [0x42, 0x5a, 0x68];
+const BLOCK_SIZE_UNIT = 100_000;
+
+// 48-bit magic numbers before each block and at the end of a stream, split in halves.
+const BLOCK_MAGIC = [0x314159, 0x265359];
+const END_MAGIC = [0x177245, 0x385090];
+
+// Limits of the Huffman coding stage.
+const MIN_GROUPS = 2;
+const MAX_GROUPS = 6;
+const GROUP_SIZE = 50;
+const MAX_SELECTORS = 18002;
+const MAX_CODE_LENGTH = 20;
+
+// Symbols that encode runs of the front byte of the move-to-front list.
+const RUN_B = 1;
+
+// Bytes that cover a block of the largest size, with 20-bit symbols and its tables.
+const LOOKAHEAD_PER_BYTE = 2.5;
+const LOOKAHEAD_TABLES = 64 * 1024;
+
+// Size of the chunks of decompressed output.
+const OUTPUT_SIZE = 64 * 1024;
+
+// Table of the bzip2 CRC (CRC-32 without bit reflection), built on first use.
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Creates a bzip2 decompression stream, written in TypeScript as neither Web Streams nor
+ * `node:zlib` support bzip2.
+ *
+ * Concatenated streams, as written by parallel compressors like `pbzip2`, are decoded
+ * as one. Block checksums are verified.
+ *
+ * @returns A {@link ReadableWritablePair} configured for bzip2 decompression.
+ * @example
+ * ```typescript
+ * import { createBzip2Decoder, createTarDecoder } from 'modern-tar';
+ *
+ * const response = await fetch('https://example.com/source.tar.bz2');
+ * const entries = response.body
+ *   .pipeThrough(createBzip2Decoder())
+ *   .pipeThrough(createTarDecoder());
+ * ```
+ */
+export function createBzip2Decoder(): ReadableWritablePair<
+	Uint8Array,
+	Uint8Array
+> {
+	return createDecoderStream(decodeBzip2);
+}
+
+async function decodeBzip2(
+	input: ByteReader,
+	enqueue: (chunk: Uint8Array) => Promise<void>,
+): Promise<void> {
+	crcTable ??= buildCrcTable();
+	const table = crcTable;
+
+	// Bits are read most significant first, one byte at a time, so no more than 7 bits
+	// are ever buffered past the end of a stream.
+	let bitBuffer = 0;
+	let bitCount = 0;
+
+	const bits = (count: number): number => {
+		while (bitCount < count) {
+			if (input.available() === 0) {
+				throw new Error("Bzip2 data is truncated.");
+			}
+			bitBuffer = (bitBuffer << 8) | input.byte();
+			bitCount += 8;
+		}
+
+		bitCount -= count;
+		return (bitBuffer >>> bitCount) & ((1 << count) - 1);
+	};
+
+	const decodeSymbol = ({ counts, symbols }: Huffman): number => {
+		let code = 0;
+		let first = 0;
+		let index = 0;
+
+		for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+			code |= bits(1);
+			const count = counts[length];
+			if (code - count < first) return symbols[index + (code - first)];
+
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+
+		throw new Error("Invalid bzip2 data.");
+	};
+
+	let output = new Uint8Array(OUTPUT_SIZE);
+	let outputLength = 0;
+
+	const flush = async () => {
+		if (outputLength === 0) return;
+		await enqueue(output.subarray(0, outputLength));
+		output = new Uint8Array(OUTPUT_SIZE);
+		outputLength = 0;
+	};
+
+	let tt = new Uint32Array(0);
+
+	// Decodes one block into tt, returning the number of bytes before the final
+	// run-length decoding, and the start of the inverse BWT.
+	const decodeBlock = (blockSize: number): [count: number, start: number] => {
+		if (bits(1)) throw new Error("Randomized bzip2 blocks are not supported.");
+		const origPtr = bits(24);
+
+		// Bytes used in the block, in two levels of 16-bit maps.
+		const seqToUnseq = new Uint8Array(256);
+		let inUse = 0;
+		const used = bits(16);
+		for (let i = 0; i < 16; i++) {
+			if (!(used & (0x8000 >>> i))) continue;
+
+			const usedBytes = bits(16);
+			for (let j = 0; j < 16; j++) {
+				if (usedBytes & (0x8000 >>> j)) seqToUnseq[inUse++] = i * 16 + j;
+			}
+		}
+		if (inUse === 0) throw new Error("Invalid bzip2 data.");
+		const alphaSize = inUse + 2;
+		const endOfBlock = inUse + 1;
+
+		// Huffman table selectors, one for each group of 50 symbols, move-to-front coded.
+		const groups = bits(3);
+		const selectorCount = bits(15);
+		if (groups < MIN_GROUPS || groups > MAX_GROUPS || selectorCount === 0) {
+			throw new Error("Invalid bzip2 data.");
+		}
+
+		const groupOrder = [0, 1, 2, 3, 4, 5];
+		const selectors = new Uint8Array(Math.min(selectorCount, MAX_SELECTORS));
+		for (let i = 0; i < selectorCount; i++) {
+			let j = 0;
+			while (bits(1)) {
+				if (++j >= groups) throw new Error("Invalid bzip2 data.");
+			}
+
+			// Selectors past the limit are ignored, like the reference implementation.
+			if (i >= MAX_SELECTORS) continue;
+			const group = groupOrder[j];
+			groupOrder.copyWithin(1, 0, j);
+			groupOrder[0] = group;
+			selectors[i] = group;
+		}
+
+		// Code lengths of each table, delta coded.
+		const tables: Huffman[] = [];
+		for (let t = 0; t < groups; t++) {
+			const lengths = new Uint8Array(alphaSize);
+			let length = bits(5);
+			for (let i = 0; i < alphaSize; i++) {
+				while (true) {
+					if (length < 1 || length > MAX_CODE_LENGTH) {
+						throw new Error("Invalid bzip2 data.");
+					}
+					if (!bits(1)) break;
+					length += bits(1) ? -1 : 1;
+				}
+				lengths[i] = length;
+			}
+			tables.push(buildHuffman(lengths, MAX_CODE_LENGTH));
+		}
+
+		// Huffman, run-length and move-to-front decoding into tt.
+		const order = new Uint8Array(256);
+		for (let i = 0; i < 256; i++) order[i] = i;
+		const byteCounts = new Uint32Array(256);
+
+		let count = 0;
+		let run = 0;
+		let runWeight = 1;
+		let selector = 0;
+		let groupLeft = 0;
+		let table = tables[0];
+
+		while (true) {
+			if (groupLeft === 0) {
+				if (selector >= selectors.length) {
+					throw new Error("Invalid bzip2 data.");
+				}
+				table = tables[selectors[selector++]];
+				groupLeft = GROUP_SIZE;
+			}
+			groupLeft--;
+
+			const symbol = decodeSymbol(table);
+
+			// RUNA and RUNB add 1 and 2 times the run weight, in bijective base 2.
+			if (symbol <= RUN_B) {
+				run += (symbol + 1) * runWeight;
+				runWeight *= 2;
+				if (run > blockSize) throw new Error("Invalid bzip2 data.");
+				continue;
+			}
+
+			if (run > 0) {
+				if (count + run > blockSize) throw new Error("Invalid bzip2 data.");
+				const byte = seqToUnseq[order[0]];
+				byteCounts[byte] += run;
+				tt.fill(byte, count, count + run);
+				count += run;
+				run = 0;
+				runWeight = 1;
+			}
+
+			if (symbol === endOfBlock) break;
+			if (count >= blockSize) throw new Error("Invalid bzip2 data.");
+
+			const index = symbol - 1;
+			const value = order[index];
+			order.copyWithin(1, 0, index);
+			order[0] = value;
+
+			const byte = seqToUnseq[value];
+			byteCounts[byte]++;
+			tt[count++] = byte;
+		}
+
+		if (origPtr >= count) throw new Error("Invalid bzip2 data.");
+
+		// Inverse Burrows-Wheeler transform: link each byte to the position of the next
+		// one in the upper 24 bits of tt.
+		const starts = new Uint32Array(256);
+		for (let i = 0, sum = 0; i < 256; i++) {
+			starts[i] = sum;
+			sum += byteCounts[i];
+		}
+		for (let i = 0; i < count; i++) {
+			const byte = tt[i] & 0xff;
+			tt[starts[byte]++] |= i << 8;
+		}
+
+		return [count, tt[origPtr] >>> 8];
+	};
+
+	while (await input.ensure(1)) {
+		if (!(await input.ensure(BZIP2_MAGIC.length + 1))) {
+			throw new Error("Bzip2 data is truncated.");
+		}
+
+		const header = input.bytes(BZIP2_MAGIC.length + 1);
+		const level = header[3] - 0x30;
+		if (
+			BZIP2_MAGIC.some((byte, i) => header[i] !== byte) ||
+			level < 1 ||
+			level > 9
+		) {
+			throw new Error("Invalid bzip2 header.");
+		}
+
+		const blockSize = level * BLOCK_SIZE_UNIT;
+		if (tt.length < blockSize) tt = new Uint32Array(blockSize);
+
+		let combinedCrc = 0;
+
+		while (true) {
+			// Buffer a whole block, as blocks are decoded synchronously.
+			const lookahead = blockSize * LOOKAHEAD_PER_BYTE + LOOKAHEAD_TABLES;
+			await input.ensure(lookahead, lookahead);
+
+			const magic = [bits(24), bits(24)];
+			const storedCrc = ((bits(16) << 16) | bits(16)) >>> 0;
+
+			if (magic[0] === END_MAGIC[0] && magic[1] === END_MAGIC[1]) {
+				if (storedCrc !== combinedCrc) {
+					throw new Error("Bzip2 checksum does not match.");
+				}
+
+				// Streams are padded to a whole byte.
+				bitCount = 0;
+				break;
+			}
+
+			if (magic[0] !== BLOCK_MAGIC[0] || magic[1] !== BLOCK_MAGIC[1]) {
+				throw new Error("Invalid bzip2 data.");
+			}
+
+			const [count, start] = decodeBlock(blockSize);
+
+			// Undo the initial run-length encoding, where 4 equal bytes are followed by
+			// a count of further repeats.
+			let crc = 0xffffffff;
+			let pos = start;
+			let last = -1;
+			let same = 0;
+
+			for (let i = 0; i < count; i++) {
+				pos = tt[pos];
+				const byte = pos & 0xff;
+				pos >>>= 8;
+
+				let value = byte;
+				let repeat = 1;
+				if (same === 4) {
+					value = last;
+					repeat = byte;
+					same = 0;
+				} else if (byte === last) {
+					same++;
+				} else {
+					last = byte;
+					same = 1;
+				}
+
+				for (let j = 0; j < repeat; j++) {
+					if (outputLength === OUTPUT_SIZE) await flush();
+					output[outputLength++] = value;
+					crc = (crc << 8) ^ table[((crc >>> 24) ^ value) & 0xff];
+				}
+			}
+
+			const blockCrc = ~crc >>> 0;
+			combinedCrc =
+				(((combinedCrc << 1) | (combinedCrc >>> 31)) ^ blockCrc) >>> 0;
+			if (blockCrc !== storedCrc) {
+				throw new Error("Bzip2 checksum does not match.");
+			}
+		}
+	}
+
+	await flush();
+}
+
+function buildCrcTable(): Uint32Array {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let value = i << 24;
+		for (let bit = 0; bit < 8; bit++) {
+			value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+		}
+		table[i] = value >>> 0;
+	}
+
+	return table;
+}
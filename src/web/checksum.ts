@@ -56,3 +56,82 @@ export function writeChecksum(block: Uint8Array): void {
 	block[USTAR_CHECKSUM_OFFSET + 6] = 0;
 	block[USTAR_CHECKSUM_OFFSET + 7] = CHECKSUM_SPACE;
 }
+
+// CRC lookup tables, built on first use.
+let crc32Table: Uint32Array | undefined;
+let crc64Table: { high: Uint32Array; low: Uint32Array } | undefined;
+
+/**
+ * Updates a CRC-32 (as used by gzip and xz) with `data`.
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+	crc32Table ??= buildCrc32Table();
+
+	let value = ~crc;
+	for (let i = 0; i < data.length; i++) {
+		value = crc32Table[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+	}
+
+	return ~value >>> 0;
+}
+
+/**
+ * Updates a CRC-64 (ECMA-182, as used by xz) with `data`. The 64-bit value is kept as
+ * its high and low 32-bit halves, as bitwise operators only work on 32-bit integers.
+ */
+export function crc64(
+	data: Uint8Array,
+	crc: [high: number, low: number] = [0, 0],
+): [high: number, low: number] {
+	crc64Table ??= buildCrc64Table();
+	const { high: highTable, low: lowTable } = crc64Table;
+
+	let high = ~crc[0];
+	let low = ~crc[1];
+	for (let i = 0; i < data.length; i++) {
+		const index = (low ^ data[i]) & 0xff;
+		low = lowTable[index] ^ ((low >>> 8) | (high << 24));
+		high = highTable[index] ^ (high >>> 8);
+	}
+
+	return [~high >>> 0, ~low >>> 0];
+}
+
+function buildCrc32Table(): Uint32Array {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let value = i;
+		for (let bit = 0; bit < 8; bit++) {
+			value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+		}
+		table[i] = value;
+	}
+
+	return table;
+}
+
+function buildCrc64Table(): { high: Uint32Array; low: Uint32Array } {
+	// Reflected polynomial 0xC96C5795D7870F42, split into halves.
+	const polyHigh = 0xc96c5795;
+	const polyLow = 0xd7870f42;
+
+	const high = new Uint32Array(256);
+	const low = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let valueHigh = 0;
+		let valueLow = i;
+		for (let bit = 0; bit < 8; bit++) {
+			const carry = valueLow & 1;
+			valueLow = (valueLow >>> 1) | (valueHigh << 31);
+			valueHigh >>>= 1;
+			if (carry) {
+				valueHigh ^= polyHigh;
+				valueLow ^= polyLow;
+			}
+		}
+		high[i] = valueHigh;
+		low[i] = valueLow;
+	}
+
+	return { high, low };
+}
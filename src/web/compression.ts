@@ -1,6 +1,61 @@
+import { crc32 } from "./checksum";
+import {
+	BLOCK_SIZE,
+	USTAR_SIZE_OFFSET,
+	USTAR_SIZE_SIZE,
+	USTAR_TYPEFLAG_OFFSET,
+} from "./constants";
+import { type ByteReader, createByteReader } from "./deflate";
+import { decodeGzipMembers, writeGzipHeader, writeGzipTrailer } from "./gzip";
+import type {
+	CompressorFormat,
+	CompressorOptions,
+	GzipDecoderOptions,
+	GzipHeader,
+	GzipMember,
+	RangeReader,
+	SeekableGzipOptions,
+} from "./types";
+import { padded, readNumeric } from "./utils";
+
+// Default amount of uncompressed data in each member of a seekable gzip stream.
+const DEFAULT_MEMBER_SIZE = 1024 * 1024;
+
+// Typeflags of meta entries that describe the entry after them ('x', 'L' and 'K').
+const META_TYPEFLAGS = new Set([120, 76, 75]);
+
+/**
+ * A member (or frame) of a multi-member stream, processed by its own encoder or decoder.
+ */
+export interface Member {
+	writer: WritableStreamDefaultWriter<Uint8Array>;
+	pump: Promise<void>;
+	// Bytes written to the member's stream
+	bytesIn: number;
+	// Bytes forwarded from the member's stream
+	bytesOut: number;
+}
+
+/**
+ * A gzip encoder whose output is made of independent members, along with their offsets.
+ */
+export interface SeekableGzipEncoder
+	extends ReadableWritablePair<Uint8Array, Uint8Array> {
+	/**
+	 * Resolves to the offset table of the written members once the stream has been flushed.
+	 * Pass it to `createGzipRangeReader` to read from the output without scanning it.
+	 */
+	members: Promise<GzipMember[]>;
+}
+
 /**
  * Creates a gzip compression stream that is compatible with Uint8Array streams.
  *
+ * By default the gzip header is left to `CompressionStream`. Pass a {@link GzipHeader}
+ * to write its modification time, operating system, file name and comment instead, e.g.
+ * a fixed `mtime` for reproducible builds.
+ *
+ * @param header - Optional {@link GzipHeader} fields to write
  * @returns A {@link ReadableWritablePair} configured for gzip compression.
  * @example
  * ```typescript
@@ -24,23 +79,54 @@
  *   headers: { 'Content-Type': 'application/gzip' }
  * });
  * ```
+ * @example
+ * ```typescript
+ * import { createGzipEncoder } from 'modern-tar';
+ *
+ * // Byte-identical output across builds
+ * const compressed = tarStream.pipeThrough(
+ *   createGzipEncoder({ mtime: new Date(0), os: 3, name: 'release.tar' }),
+ * );
+ * ```
  */
-export function createGzipEncoder(): ReadableWritablePair<
-	Uint8Array,
-	Uint8Array
-> {
-	// CompressionStream uses generic `BufferSource` types which is a union type that includes `Uint8Array`,
-	// while `pipeThrough` needs ONLY a `Uint8Array`. This causes type issues since TypeScript cannot guarantee
-	// the code will always be used with `Uint8Array`, so we assert this.
-	return new CompressionStream("gzip") as unknown as ReadableWritablePair<
-		Uint8Array,
-		Uint8Array
-	>;
+export function createGzipEncoder(
+	header?: GzipHeader,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	if (!header) return createCompressor("gzip");
+
+	// Encoded up front, so invalid fields throw here rather than inside the stream.
+	const headerBytes = writeGzipHeader(header);
+	let deflate: Member;
+	let crc = 0;
+	let size = 0;
+
+	return createMemberStream({
+		async start(output) {
+			await output.enqueue(headerBytes);
+			deflate = startMember(createCompressor("deflate-raw"), output);
+		},
+
+		async transform(chunk) {
+			crc = crc32(chunk, crc);
+			size += chunk.length;
+			await deflate.writer.write(chunk);
+		},
+
+		async flush(output) {
+			await finishMember(deflate);
+			await output.enqueue(writeGzipTrailer(crc, size));
+		},
+	});
 }
 
 /**
  * Creates a gzip decompression stream that is compatible with Uint8Array streams.
  *
+ * Files made of several members are decompressed as one. Pass `onMember` to receive the
+ * header fields and offsets of each member, which are otherwise discarded. Decompression
+ * then runs in JavaScript, which is several times slower than `DecompressionStream`.
+ *
+ * @param options - Optional {@link GzipDecoderOptions}
  * @returns A {@link ReadableWritablePair} configured for gzip decompression.
  * @example
  * ```typescript
@@ -77,16 +163,527 @@ export function createGzipEncoder(): ReadableWritablePair<
  *   // Process entry.body ReadableStream as needed
  * }
  * ```
+ * @example
+ * ```typescript
+ * import { createGzipDecoder } from 'modern-tar';
+ *
+ * // Read the original file name and modification time of each member
+ * const decoder = createGzipDecoder({
+ *   onMember: ({ header, uncompressedOffset }) => {
+ *     console.log(`${header.name} (${header.mtime?.toISOString()}) at ${uncompressedOffset}`);
+ *   },
+ * });
+ * const data = await new Response(blob.stream().pipeThrough(decoder)).arrayBuffer();
+ * ```
  */
-export function createGzipDecoder(): ReadableWritablePair<
-	Uint8Array,
-	Uint8Array
-> {
-	// DecompressionStream uses generic `BufferSource` types which is a union type that includes `Uint8Array`,
+export function createGzipDecoder(
+	options: GzipDecoderOptions = {},
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const { onMember } = options;
+	if (!onMember) return createDecompressor("gzip");
+
+	return createDecoderStream((input, enqueue) =>
+		decodeGzipMembers(input, enqueue, onMember),
+	);
+}
+
+/**
+ * Creates a compression stream for any format supported by `CompressionStream`.
+ *
+ * Brotli is only available where the runtime supports it, such as recent Node.js versions.
+ * `CompressionStream` has no compression levels, so passing `options.level` throws rather
+ * than compressing at the default level. Use the `modern-tar/fs` version to set one.
+ *
+ * @param format - The {@link CompressorFormat} to compress to
+ * @param options - Optional {@link CompressorOptions}, with the same signature as the
+ * `modern-tar/fs` version
+ * @returns A {@link ReadableWritablePair} configured for the given format.
+ * @example
+ * ```typescript
+ * import { createCompressor, packTar } from 'modern-tar';
+ *
+ * const tar = await packTar(entries);
+ * const compressedStream = new Blob([tar]).stream().pipeThrough(createCompressor("brotli"));
+ *
+ * await fetch('https://cdn.example.com/assets.tar.br', { method: 'PUT', body: compressedStream });
+ * ```
+ */
+export function createCompressor(
+	format: CompressorFormat,
+	options: CompressorOptions = {},
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	if (options.level !== undefined) {
+		throw new Error(
+			"Compression levels are not supported by CompressionStream.",
+		);
+	}
+
+	// CompressionStream uses generic `BufferSource` types which is a union type that includes `Uint8Array`,
 	// while `pipeThrough` needs ONLY a `Uint8Array`. This causes type issues since TypeScript cannot guarantee
 	// the code will always be used with `Uint8Array`, so we assert this.
-	return new DecompressionStream("gzip") as unknown as ReadableWritablePair<
+	return createStream(
+		() => new CompressionStream(format as CompressionFormat),
+		format,
+	) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
+
+/**
+ * Creates a decompression stream for any format supported by `DecompressionStream`.
+ *
+ * Brotli is only available where the runtime supports it, such as recent Node.js versions.
+ *
+ * @param format - The {@link CompressorFormat} to decompress from
+ * @returns A {@link ReadableWritablePair} configured for the given format.
+ */
+export function createDecompressor(
+	format: CompressorFormat,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	// See createCompressor for why the types are asserted.
+	return createStream(
+		() => new DecompressionStream(format as CompressionFormat),
+		format,
+	) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+}
+
+/**
+ * Creates a gzip compression stream that restarts a new gzip member periodically, so the
+ * output can be decompressed from the start of any member.
+ *
+ * The output is a regular multi-member gzip file that `gunzip` and {@link createGzipDecoder}
+ * read as a whole, while the emitted offset table allows jumping straight to the member
+ * holding a given tar entry. Smaller members give faster lookups at the cost of a
+ * slightly worse compression ratio.
+ *
+ * @param options - Optional {@link SeekableGzipOptions} for the member size and boundaries
+ * @returns A {@link SeekableGzipEncoder} stream pair with the offset table of its members
+ * @example
+ * ```typescript
+ * import { createGzipRangeReader, createSeekableGzipEncoder, createTarIndex, packTar } from 'modern-tar';
+ *
+ * const encoder = createSeekableGzipEncoder({ memberSize: 4 * 1024 * 1024, entryBoundaries: true });
+ * const compressed = await new Response(
+ *   new Blob([await packTar(entries)]).stream().pipeThrough(encoder),
+ * ).blob();
+ *
+ * // Read from the compressed archive using the emitted offset table
+ * const tar = createGzipRangeReader(compressed, await encoder.members);
+ * const index = await createTarIndex(tar);
+ * ```
+ */
+export function createSeekableGzipEncoder(
+	options: SeekableGzipOptions = {},
+): SeekableGzipEncoder {
+	const memberSize = options.memberSize ?? DEFAULT_MEMBER_SIZE;
+	const entryBoundaries = options.entryBoundaries ?? false;
+
+	if (!(memberSize > 0)) {
+		throw new Error("Member size must be greater than 0.");
+	}
+
+	const members: GzipMember[] = [];
+	let compressedOffset = 0;
+	let uncompressedOffset = 0;
+
+	let current: Member | undefined;
+
+	// State used to track tar entry boundaries in the uncompressed data.
+	const header = new Uint8Array(BLOCK_SIZE);
+	let headerFill = 0; // Bytes of the current header block received
+	let bodyLeft = 0; // Bytes of body and padding left before the next header block
+	let afterMeta = false; // Whether the previous header belongs to the next entry
+
+	let resolveMembers: (members: GzipMember[]) => void;
+	let rejectMembers: (err: unknown) => void;
+	const membersPromise = new Promise<GzipMember[]>((resolve, reject) => {
+		resolveMembers = resolve;
+		rejectMembers = reject;
+	});
+	// Avoid an unhandled rejection when the caller never awaits the table.
+	membersPromise.catch(() => {});
+
+	const endMember = async () => {
+		if (!current) return;
+		const member = current;
+		current = undefined;
+
+		await finishMember(member);
+
+		members.push({
+			compressedOffset,
+			compressedSize: member.bytesOut,
+			uncompressedOffset,
+			uncompressedSize: member.bytesIn,
+		});
+		compressedOffset += member.bytesOut;
+		uncompressedOffset += member.bytesIn;
+	};
+
+	const transform = async (chunk: Uint8Array, output: MemberOutput) => {
+		let offset = 0;
+
+		while (offset < chunk.length) {
+			let length = chunk.length - offset;
+
+			if (!entryBoundaries) {
+				if (current && current.bytesIn >= memberSize) {
+					await endMember();
+				}
+				length = Math.min(length, memberSize - (current?.bytesIn ?? 0));
+			} else if (bodyLeft > 0) {
+				length = Math.min(length, bodyLeft);
+				bodyLeft -= length;
+			} else {
+				// At the start of a header block, a new member may begin unless the
+				// previous header was a meta entry that belongs to this one.
+				if (
+					headerFill === 0 &&
+					!afterMeta &&
+					current &&
+					current.bytesIn >= memberSize
+				) {
+					await endMember();
+				}
+
+				length = Math.min(length, BLOCK_SIZE - headerFill);
+				header.set(chunk.subarray(offset, offset + length), headerFill);
+				headerFill += length;
+
+				if (headerFill === BLOCK_SIZE) {
+					headerFill = 0;
+
+					// Zero blocks at the end of the archive have a size of 0. Old GNU sparse
+					// extension blocks are not followed, as createTarPacker never writes them.
+					const size = readNumeric(header, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE);
+					bodyLeft = padded(size);
+					afterMeta = META_TYPEFLAGS.has(header[USTAR_TYPEFLAG_OFFSET]);
+				}
+			}
+
+			current ??= startMember(createGzipEncoder(), output);
+			const member = current;
+			member.bytesIn += length;
+			await member.writer.write(chunk.subarray(offset, offset + length));
+			offset += length;
+		}
+	};
+
+	const { readable, writable } = createMemberStream({
+		transform,
+
+		async flush(output) {
+			// Empty input still produces a valid (empty) gzip member.
+			if (members.length === 0 && !current) {
+				current = startMember(createGzipEncoder(), output);
+			}
+			await endMember();
+			resolveMembers(members);
+		},
+
+		cancel(reason) {
+			rejectMembers(reason);
+		},
+	});
+
+	return { readable, writable, members: membersPromise };
+}
+
+/**
+ * The output of a stream made with {@link createMemberStream}. `enqueue` resolves once the
+ * output has room for more data.
+ */
+export interface MemberOutput {
+	enqueue(chunk: Uint8Array): Promise<void>;
+	error(err: unknown): void;
+}
+
+/**
+ * Handlers of a stream made with {@link createMemberStream}, like those of a `TransformStream`.
+ */
+export interface MemberTransformer {
+	start?(output: MemberOutput): void | Promise<void>;
+	transform(chunk: Uint8Array, output: MemberOutput): void | Promise<void>;
+	flush(output: MemberOutput): void | Promise<void>;
+	/** Called when the stream ends with an error, or when either side is cancelled. */
+	cancel?(reason: unknown): void;
+}
+
+/**
+ * Creates a stream pair for formats made of members, whose output is forwarded from each
+ * member's stream as it is produced. Unlike a `TransformStream`, the output tells when it
+ * has room again, so a slow reader holds back the members rather than their output
+ * building up in memory.
+ */
+export function createMemberStream(
+	transformer: MemberTransformer,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	let readableController: ReadableStreamDefaultController<Uint8Array>;
+	let writableController: WritableStreamDefaultController;
+	let resume: (() => void) | undefined;
+
+	const wake = () => {
+		resume?.();
+		resume = undefined;
+	};
+
+	const output: MemberOutput = {
+		async enqueue(chunk) {
+			readableController.enqueue(chunk);
+			if ((readableController.desiredSize ?? 1) <= 0) {
+				await new Promise<void>((resolve) => {
+					resume = resolve;
+				});
+			}
+		},
+
+		error(err) {
+			readableController.error(err);
+			writableController.error(err);
+			wake();
+			transformer.cancel?.(err);
+		},
+	};
+
+	// Errors from the handlers end both sides of the stream.
+	const run = async (handler: () => void | Promise<void>) => {
+		try {
+			await handler();
+		} catch (err) {
+			output.error(err);
+			throw err;
+		}
+	};
+
+	const readable = new ReadableStream<Uint8Array>({
+		start(controller) {
+			readableController = controller;
+		},
+
+		pull: wake,
+
+		cancel(reason) {
+			// Error the writable side as well, so the upstream pipe stops.
+			writableController.error(reason);
+			wake();
+			transformer.cancel?.(reason);
+		},
+	});
+
+	const writable = new WritableStream<Uint8Array>({
+		start(controller) {
+			writableController = controller;
+			return run(() => transformer.start?.(output));
+		},
+
+		write(chunk) {
+			return run(() => transformer.transform(chunk, output));
+		},
+
+		close() {
+			return run(async () => {
+				await transformer.flush(output);
+				readableController.close();
+			});
+		},
+
+		abort(reason) {
+			readableController.error(reason);
+			wake();
+			transformer.cancel?.(reason);
+		},
+	});
+
+	return { readable, writable };
+}
+
+/**
+ * Starts a new member (or frame) with its own encoder or decoder, forwarding its output
+ * to `output` as it is produced.
+ */
+export function startMember(
+	encoder: ReadableWritablePair<Uint8Array, Uint8Array>,
+	output: MemberOutput,
+): Member {
+	const member: Member = {
+		writer: encoder.writable.getWriter(),
+		pump: Promise.resolve(),
+		bytesIn: 0,
+		bytesOut: 0,
+	};
+
+	member.pump = (async () => {
+		const reader = encoder.readable.getReader();
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+
+				member.bytesOut += value.length;
+				await output.enqueue(value);
+			}
+		} catch (err) {
+			// Stop the encoder or decoder as well, such as when the output was cancelled.
+			reader.cancel(err).catch(() => {});
+			throw err;
+		}
+	})();
+
+	// Errors end the output as they happen, rather than only once the member is finished,
+	// and are not left unhandled if it never is.
+	member.pump.catch((err) => output.error(err));
+
+	return member;
+}
+
+/**
+ * Flushes a member's encoder or decoder and waits until all of its output is forwarded.
+ */
+export async function finishMember(member: Member) {
+	await member.writer.close();
+	await member.pump;
+}
+
+/**
+ * Creates a stream pair around a decoder that pulls its input from a {@link ByteReader},
+ * for formats whose structure is easier to walk than to process chunk by chunk.
+ *
+ * The decoder must read its input to the end, and `enqueue` resolves once the output
+ * has room for more data.
+ */
+export function createDecoderStream(
+	decode: (
+		input: ByteReader,
+		enqueue: (chunk: Uint8Array) => Promise<void>,
+	) => Promise<void>,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const { readable: input, writable } = new TransformStream<
 		Uint8Array,
 		Uint8Array
-	>;
+	>();
+	const reader = input.getReader();
+
+	let resume: (() => void) | undefined;
+
+	const readable = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const enqueue = async (chunk: Uint8Array) => {
+				controller.enqueue(chunk);
+				if ((controller.desiredSize ?? 1) <= 0) {
+					await new Promise<void>((resolve) => {
+						resume = resolve;
+					});
+				}
+			};
+
+			decode(createByteReader(readSequential(reader)), enqueue).then(
+				() => controller.close(),
+				(err) => {
+					controller.error(err);
+					// Error the writable side as well, so the upstream pipe stops.
+					reader.cancel(err).catch(() => {});
+				},
+			);
+		},
+
+		pull() {
+			resume?.();
+			resume = undefined;
+		},
+
+		cancel(reason) {
+			resume?.();
+			resume = undefined;
+			return reader.cancel(reason);
+		},
+	});
+
+	return { readable, writable };
+}
+
+/**
+ * Adapts a stream to a RangeReader for reads at increasing offsets. The bytes before each
+ * read are dropped as they arrive, and the bytes from its offset are kept, so the next read
+ * can start at the same offset again.
+ */
+export function readForward(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+): RangeReader {
+	let buffer: Uint8Array = new Uint8Array(0);
+	let start = 0; // Offset of the first buffered byte
+	let done = false;
+
+	const drop = (offset: number) => {
+		const length = Math.min(offset - start, buffer.length);
+		buffer = buffer.subarray(length);
+		start += length;
+	};
+
+	return async (offset, length) => {
+		if (offset < start) {
+			throw new Error(`Cannot read offset ${offset} of a stream again.`);
+		}
+
+		drop(offset);
+		while (!done && start + buffer.length < offset + length) {
+			const { done: end, value } = await reader.read();
+			if (end) {
+				done = true;
+				break;
+			}
+
+			if (buffer.length === 0) {
+				buffer = value;
+			} else {
+				const joined = new Uint8Array(buffer.length + value.length);
+				joined.set(buffer);
+				joined.set(value, buffer.length);
+				buffer = joined;
+			}
+			drop(offset);
+		}
+
+		return buffer.subarray(offset - start, offset - start + length);
+	};
+}
+
+// Adapts a stream to a RangeReader for sequential reads, ignoring the offsets.
+export function readSequential(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+): RangeReader {
+	return async (_offset, length) => {
+		const chunks: Uint8Array[] = [];
+		let total = 0;
+
+		while (total < length) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			chunks.push(value);
+			total += value.length;
+		}
+
+		if (chunks.length === 1) return chunks[0];
+
+		const result = new Uint8Array(total);
+		let offset = 0;
+		for (const chunk of chunks) {
+			result.set(chunk, offset);
+			offset += chunk.length;
+		}
+
+		return result;
+	};
+}
+
+// Runtimes throw a TypeError for formats they do not support, such as brotli on older versions.
+function createStream<T>(create: () => T, format: CompressorFormat): T {
+	try {
+		return create();
+	} catch (err) {
+		if (err instanceof TypeError) {
+			throw new Error(
+				`Compression format "${format}" is not supported in this environment.`,
+			);
+		}
+		throw err;
+	}
 }
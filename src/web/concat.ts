@@ -0,0 +1,369 @@
+import { writeChecksum } from "./checksum";
+import { readSequential } from "./compression";
+import {
+	BLOCK_SIZE,
+	GNU_ISEXTENDED_OFFSET,
+	GNU_MAGIC,
+	USTAR_LINKNAME_OFFSET,
+	USTAR_LINKNAME_SIZE,
+	USTAR_NAME_OFFSET,
+	USTAR_NAME_SIZE,
+	USTAR_PREFIX_OFFSET,
+	USTAR_PREFIX_SIZE,
+	USTAR_SIZE_OFFSET,
+	USTAR_SIZE_SIZE,
+} from "./constants";
+import { type ByteReader, createByteReader } from "./deflate";
+import { TarFormatError } from "./errors";
+import {
+	createHeaderBlocks,
+	createLongNameEntry,
+	createTarHeader,
+} from "./pack";
+import { findUstarSplit, formatPaxRecord } from "./pack-pax";
+import { parseGnuSparseExtension } from "./sparse";
+import type { TarConcatSource } from "./types";
+import {
+	getMetaParser,
+	type HeaderOverrides,
+	type InternalTarHeader,
+	parseUstarHeader,
+} from "./unpack";
+import { decoder, encoder, padded, readOctal, writeOctal } from "./utils";
+
+// A valid tar archive ends with two 512-byte empty blocks.
+const EOF_BUFFER = new Uint8Array(BLOCK_SIZE * 2);
+
+/**
+ * Concatenate several tar archives into one, like `tar -A`.
+ *
+ * The blocks of each archive are passed through unchanged up to its end-of-archive marker,
+ * which is dropped along with any padding after it, and a single marker ends the output.
+ * Only headers are parsed, to find where each entry's body ends. Archives with a `prefix`
+ * have their entries moved into that directory by writing their header blocks again,
+ * while bodies, including those of sparse files, are still copied as they are. Sources
+ * are read one after another, when the output is read.
+ *
+ * @param sources - Uncompressed archives to concatenate in order, as streams or {@link TarConcatSource} objects
+ * @returns A `ReadableStream` of the combined archive
+ * @example
+ * ```typescript
+ * import { concatTar } from 'modern-tar';
+ *
+ * const bundle = concatTar([
+ *   { stream: core.body, prefix: 'packages/core' },
+ *   { stream: cli.body, prefix: 'packages/cli' },
+ *   readme.body,
+ * ]);
+ * ```
+ */
+export function concatTar(
+	sources: Array<ReadableStream<Uint8Array> | TarConcatSource>,
+): ReadableStream<Uint8Array> {
+	const chunks = concatChunks(sources);
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await chunks.next();
+			if (done) controller.close();
+			else controller.enqueue(value);
+		},
+
+		async cancel() {
+			await chunks.return(undefined);
+		},
+	});
+}
+
+async function* concatChunks(
+	sources: Array<ReadableStream<Uint8Array> | TarConcatSource>,
+): AsyncGenerator<Uint8Array, void> {
+	for (const source of sources) {
+		const { stream, prefix } =
+			source instanceof ReadableStream ? { stream: source } : source;
+
+		const reader = stream.getReader();
+		try {
+			yield* copyEntries(
+				createByteReader(readSequential(reader)),
+				prefix === undefined ? undefined : prefixName(prefix),
+			);
+		} finally {
+			// Drops anything after the end-of-archive marker.
+			await reader.cancel().catch(() => {});
+		}
+	}
+
+	yield EOF_BUFFER;
+}
+
+// A meta-entry read before the entry it belongs to, with its padded data.
+interface MetaEntry {
+	block: Uint8Array;
+	type: string | undefined;
+	data: Uint8Array;
+}
+
+// Yields the blocks of an archive's entries, stopping at its end-of-archive marker. With
+// `rename`, the header blocks of each entry are written again for its new name, while its
+// body is still copied as it is.
+async function* copyEntries(
+	input: ByteReader,
+	rename?: (name: string) => string,
+): AsyncGenerator<Uint8Array> {
+	let metaEntries: MetaEntry[] = []; // Meta-entries that belong to the next entry
+	let overrides: HeaderOverrides = {};
+
+	while (await input.ensure(BLOCK_SIZE)) {
+		const block = input.bytes(BLOCK_SIZE);
+		if (block.every((b) => b === 0)) return;
+
+		const header = parseUstarHeader(block, false);
+
+		// Meta-entries are read in full, as they can hold the name and size of the next entry.
+		const metaParser = getMetaParser(header.type);
+		if (metaParser) {
+			const data = await read(input, padded(header.size));
+			if (header.type === "pax-global-header") {
+				yield block;
+				yield data;
+				continue;
+			}
+
+			const parsed = metaParser(data.subarray(0, header.size));
+			overrides = {
+				...overrides,
+				...parsed,
+				pax: parsed.pax && { ...overrides.pax, ...parsed.pax },
+			};
+			metaEntries.push({ block, type: header.type, data });
+			continue;
+		}
+
+		if (rename) {
+			yield* renameHeader(metaEntries, block, header, overrides, rename);
+		} else {
+			for (const meta of metaEntries) {
+				yield meta.block;
+				yield meta.data;
+			}
+			yield block;
+		}
+
+		const size = overrides.size ?? header.size;
+		metaEntries = [];
+		overrides = {};
+
+		// Old GNU sparse headers continue their map in extension blocks.
+		let extended =
+			header.type === "gnu-sparse" && block[GNU_ISEXTENDED_OFFSET] !== 0;
+		while (extended) {
+			const extension = await read(input, BLOCK_SIZE);
+			extended = parseGnuSparseExtension(extension, []);
+			yield extension;
+		}
+
+		let remaining = padded(size);
+		while (remaining > 0) {
+			if (!(await input.ensure(1))) throw truncated(input);
+			const chunk = input.bytes(Math.min(remaining, input.available()));
+			remaining -= chunk.length;
+			yield chunk;
+		}
+	}
+
+	if (input.available() > 0) throw truncated(input);
+}
+
+// Writes the header blocks of an entry again for its new name. The names held in its
+// meta-entries are replaced record by record, so other records, such as repeated PAX 0.0
+// sparse records, are kept, and a meta-entry is added only if the new name needs one. The
+// entry's own header block is kept with only its name fields replaced.
+function renameHeader(
+	metaEntries: MetaEntry[],
+	block: Uint8Array,
+	header: InternalTarHeader,
+	overrides: HeaderOverrides,
+	rename: (name: string) => string,
+): Uint8Array[] {
+	const ustar = header.magic === "ustar";
+	const name = rename(
+		overrides.name ??
+			(ustar && header.prefix
+				? `${header.prefix}/${header.name}`
+				: header.name),
+	);
+
+	// Hard link targets are relative to the archive root, unlike symbolic link targets.
+	const hardLink = header.type === "link";
+	let linkname = overrides.linkname ?? header.linkname;
+	if (hardLink && linkname) linkname = rename(linkname);
+
+	// Names that did not need a meta-entry before may need one now. Only USTAR headers can
+	// split a long name into their prefix field.
+	const missing: Record<string, string> = {};
+	if (
+		overrides.name === undefined &&
+		encoder.encode(name).length > USTAR_NAME_SIZE &&
+		!(ustar && findUstarSplit(name))
+	) {
+		missing.path = name;
+	}
+	if (
+		hardLink &&
+		linkname &&
+		overrides.linkname === undefined &&
+		encoder.encode(linkname).length > USTAR_LINKNAME_SIZE
+	) {
+		missing.linkpath = linkname;
+	}
+
+	const blocks: Uint8Array[] = [];
+	for (const meta of metaEntries) {
+		const size = readOctal(meta.block, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE);
+		let data = meta.data.subarray(0, size);
+
+		if (meta.type === "pax-header") {
+			data = rewritePax(data, (key, value) => {
+				if (key === "path") return name;
+				if (key === "linkpath" && hardLink && linkname) return linkname;
+				if (key === "GNU.sparse.name") return rename(value);
+				return value;
+			});
+
+			// Records that are added go in the first PAX entry.
+			const added = Object.entries(missing);
+			if (added.length > 0) {
+				const records = encoder.encode(
+					added.map(([key, value]) => formatPaxRecord(key, value)).join(""),
+				);
+				data = concat([data, records], data.length + records.length);
+				for (const key in missing) delete missing[key];
+			}
+		} else if (meta.type === "gnu-long-name") {
+			data = encoder.encode(`${name}\0`);
+		} else if (meta.type === "gnu-long-link-name" && hardLink) {
+			data = encoder.encode(`${linkname}\0`);
+		}
+
+		blocks.push(...resizeMetaEntry(meta.block, data));
+	}
+
+	// GNU archives keep long names in GNU entries unless they already use PAX records.
+	if (header.magic === GNU_MAGIC) {
+		if (missing.path) {
+			blocks.push(...createLongNameEntry("gnu-long-name", missing.path));
+		}
+		if (missing.linkpath) {
+			blocks.push(
+				...createLongNameEntry("gnu-long-link-name", missing.linkpath),
+			);
+		}
+	} else if (missing.path || missing.linkpath) {
+		const pax = createHeaderBlocks(
+			{ name, type: header.type, size: 0, mtime: header.mtime, pax: missing },
+			{ format: "pax" },
+		);
+		pax.pop();
+		blocks.push(...pax);
+	}
+
+	// Names that are held in meta-entries are still written to the header, truncated.
+	const generated = createTarHeader(
+		{ name, linkname, type: header.type, size: 0 },
+		{ format: ustar ? "ustar" : "v7" },
+	);
+	const renamed = block.slice();
+	const copy = (offset: number, size: number) => {
+		renamed.set(generated.subarray(offset, offset + size), offset);
+	};
+
+	copy(USTAR_NAME_OFFSET, USTAR_NAME_SIZE);
+	copy(USTAR_LINKNAME_OFFSET, USTAR_LINKNAME_SIZE);
+	if (ustar) copy(USTAR_PREFIX_OFFSET, USTAR_PREFIX_SIZE);
+	writeChecksum(renamed);
+
+	blocks.push(renamed);
+	return blocks;
+}
+
+// Replaces the values of PAX records, copying the bytes of records that do not change.
+function rewritePax(
+	data: Uint8Array,
+	replace: (key: string, value: string) => string,
+): Uint8Array {
+	const parts: Uint8Array[] = [];
+	let offset = 0;
+
+	while (offset < data.length) {
+		const spaceIndex = data.indexOf(32, offset);
+		const length =
+			spaceIndex === -1
+				? Number.NaN
+				: parseInt(decoder.decode(data.subarray(offset, spaceIndex)), 10);
+
+		// Anything that cannot be parsed is copied as it is.
+		if (!(length > 0) || offset + length > data.length) break;
+
+		const record = data.subarray(offset, offset + length);
+		const text = decoder.decode(record.subarray(spaceIndex + 1 - offset, -1));
+		const separator = text.indexOf("=");
+		const key = text.slice(0, separator);
+		const value = text.slice(separator + 1);
+		const replaced = separator === -1 ? value : replace(key, value);
+
+		parts.push(
+			replaced === value
+				? record
+				: encoder.encode(formatPaxRecord(key, replaced)),
+		);
+		offset += length;
+	}
+
+	parts.push(data.subarray(offset));
+	return concat(
+		parts,
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+}
+
+// Returns a meta-entry's header block and padded data for new data.
+function resizeMetaEntry(block: Uint8Array, data: Uint8Array): Uint8Array[] {
+	const resized = block.slice();
+	resized.fill(0, USTAR_SIZE_OFFSET, USTAR_SIZE_OFFSET + USTAR_SIZE_SIZE);
+	writeOctal(resized, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE, data.length);
+	writeChecksum(resized);
+
+	const body = new Uint8Array(padded(data.length));
+	body.set(data);
+	return [resized, body];
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+	const result = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return result;
+}
+
+async function read(input: ByteReader, length: number): Promise<Uint8Array> {
+	if (!(await input.ensure(length))) throw truncated(input);
+	return input.bytes(length);
+}
+
+// Reports a truncated archive at the end of the data that was read.
+function truncated(input: ByteReader): TarFormatError {
+	return new TarFormatError("TAR_TRUNCATED", "Tar archive is truncated.", {
+		offset: input.position + input.available(),
+	});
+}
+
+// Moves names into a directory.
+function prefixName(prefix: string): (name: string) => string {
+	const base = prefix.replace(/\/+$/, "");
+	return (name) => `${base}/${name.replace(/^(\.?\/)+/, "")}`;
+}
@@ -71,9 +71,40 @@ export const USTAR_GNAME_SIZE = 32;
 export const USTAR_PREFIX_OFFSET = 345;
 export const USTAR_PREFIX_SIZE = 155;
 
+/** Offsets and sizes of the old GNU sparse fields, which overlay the USTAR prefix field.
+ *
+ * @see https://www.gnu.org/software/tar/manual/html_node/Sparse-Formats.html
+ */
+
+// Sparse map in the header block (4 entries of offset + numbytes)
+export const GNU_SPARSE_OFFSET = 386;
+export const GNU_SPARSE_ENTRIES = 4;
+
+// Each sparse entry is a 12-byte offset followed by a 12-byte numbytes field
+export const GNU_SPARSE_ENTRY_SIZE = 24;
+export const GNU_SPARSE_NUMBER_SIZE = 12;
+
+// Extended flag, set when sparse extension blocks follow the header
+export const GNU_ISEXTENDED_OFFSET = 482;
+
+// Real (expanded) size of the sparse file
+export const GNU_REALSIZE_OFFSET = 483;
+export const GNU_REALSIZE_SIZE = 12;
+
+// Sparse extension blocks hold 21 entries followed by their own extended flag
+export const GNU_SPARSE_EXTENSION_ENTRIES = 21;
+export const GNU_SPARSE_EXTENSION_ISEXTENDED_OFFSET = 504;
+
 /** USTAR version ("00"). */
 export const USTAR_VERSION = "00";
 
+/** Magic and version of old GNU headers, which together read "ustar  \0". */
+export const GNU_MAGIC = "ustar ";
+export const GNU_VERSION = " \0";
+
+/** Name of the GNU entries holding a long name or link name. */
+export const GNU_LONGLINK_NAME = "././@LongLink";
+
 /** USTAR max value in 8-byte octal field. */
 export const USTAR_MAX_UID_GID = 0o7777777;
 
@@ -95,6 +126,7 @@ export const TYPEFLAG = {
 	// GNU extensions
 	"gnu-long-name": "L",
 	"gnu-long-link-name": "K",
+	"gnu-sparse": "S",
 } as const;
 
 /** Reverse mapping from flag characters to type names. */
@@ -112,4 +144,35 @@ export const FLAGTYPE = {
 	// GNU extensions
 	L: "gnu-long-name",
 	K: "gnu-long-link-name",
+	S: "gnu-sparse",
 } as const;
+
+/** Fields of a gzip member header and trailer.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1952
+ */
+
+// Magic bytes and the deflate compression method
+export const GZIP_ID1 = 0x1f;
+export const GZIP_ID2 = 0x8b;
+export const GZIP_CM_DEFLATE = 8;
+
+// Fixed-size part of the header (ID1, ID2, CM, FLG, MTIME, XFL, OS)
+export const GZIP_HEADER_SIZE = 10;
+
+// Trailer with the CRC-32 and uncompressed size (ISIZE) of the member
+export const GZIP_TRAILER_SIZE = 8;
+
+// Header flags (FLG)
+export const GZIP_FLAG_FHCRC = 0x02;
+export const GZIP_FLAG_FEXTRA = 0x04;
+export const GZIP_FLAG_FNAME = 0x08;
+export const GZIP_FLAG_FCOMMENT = 0x10;
+
+// Operating system byte (OS) written when none is given
+export const GZIP_OS_UNKNOWN = 255;
+
+// BGZF extra subfield ("BC") holding the total block size minus one (BSIZE)
+export const BGZF_SI1 = 66; // 'B'
+export const BGZF_SI2 = 67; // 'C'
+export const BGZF_SLEN = 2;
@@ -0,0 +1,386 @@
+import type { RangeReader } from "./types";
+
+// Default number of bytes fetched when the reader runs out of buffered data.
+const READ_SIZE = 64 * 1024;
+
+// Bytes that cover the longest deflate symbol with its extra bits (15 + 5 + 15 + 13 bits),
+// or the header of a dynamic block before its code lengths.
+const MAX_SYMBOL_BYTES = 8;
+
+// Maximum length of a Huffman code in deflate.
+const MAX_BITS = 15;
+
+// Base lengths and extra bits of the length symbols 257..285.
+const LENGTH_BASE = [
+	3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+	83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+	0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+	5, 5, 0,
+];
+
+// Base distances and extra bits of the distance symbols 0..29.
+const DISTANCE_BASE = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+	1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+	0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+	11, 12, 12, 13, 13,
+];
+
+// Longest distance and match length, which bound the history needed to inflate.
+const WINDOW_SIZE = 32 * 1024;
+const MAX_MATCH = 258;
+
+// Size of the chunks of inflated output.
+const OUTPUT_SIZE = 64 * 1024;
+
+// Order in which the code length code lengths of a dynamic block are stored.
+const CODE_LENGTH_ORDER = [
+	16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/**
+ * Buffered reader over a {@link RangeReader} that reads sequentially from an offset.
+ */
+export interface ByteReader {
+	/** Absolute offset of the next unread byte. */
+	readonly position: number;
+	/** Number of buffered bytes that have not been read yet. */
+	available(): number;
+	/**
+	 * Buffers at least `length` unread bytes, fetching at least `readSize` bytes at a time.
+	 * Resolves to false if the source ends first.
+	 */
+	ensure(length: number, readSize?: number): Promise<boolean>;
+	/** Reads the next buffered byte. */
+	byte(): number;
+	/** Reads up to `length` buffered bytes, without copying them. */
+	bytes(length: number): Uint8Array;
+	/** Skips `length` bytes, which do not need to be buffered. */
+	skip(length: number): void;
+}
+
+/**
+ * Symbols of a canonical Huffman code, grouped by code length.
+ */
+export interface Huffman {
+	counts: Uint16Array;
+	symbols: Uint16Array;
+}
+
+// Fixed Huffman codes of block type 1, built on first use.
+let fixedCodes: { lengths: Huffman; distances: Huffman } | undefined;
+
+/**
+ * Creates a {@link ByteReader} that starts reading at `offset`.
+ */
+export function createByteReader(read: RangeReader, offset = 0): ByteReader {
+	let buffer: Uint8Array = new Uint8Array(0);
+	let index = 0;
+	let next = offset; // Offset of the first byte after the buffer
+	let done = false;
+
+	return {
+		get position() {
+			return next - (buffer.length - index);
+		},
+
+		available() {
+			return buffer.length - index;
+		},
+
+		async ensure(length, readSize = READ_SIZE) {
+			while (buffer.length - index < length && !done) {
+				const size = Math.max(readSize, length - (buffer.length - index));
+				const chunk = await read(next, size);
+				if (chunk.length < size) done = true;
+
+				const rest = buffer.subarray(index);
+				if (rest.length === 0) {
+					buffer = chunk;
+				} else {
+					buffer = new Uint8Array(rest.length + chunk.length);
+					buffer.set(rest);
+					buffer.set(chunk, rest.length);
+				}
+
+				index = 0;
+				next += chunk.length;
+			}
+
+			return buffer.length - index >= length;
+		},
+
+		byte() {
+			return buffer[index++];
+		},
+
+		bytes(length) {
+			const result = buffer.subarray(index, index + length);
+			index += result.length;
+			return result;
+		},
+
+		skip(length) {
+			const available = buffer.length - index;
+			if (length <= available) {
+				index += length;
+				return;
+			}
+
+			next += length - available;
+			buffer = new Uint8Array(0);
+			index = 0;
+		},
+	};
+}
+
+/**
+ * Walks the blocks of a raw deflate stream to find where it ends.
+ *
+ * Without `write`, only Huffman symbols are decoded and back-references are counted rather
+ * than copied, so no output or window is kept. With `write`, the stream is also inflated
+ * and its output is passed to it. The reader is left at the byte after the final block.
+ *
+ * @returns A `Promise` that resolves to the uncompressed size of the stream
+ */
+export async function scanDeflate(
+	reader: ByteReader,
+	write?: (chunk: Uint8Array) => Promise<void>,
+): Promise<number> {
+	let bitBuffer = 0;
+	let bitCount = 0;
+	let size = 0;
+
+	// Inflated data, starting with up to WINDOW_SIZE bytes of history.
+	const output = write && new Uint8Array(WINDOW_SIZE + OUTPUT_SIZE);
+	let outputLength = 0;
+	let written = 0; // Bytes of output already passed to write
+
+	const flush = async () => {
+		if (!output || !write) return;
+
+		await write(output.slice(written, outputLength));
+		if (outputLength > WINDOW_SIZE) {
+			output.copyWithin(0, outputLength - WINDOW_SIZE, outputLength);
+			outputLength = WINDOW_SIZE;
+		}
+		written = outputLength;
+	};
+
+	const bits = (count: number): number => {
+		while (bitCount < count) {
+			bitBuffer |= reader.byte() << bitCount;
+			bitCount += 8;
+		}
+
+		const value = bitBuffer & ((1 << count) - 1);
+		bitBuffer >>>= count;
+		bitCount -= count;
+		return value;
+	};
+
+	// Decodes a canonical Huffman code one bit at a time.
+	const decode = ({ counts, symbols }: Huffman): number => {
+		let code = 0;
+		let first = 0;
+		let index = 0;
+
+		for (let length = 1; length <= MAX_BITS; length++) {
+			code |= bits(1);
+			const count = counts[length];
+			if (code - count < first) return symbols[index + (code - first)];
+
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+
+		throw new Error("Invalid deflate data.");
+	};
+
+	// A valid stream is always followed by enough bytes (at least the gzip trailer) to
+	// decode any symbol, so running short means the data is truncated.
+	const fill = async () => {
+		if (!(await reader.ensure(MAX_SYMBOL_BYTES))) {
+			throw new Error("Unexpected end of deflate data.");
+		}
+	};
+
+	let final = 0;
+	do {
+		if (reader.available() < MAX_SYMBOL_BYTES) await fill();
+		final = bits(1);
+		const type = bits(2);
+
+		if (type === 0) {
+			// Stored blocks start at a byte boundary with their length and its complement.
+			bitBuffer = 0;
+			bitCount = 0;
+
+			const length = reader.byte() | (reader.byte() << 8);
+			const complement = reader.byte() | (reader.byte() << 8);
+			if ((length ^ 0xffff) !== complement) {
+				throw new Error("Invalid deflate stored block length.");
+			}
+
+			size += length;
+			if (!output) {
+				reader.skip(length);
+				continue;
+			}
+
+			let remaining = length;
+			while (remaining > 0) {
+				if (reader.available() === 0) await fill();
+				if (outputLength === output.length) await flush();
+
+				const chunk = reader.bytes(
+					Math.min(remaining, output.length - outputLength),
+				);
+				output.set(chunk, outputLength);
+				outputLength += chunk.length;
+				remaining -= chunk.length;
+			}
+			continue;
+		}
+
+		let lengths: Huffman;
+		let distances: Huffman;
+
+		if (type === 1) {
+			fixedCodes ??= buildFixedCodes();
+			({ lengths, distances } = fixedCodes);
+		} else if (type === 2) {
+			const literalCount = bits(5) + 257;
+			const distanceCount = bits(5) + 1;
+			const codeLengthCount = bits(4) + 4;
+
+			const codeLengths = new Uint8Array(19);
+			for (let i = 0; i < codeLengthCount; i++) {
+				if (reader.available() < MAX_SYMBOL_BYTES) await fill();
+				codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+			}
+			const codeLengthCode = buildHuffman(codeLengths);
+
+			const total = literalCount + distanceCount;
+			const all = new Uint8Array(total);
+			let count = 0;
+
+			while (count < total) {
+				if (reader.available() < MAX_SYMBOL_BYTES) await fill();
+				const symbol = decode(codeLengthCode);
+
+				if (symbol < 16) {
+					all[count++] = symbol;
+					continue;
+				}
+
+				let value = 0;
+				let repeat: number;
+				if (symbol === 16) {
+					if (count === 0) throw new Error("Invalid deflate code lengths.");
+					value = all[count - 1];
+					repeat = 3 + bits(2);
+				} else if (symbol === 17) {
+					repeat = 3 + bits(3);
+				} else {
+					repeat = 11 + bits(7);
+				}
+
+				if (count + repeat > total) {
+					throw new Error("Invalid deflate code lengths.");
+				}
+				all.fill(value, count, count + repeat);
+				count += repeat;
+			}
+
+			lengths = buildHuffman(all.subarray(0, literalCount));
+			distances = buildHuffman(all.subarray(literalCount));
+		} else {
+			throw new Error("Invalid deflate block type.");
+		}
+
+		while (true) {
+			if (reader.available() < MAX_SYMBOL_BYTES) await fill();
+			if (output && outputLength > output.length - MAX_MATCH) await flush();
+			const symbol = decode(lengths);
+
+			if (symbol < 256) {
+				size++;
+				if (output) output[outputLength++] = symbol;
+			} else if (symbol === 256) {
+				break;
+			} else {
+				const lengthIndex = symbol - 257;
+				if (lengthIndex >= LENGTH_BASE.length) {
+					throw new Error("Invalid deflate length symbol.");
+				}
+				const length =
+					LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+
+				const distanceSymbol = decode(distances);
+				if (distanceSymbol >= DISTANCE_EXTRA.length) {
+					throw new Error("Invalid deflate distance symbol.");
+				}
+				const distance =
+					DISTANCE_BASE[distanceSymbol] + bits(DISTANCE_EXTRA[distanceSymbol]);
+				if (distance > size) throw new Error("Invalid deflate distance.");
+				size += length;
+
+				if (output) {
+					// Copied byte by byte, as the source can overlap the bytes being written.
+					for (let i = 0; i < length; i++) {
+						output[outputLength] = output[outputLength - distance];
+						outputLength++;
+					}
+				}
+			}
+		}
+	} while (!final);
+
+	if (outputLength > written) await flush();
+	return size;
+}
+
+/**
+ * Builds the symbol table of a canonical Huffman code from its code lengths.
+ */
+export function buildHuffman(
+	codeLengths: Uint8Array,
+	maxBits = MAX_BITS,
+): Huffman {
+	const counts = new Uint16Array(maxBits + 1);
+	for (const length of codeLengths) counts[length]++;
+	counts[0] = 0;
+
+	const offsets = new Uint16Array(maxBits + 1);
+	for (let length = 1; length < maxBits; length++) {
+		offsets[length + 1] = offsets[length] + counts[length];
+	}
+
+	const symbols = new Uint16Array(codeLengths.length);
+	for (let symbol = 0; symbol < codeLengths.length; symbol++) {
+		if (codeLengths[symbol] !== 0) {
+			symbols[offsets[codeLengths[symbol]]++] = symbol;
+		}
+	}
+
+	return { counts, symbols };
+}
+
+function buildFixedCodes(): { lengths: Huffman; distances: Huffman } {
+	const lengths = new Uint8Array(288);
+	lengths.fill(8, 0, 144);
+	lengths.fill(9, 144, 256);
+	lengths.fill(7, 256, 280);
+	lengths.fill(8, 280, 288);
+
+	return {
+		lengths: buildHuffman(lengths),
+		distances: buildHuffman(new Uint8Array(30).fill(5)),
+	};
+}
@@ -0,0 +1,167 @@
+import { createBzip2Decoder } from "./bzip2";
+import {
+	createGzipDecoder,
+	createMemberStream,
+	finishMember,
+	type Member,
+	type MemberOutput,
+	startMember,
+} from "./compression";
+import { USTAR_MAGIC_OFFSET } from "./constants";
+import type { CompressionFormat, UnpackOptions } from "./types";
+import { createXzDecoder } from "./xz";
+import { createZstdDecoder } from "./zstd";
+
+// Magic bytes at the start of each compressed format.
+const MAGIC: Array<[CompressionFormat, number[]]> = [
+	["gzip", [0x1f, 0x8b]],
+	["zstd", [0x28, 0xb5, 0x2f, 0xfd]],
+	["bzip2", [0x42, 0x5a, 0x68]], // "BZh"
+	["xz", [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]],
+];
+
+// "ustar" magic shared by USTAR, POSIX and GNU headers.
+const USTAR_MAGIC = [0x75, 0x73, 0x74, 0x61, 0x72];
+
+// Bytes needed to recognize a USTAR header, which is checked before the compression
+// formats as a file name may start with one of their magic bytes.
+const SNIFF_SIZE = USTAR_MAGIC_OFFSET + USTAR_MAGIC.length;
+
+/**
+ * Factories for the streams that decompress each format.
+ */
+export type DecoderFactories = Partial<
+	Record<CompressionFormat, () => ReadableWritablePair<Uint8Array, Uint8Array>>
+>;
+
+// Formats that can be decompressed, and the streams that decompress them.
+const DECODERS: DecoderFactories = {
+	gzip: createGzipDecoder,
+	zstd: () => createZstdDecoder(),
+	bzip2: createBzip2Decoder,
+	xz: createXzDecoder,
+};
+
+/**
+ * Detect the format of an archive from its first bytes.
+ *
+ * @param data - The start of the archive. At least 262 bytes are needed to tell a USTAR
+ * archive from a compressed one, as the name of its first entry may start with a magic.
+ * @returns The {@link CompressionFormat}, `"tar"` for an uncompressed USTAR archive, or
+ * `undefined` if the format is unknown (e.g. an old V7 archive without magic)
+ */
+export function detectFormat(
+	data: Uint8Array,
+): CompressionFormat | "tar" | undefined {
+	if (startsWith(data, USTAR_MAGIC, USTAR_MAGIC_OFFSET)) return "tar";
+
+	for (const [format, magic] of MAGIC) {
+		if (startsWith(data, magic, 0)) return format;
+	}
+
+	return undefined;
+}
+
+/**
+ * Creates a stream that detects whether an archive is compressed from its first bytes,
+ * and transparently decompresses it. Uncompressed archives are passed through unchanged.
+ *
+ * @param options - Optional {@link UnpackOptions}, where `compression` restricts the
+ * formats that are accepted
+ * @param decoders - Decoders to use instead of the default ones for some formats
+ * @returns A {@link ReadableWritablePair} that outputs the uncompressed archive
+ * @example
+ * ```typescript
+ * import { createAutoDecoder, createTarDecoder } from 'modern-tar';
+ *
+ * // Works for .tar and .tar.gz alike
+ * const entries = response.body
+ *   .pipeThrough(createAutoDecoder())
+ *   .pipeThrough(createTarDecoder());
+ * ```
+ */
+export function createAutoDecoder(
+	options: Pick<UnpackOptions, "compression"> = {},
+	decoders: DecoderFactories = {},
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const allowed = options.compression;
+
+	let pending: Uint8Array[] | null = []; // Chunks buffered until the format is known
+	let pendingLength = 0;
+	let member: Member | null = null; // Decompresses the archive once its format is known
+
+	// Decides how to handle the archive once enough bytes are buffered.
+	const start = async (output: MemberOutput) => {
+		const chunks = pending ?? [];
+		pending = null;
+
+		const head = concat(chunks, pendingLength);
+		const format = detectFormat(head);
+
+		if (format === undefined || format === "tar") {
+			if (head.length > 0) await output.enqueue(head);
+			return;
+		}
+
+		if (allowed && !allowed.includes(format)) {
+			throw new Error(`Compression format "${format}" is not allowed.`);
+		}
+
+		const createDecoder = decoders[format] ?? DECODERS[format];
+		if (!createDecoder) {
+			throw new Error(`Compression format "${format}" is not supported.`);
+		}
+
+		// Forward the decompressed output, surfacing decoder errors on this stream.
+		member = startMember(createDecoder(), output);
+		await member.writer.write(head);
+	};
+
+	return createMemberStream({
+		async transform(chunk, output) {
+			if (pending) {
+				pending.push(chunk);
+				pendingLength += chunk.length;
+				if (pendingLength < SNIFF_SIZE) return;
+
+				await start(output);
+				return;
+			}
+
+			if (member) {
+				await member.writer.write(chunk);
+			} else {
+				await output.enqueue(chunk);
+			}
+		},
+
+		async flush(output) {
+			// Archives shorter than the sniff size are detected with what is there.
+			if (pending) await start(output);
+			if (member) await finishMember(member);
+		},
+	});
+}
+
+function startsWith(data: Uint8Array, magic: number[], offset: number) {
+	if (data.length < offset + magic.length) return false;
+
+	for (let i = 0; i < magic.length; i++) {
+		if (data[offset + i] !== magic[i]) return false;
+	}
+
+	return true;
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+	if (chunks.length === 1) return chunks[0];
+
+	const result = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return result;
+}
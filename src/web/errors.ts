@@ -0,0 +1,80 @@
+import type {
+	TarErrorCode,
+	TarErrorOptions,
+	TarFormatErrorCode,
+	TarHeader,
+	TarPathErrorCode,
+} from "./types";
+
+/**
+ * Base class of the errors thrown for archives and entries that cannot be processed.
+ *
+ * The `code` is stable across releases, unlike the message, so it can be used to classify
+ * failures. Errors from streams, I/O and invalid arguments are thrown as they are.
+ *
+ * @example
+ * ```typescript
+ * import { TarError } from 'modern-tar';
+ *
+ * try {
+ *   await unpackTar(upload, { strict: true });
+ * } catch (err) {
+ *   if (err instanceof TarError) {
+ *     console.error(`${err.code} at offset ${err.offset}: ${err.header?.name}`);
+ *   }
+ * }
+ * ```
+ */
+export class TarError extends Error {
+	/** Stable code of the failure, see {@link TarErrorCode}. */
+	readonly code: TarErrorCode;
+	/** The header of the entry that failed, if the failure belongs to one. */
+	readonly header?: TarHeader;
+	/** Byte offset in the uncompressed archive where the failure was found. */
+	readonly offset?: number;
+
+	constructor(
+		code: TarErrorCode,
+		message: string,
+		options: TarErrorOptions = {},
+	) {
+		super(message, { cause: options.cause });
+		this.name = "TarError";
+		this.code = code;
+		this.header = options.header;
+		this.offset = options.offset;
+	}
+}
+
+/**
+ * Thrown when the archive itself is malformed or truncated.
+ */
+export class TarFormatError extends TarError {
+	declare readonly code: TarFormatErrorCode;
+
+	constructor(
+		code: TarFormatErrorCode,
+		message: string,
+		options?: TarErrorOptions,
+	) {
+		super(code, message, options);
+		this.name = "TarFormatError";
+	}
+}
+
+/**
+ * Thrown when an entry is not extracted because its path is unsafe, such as a name or
+ * link target outside the extraction directory.
+ */
+export class TarPathError extends TarError {
+	declare readonly code: TarPathErrorCode;
+
+	constructor(
+		code: TarPathErrorCode,
+		message: string,
+		options?: TarErrorOptions,
+	) {
+		super(code, message, options);
+		this.name = "TarPathError";
+	}
+}
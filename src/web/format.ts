@@ -0,0 +1,122 @@
+import { DEFAULT_DIR_MODE, DEFAULT_FILE_MODE } from "./constants";
+import type { TarHeader, TarListingOptions } from "./types";
+
+// Characters for the entry type at the start of a mode string, as printed by GNU tar.
+const TYPE_CHARS: Record<string, string> = {
+	file: "-",
+	link: "h",
+	symlink: "l",
+	"character-device": "c",
+	"block-device": "b",
+	directory: "d",
+	fifo: "p",
+};
+
+// Minimum width of the owner and size columns, which GNU tar widens as names get longer.
+const OWNER_SIZE_WIDTH = 18;
+
+/**
+ * Format a header as one line of a listing, like `tar -tv` prints it, or as a JSON object
+ * for JSON-lines output.
+ *
+ * Listing lines hold the mode string, the owner names or else their ids, the size, the
+ * modification time to the minute and the name, followed by `-> target` for symbolic links
+ * and `link to target` for hard links. The line has no trailing newline.
+ *
+ * @param header - The header to format, e.g. from {@link listTar} or {@link createTarDecoder}
+ * @param options - Optional {@link TarListingOptions} for JSON output and the time zone
+ * @returns The formatted line
+ * @example
+ * ```typescript
+ * import { formatTarHeader, listTar } from 'modern-tar';
+ *
+ * for (const { header } of await listTar(archive)) {
+ *   console.log(formatTarHeader(header));
+ *   // drwxr-xr-x root/root         0 2024-01-01 12:00 package/
+ * }
+ * ```
+ */
+export function formatTarHeader(
+	header: TarHeader,
+	options: TarListingOptions = {},
+): string {
+	const type = header.type ?? "file";
+	const mode =
+		header.mode ??
+		(type === "directory" ? DEFAULT_DIR_MODE : DEFAULT_FILE_MODE);
+	const mtime = header.mtime ?? new Date(0);
+
+	if (options.json) {
+		return JSON.stringify({
+			name: header.name,
+			type,
+			size: header.size,
+			mode,
+			uid: header.uid,
+			gid: header.gid,
+			uname: header.uname || undefined,
+			gname: header.gname || undefined,
+			mtime: mtime.toISOString(),
+			linkname: header.linkname || undefined,
+		});
+	}
+
+	const owner = `${header.uname || (header.uid ?? 0)}/${header.gname || (header.gid ?? 0)}`;
+	const size = String(header.size);
+	const padding = Math.max(OWNER_SIZE_WIDTH - owner.length - size.length, 0);
+
+	let line = `${formatMode(type, mode)} ${owner} ${" ".repeat(padding)}${size} ${formatTime(mtime, options.utc ?? false)} ${header.name}`;
+	if (header.linkname) {
+		if (type === "symlink") line += ` -> ${header.linkname}`;
+		else if (type === "link") line += ` link to ${header.linkname}`;
+	}
+
+	return line;
+}
+
+// Renders a mode like `ls -l`, including the setuid, setgid and sticky bits.
+function formatMode(type: string, mode: number): string {
+	const chars = [TYPE_CHARS[type] ?? "?"];
+	for (let shift = 6; shift >= 0; shift -= 3) {
+		chars.push(
+			mode & (0o4 << shift) ? "r" : "-",
+			mode & (0o2 << shift) ? "w" : "-",
+			mode & (0o1 << shift) ? "x" : "-",
+		);
+	}
+
+	const special = (index: number, bit: number, char: string) => {
+		if (mode & bit) {
+			chars[index] = chars[index] === "x" ? char : char.toUpperCase();
+		}
+	};
+	special(3, 0o4000, "s");
+	special(6, 0o2000, "s");
+	special(9, 0o1000, "t");
+
+	return chars.join("");
+}
+
+// Renders a time as `YYYY-MM-DD HH:MM`.
+function formatTime(date: Date, utc: boolean): string {
+	const parts = utc
+		? [
+				date.getUTCFullYear(),
+				date.getUTCMonth() + 1,
+				date.getUTCDate(),
+				date.getUTCHours(),
+				date.getUTCMinutes(),
+			]
+		: [
+				date.getFullYear(),
+				date.getMonth() + 1,
+				date.getDate(),
+				date.getHours(),
+				date.getMinutes(),
+			];
+	const [year, month, day, hours, minutes] = parts.map((n) =>
+		String(n).padStart(2, "0"),
+	);
+
+	return `${year}-${month}-${day} ${hours}:${minutes}`;
+}
@@ -0,0 +1,188 @@
+import { createGzipDecoder } from "./compression";
+import { GZIP_TRAILER_SIZE } from "./constants";
+import { createByteReader, scanDeflate } from "./deflate";
+import { HEADER_READ_SIZE, readGzipHeader, readGzipTrailer } from "./gzip";
+import { toRangeReader } from "./tar-index";
+import type { GzipMember, RangeReader, SeekableSource } from "./types";
+import { streamToBuffer } from "./utils";
+
+/**
+ * Scan a gzip file to find the boundaries of its members.
+ *
+ * Gzip files made of many members, such as BGZF files or files compressed in independent
+ * chunks, can be decompressed from the start of any member. BGZF blocks are skipped using
+ * the block size in their header. Other members have no such size, so their compressed data
+ * is decoded in full to find where they end, which costs about as much as decompressing them
+ * without keeping the output.
+ *
+ * @param source - A `Blob` or {@link RangeReader} over the compressed file
+ * @returns A `Promise` that resolves to the {@link GzipMember} list in file order
+ * @example
+ * ```typescript
+ * import { createGzipIndex, createGzipRangeReader, createTarIndex, readTarEntry } from 'modern-tar';
+ *
+ * // Index a multi-member .tar.gz and read a single entry from it
+ * const members = await createGzipIndex(blob);
+ * const tar = createGzipRangeReader(blob, members);
+ *
+ * const index = await createTarIndex(tar);
+ * const entry = index.find((e) => e.header.name === 'data/report.csv');
+ * if (entry) {
+ *   const csv = await new Response(readTarEntry(tar, entry)).text();
+ * }
+ * ```
+ */
+export async function createGzipIndex(
+	source: SeekableSource,
+): Promise<GzipMember[]> {
+	const reader = createByteReader(toRangeReader(source));
+	const members: GzipMember[] = [];
+	let uncompressedOffset = 0;
+
+	while (true) {
+		const compressedOffset = reader.position;
+		const header = await readGzipHeader(reader);
+		if (!header) break;
+
+		let uncompressedSize: number;
+		if (header.blockSize !== undefined) {
+			// BGZF stores the block size, so the compressed data can be skipped entirely.
+			// A corrupt size could point back into the header or past the end of the file.
+			const trailerOffset =
+				compressedOffset + header.blockSize - GZIP_TRAILER_SIZE;
+			if (trailerOffset < reader.position) {
+				throw invalidBlockSize(compressedOffset);
+			}
+
+			reader.skip(trailerOffset - reader.position);
+			if (!(await reader.ensure(GZIP_TRAILER_SIZE, HEADER_READ_SIZE))) {
+				throw invalidBlockSize(compressedOffset);
+			}
+			({ size: uncompressedSize } = await readGzipTrailer(reader));
+		} else {
+			uncompressedSize = await scanDeflate(reader);
+			if ((await readGzipTrailer(reader)).size !== uncompressedSize % 2 ** 32) {
+				throw new Error(
+					`Gzip member at offset ${compressedOffset} has an invalid size.`,
+				);
+			}
+		}
+
+		members.push({
+			compressedOffset,
+			compressedSize: reader.position - compressedOffset,
+			uncompressedOffset,
+			uncompressedSize,
+		});
+		uncompressedOffset += uncompressedSize;
+	}
+
+	return members;
+}
+
+/**
+ * Find the gzip member that holds the byte at an uncompressed offset, e.g. the
+ * `headerOffset` or `dataOffset` of a tar entry.
+ *
+ * @param members - Members returned by {@link createGzipIndex}
+ * @param offset - Offset in the uncompressed data
+ * @returns The {@link GzipMember} containing the offset, or `undefined` if it is out of range
+ */
+export function findGzipMember(
+	members: GzipMember[],
+	offset: number,
+): GzipMember | undefined {
+	const index = findMemberIndex(members, offset);
+	return index === -1 ? undefined : members[index];
+}
+
+/**
+ * Create a {@link RangeReader} over the uncompressed data of an indexed gzip file.
+ *
+ * Only the members that cover a requested range are read and decompressed, and the
+ * most recently decompressed member is cached for sequential reads. The returned
+ * reader can be passed to {@link createTarIndex} and {@link readTarEntry}.
+ *
+ * @param source - The `Blob` or {@link RangeReader} the members were indexed from
+ * @param members - Members returned by {@link createGzipIndex}
+ * @returns A {@link RangeReader} over the uncompressed data
+ */
+export function createGzipRangeReader(
+	source: SeekableSource,
+	members: GzipMember[],
+): RangeReader {
+	const read = toRangeReader(source);
+	let cached: { member: GzipMember; data: Uint8Array } | undefined;
+
+	const inflate = async (member: GzipMember): Promise<Uint8Array> => {
+		if (cached?.member !== member) {
+			const compressed = await read(
+				member.compressedOffset,
+				member.compressedSize,
+			);
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(compressed);
+					controller.close();
+				},
+			});
+
+			cached = {
+				member,
+				data: await streamToBuffer(stream.pipeThrough(createGzipDecoder())),
+			};
+		}
+
+		return cached.data;
+	};
+
+	return async (offset, length) => {
+		const result = new Uint8Array(length);
+		let filled = 0;
+		let index = findMemberIndex(members, offset);
+
+		while (index !== -1 && index < members.length && filled < length) {
+			const member = members[index++];
+			if (member.uncompressedSize === 0) continue;
+
+			const data = await inflate(member);
+			const start = offset + filled - member.uncompressedOffset;
+			const chunk = data.subarray(start, start + length - filled);
+
+			result.set(chunk, filled);
+			filled += chunk.length;
+		}
+
+		return filled < length ? result.subarray(0, filled) : result;
+	};
+}
+
+// Binary search for the last member starting at or before `offset` that contains it.
+function findMemberIndex(members: GzipMember[], offset: number): number {
+	let low = 0;
+	let high = members.length - 1;
+	let found = -1;
+
+	while (low <= high) {
+		const mid = (low + high) >>> 1;
+		if (members[mid].uncompressedOffset <= offset) {
+			found = mid;
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	if (found === -1) return -1;
+
+	const member = members[found];
+	return offset < member.uncompressedOffset + member.uncompressedSize
+		? found
+		: -1;
+}
+
+function invalidBlockSize(offset: number): Error {
+	return new Error(
+		`Gzip member at offset ${offset} has an invalid BGZF block size.`,
+	);
+}
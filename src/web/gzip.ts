@@ -0,0 +1,240 @@
+import { crc32 } from "./checksum";
+import {
+	BGZF_SI1,
+	BGZF_SI2,
+	BGZF_SLEN,
+	GZIP_CM_DEFLATE,
+	GZIP_FLAG_FCOMMENT,
+	GZIP_FLAG_FEXTRA,
+	GZIP_FLAG_FHCRC,
+	GZIP_FLAG_FNAME,
+	GZIP_HEADER_SIZE,
+	GZIP_ID1,
+	GZIP_ID2,
+	GZIP_OS_UNKNOWN,
+	GZIP_TRAILER_SIZE,
+} from "./constants";
+import { type ByteReader, scanDeflate } from "./deflate";
+import type { GzipHeader, GzipMemberHeader } from "./types";
+
+// Bytes fetched when reading a member header or trailer, which are usually tiny.
+export const HEADER_READ_SIZE = 1024;
+
+/**
+ * Reads a member header, returning its fields and the BGZF block size if present, or
+ * null at the end of the file. Zero bytes after the last member are treated as padding.
+ */
+export async function readGzipHeader(
+	reader: ByteReader,
+): Promise<{ header: GzipHeader; blockSize?: number } | null> {
+	const complete = await reader.ensure(GZIP_HEADER_SIZE, HEADER_READ_SIZE);
+	if (reader.available() === 0) return null;
+
+	const offset = reader.position;
+	const id1 = reader.byte();
+	if (id1 === 0) return null;
+
+	if (id1 !== GZIP_ID1 || (complete && reader.byte() !== GZIP_ID2)) {
+		throw new Error(`Invalid gzip header at offset ${offset}.`);
+	}
+	if (!complete) throw new Error("Gzip file is truncated.");
+	if (reader.byte() !== GZIP_CM_DEFLATE) {
+		throw new Error(`Unsupported gzip compression method at offset ${offset}.`);
+	}
+
+	const flags = reader.byte();
+	const mtime = readUint32(reader);
+	reader.skip(1); // XFL
+
+	const header: GzipHeader = { os: reader.byte() };
+	if (mtime !== 0) header.mtime = new Date(mtime * 1000);
+
+	let blockSize: number | undefined;
+
+	if (flags & GZIP_FLAG_FEXTRA) {
+		await ensure(reader, 2);
+		const extraLength = reader.byte() | (reader.byte() << 8);
+		await ensure(reader, extraLength);
+
+		// Walk the extra subfields looking for the BGZF block size.
+		let remaining = extraLength;
+		while (remaining >= 4) {
+			const si1 = reader.byte();
+			const si2 = reader.byte();
+			const length = reader.byte() | (reader.byte() << 8);
+			remaining -= 4;
+
+			if (si1 === BGZF_SI1 && si2 === BGZF_SI2 && length === BGZF_SLEN) {
+				blockSize = (reader.byte() | (reader.byte() << 8)) + 1;
+			} else {
+				reader.skip(length);
+			}
+			remaining -= length;
+		}
+		reader.skip(remaining);
+	}
+
+	if (flags & GZIP_FLAG_FNAME) header.name = await readString(reader);
+	if (flags & GZIP_FLAG_FCOMMENT) header.comment = await readString(reader);
+	if (flags & GZIP_FLAG_FHCRC) {
+		await ensure(reader, 2);
+		reader.skip(2);
+	}
+
+	return { header, blockSize };
+}
+
+/**
+ * Reads a member trailer, returning the CRC32 of the uncompressed data and its size
+ * modulo 2^32 (ISIZE).
+ */
+export async function readGzipTrailer(
+	reader: ByteReader,
+): Promise<{ crc: number; size: number }> {
+	await ensure(reader, GZIP_TRAILER_SIZE);
+	return { crc: readUint32(reader), size: readUint32(reader) };
+}
+
+/**
+ * Encodes a member header with the given fields.
+ */
+export function writeGzipHeader(header: GzipHeader): Uint8Array {
+	const name =
+		header.name === undefined ? [] : encodeString(header.name, "name");
+	const comment =
+		header.comment === undefined ? [] : encodeString(header.comment, "comment");
+
+	const mtime = header.mtime ? Math.floor(header.mtime.getTime() / 1000) : 0;
+	if (!(mtime >= 0 && mtime <= 0xffffffff)) {
+		throw new Error("Gzip header mtime must be between 1970 and 2106.");
+	}
+
+	const os = header.os ?? GZIP_OS_UNKNOWN;
+	if (!Number.isInteger(os) || os < 0 || os > 255) {
+		throw new Error("Gzip header os must be an integer from 0 to 255.");
+	}
+
+	let flags = 0;
+	if (header.name !== undefined) flags |= GZIP_FLAG_FNAME;
+	if (header.comment !== undefined) flags |= GZIP_FLAG_FCOMMENT;
+
+	const bytes = new Uint8Array(GZIP_HEADER_SIZE + name.length + comment.length);
+	bytes.set([GZIP_ID1, GZIP_ID2, GZIP_CM_DEFLATE, flags]);
+	writeUint32(bytes, 4, mtime);
+	bytes[8] = 0; // XFL
+	bytes[9] = os;
+	bytes.set(name, GZIP_HEADER_SIZE);
+	bytes.set(comment, GZIP_HEADER_SIZE + name.length);
+
+	return bytes;
+}
+
+/**
+ * Encodes a member trailer from the CRC32 and total size of the uncompressed data.
+ */
+export function writeGzipTrailer(crc: number, size: number): Uint8Array {
+	const bytes = new Uint8Array(GZIP_TRAILER_SIZE);
+	writeUint32(bytes, 0, crc);
+	writeUint32(bytes, 4, size % 2 ** 32);
+
+	return bytes;
+}
+
+/**
+ * Decompresses every member of a gzip file, calling `onMember` with the header of each
+ * one before its data is enqueued. Checksums and sizes are verified against the trailers.
+ */
+export async function decodeGzipMembers(
+	input: ByteReader,
+	enqueue: (chunk: Uint8Array) => Promise<void>,
+	onMember?: (member: GzipMemberHeader) => void,
+): Promise<void> {
+	let uncompressedOffset = 0;
+
+	while (true) {
+		const compressedOffset = input.position;
+		const member = await readGzipHeader(input);
+		if (!member) break;
+
+		onMember?.({ header: member.header, compressedOffset, uncompressedOffset });
+
+		let crc = 0;
+		const size = await scanDeflate(input, async (chunk) => {
+			crc = crc32(chunk, crc);
+			await enqueue(chunk);
+		});
+
+		const trailer = await readGzipTrailer(input);
+		if (trailer.crc !== crc) {
+			throw new Error(
+				`Gzip member at offset ${compressedOffset} has an invalid checksum.`,
+			);
+		}
+		if (trailer.size !== size % 2 ** 32) {
+			throw new Error(
+				`Gzip member at offset ${compressedOffset} has an invalid size.`,
+			);
+		}
+
+		uncompressedOffset += size;
+	}
+
+	// The input is read to the end, and may only hold more padding.
+	while (await input.ensure(1)) {
+		const offset = input.position;
+		if (input.bytes(input.available()).some((byte) => byte !== 0)) {
+			throw new Error(`Invalid gzip header at offset ${offset}.`);
+		}
+	}
+}
+
+// Reads a zero-terminated header string (FNAME or FCOMMENT) as ISO-8859-1.
+async function readString(reader: ByteReader): Promise<string> {
+	let value = "";
+	while (true) {
+		if (reader.available() === 0) await ensure(reader, 1);
+		const byte = reader.byte();
+		if (byte === 0) return value;
+		value += String.fromCharCode(byte);
+	}
+}
+
+// Encodes a header string as ISO-8859-1 with its zero terminator.
+function encodeString(value: string, field: string): number[] {
+	const bytes: number[] = [];
+	for (let i = 0; i < value.length; i++) {
+		const code = value.charCodeAt(i);
+		if (code === 0 || code > 0xff) {
+			throw new Error(
+				`Gzip header ${field} must be ISO-8859-1 without null characters.`,
+			);
+		}
+		bytes.push(code);
+	}
+	bytes.push(0);
+
+	return bytes;
+}
+
+function readUint32(reader: ByteReader): number {
+	return (
+		(reader.byte() |
+			(reader.byte() << 8) |
+			(reader.byte() << 16) |
+			(reader.byte() << 24)) >>>
+		0
+	);
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+	bytes[offset] = value & 0xff;
+	bytes[offset + 1] = (value >>> 8) & 0xff;
+	bytes[offset + 2] = (value >>> 16) & 0xff;
+	bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+async function ensure(reader: ByteReader, length: number) {
+	if (!(await reader.ensure(length, HEADER_READ_SIZE))) {
+		throw new Error("Gzip file is truncated.");
+	}
+}
@@ -1,6 +1,17 @@
-import { createTarOptionsTransformer } from "./options";
+import { readForward } from "./compression";
+import { BLOCK_SIZE } from "./constants";
+import { createAutoDecoder, detectFormat } from "./detect";
+import { applyUnpackOptions, createTarOptionsTransformer } from "./options";
 import { createTarPacker } from "./pack";
-import type { ParsedTarEntryWithData, TarEntry, UnpackOptions } from "./types";
+import { createTarIndex, toRangeReader } from "./tar-index";
+import type {
+	PackOptions,
+	ParsedTarEntryWithData,
+	SeekableSource,
+	TarEntry,
+	TarIndexEntry,
+	UnpackOptions,
+} from "./types";
 import { createTarDecoder } from "./unpack";
 import { encoder, streamToBuffer } from "./utils";
 
@@ -10,6 +21,7 @@ import { encoder, streamToBuffer } from "./utils";
  * For streaming scenarios or large archives, use {@link createTarPacker} instead.
  *
  * @param entries - Array of tar entries with headers and optional bodies
+ * @param options - Optional {@link PackOptions}, such as the header format
  * @returns A `Promise` that resolves to the complete tar archive as a Uint8Array
  * @example
  * ```typescript
@@ -39,8 +51,11 @@ import { encoder, streamToBuffer } from "./utils";
  * });
  * ```
  */
-export async function packTar(entries: TarEntry[]): Promise<Uint8Array> {
-	const { readable, controller } = createTarPacker();
+export async function packTar(
+	entries: TarEntry[],
+	options: PackOptions = {},
+): Promise<Uint8Array> {
+	const { readable, controller } = createTarPacker(options);
 
 	// This promise runs the packing process in the background.
 	const packingPromise = (async () => {
@@ -94,6 +109,9 @@ export async function packTar(entries: TarEntry[]): Promise<Uint8Array> {
 /**
  * Extracts all entries and their data from a complete tar archive buffer.
  *
+ * Compressed archives are detected from their first bytes and decompressed automatically,
+ * see the `compression` option of {@link UnpackOptions}.
+ *
  * For streaming scenarios or large archives, use {@link createTarDecoder} instead.
  *
  * @param archive - The complete tar archive as `ArrayBuffer` or `Uint8Array`
@@ -152,6 +170,7 @@ export async function unpackTar(
 	const results: ParsedTarEntryWithData[] = [];
 
 	const entryStream = sourceStream
+		.pipeThrough(createAutoDecoder(options))
 		.pipeThrough(createTarDecoder(options))
 		.pipeThrough(createTarOptionsTransformer(options));
 
@@ -172,3 +191,83 @@ export async function unpackTar(
 
 	return results;
 }
+
+/**
+ * Lists the entries of a tar archive from their headers, like `tar -t`.
+ *
+ * Entry bodies are skipped without being buffered. An uncompressed `Blob` or buffer is
+ * read at the offsets of its headers only, as with {@link createTarIndex}, while streams
+ * and compressed archives are read through once. The `strip`, `filter` and `map` options
+ * apply to the listed headers as they would when unpacking.
+ *
+ * @param archive - The tar archive as `ArrayBuffer`, `Uint8Array`, `Blob` or stream
+ * @param options - Optional {@link UnpackOptions}, such as `strip` and `filter`
+ * @returns A `Promise` that resolves to the {@link TarIndexEntry} list in archive order,
+ * with offsets into the uncompressed archive
+ * @example
+ * ```typescript
+ * import { listTar } from 'modern-tar';
+ *
+ * const response = await fetch('/api/archive.tar.gz');
+ * const entries = await listTar(response.body, { strip: 1 });
+ *
+ * for (const { header } of entries) {
+ *   console.log(`${header.name} (${header.size} bytes)`);
+ * }
+ * ```
+ */
+export async function listTar(
+	archive: ArrayBuffer | Uint8Array | Blob | ReadableStream<Uint8Array>,
+	options: UnpackOptions = {},
+): Promise<TarIndexEntry[]> {
+	const entries = await indexArchive(
+		archive instanceof ArrayBuffer ? new Uint8Array(archive) : archive,
+		options,
+	);
+
+	const results: TarIndexEntry[] = [];
+	for (const entry of entries) {
+		const header = applyUnpackOptions(entry.header, options);
+		if (header) results.push({ ...entry, header });
+	}
+
+	return results;
+}
+
+// Indexes an uncompressed Blob or buffer in place, and anything else as a stream.
+async function indexArchive(
+	archive: Uint8Array | Blob | ReadableStream<Uint8Array>,
+	options: UnpackOptions,
+): Promise<TarIndexEntry[]> {
+	if (!(archive instanceof ReadableStream)) {
+		const data = archive;
+		const source: SeekableSource =
+			data instanceof Blob
+				? data
+				: async (offset, length) => data.subarray(offset, offset + length);
+
+		const format = detectFormat(await toRangeReader(source)(0, BLOCK_SIZE));
+		if (format === "tar" || format === undefined) {
+			return createTarIndex(source, options);
+		}
+
+		archive = data instanceof Blob ? data.stream() : toStream(data);
+	}
+
+	const reader = archive.pipeThrough(createAutoDecoder(options)).getReader();
+	try {
+		return await createTarIndex(readForward(reader), options);
+	} finally {
+		// Stops reading whatever follows the end-of-archive marker.
+		await reader.cancel().catch(() => {});
+	}
+}
+
+function toStream(data: Uint8Array): ReadableStream<Uint8Array> {
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(data);
+			controller.close();
+		},
+	});
+}
@@ -1,17 +1,75 @@
-export { createGzipDecoder, createGzipEncoder } from "./compression";
-export { packTar, unpackTar } from "./helpers";
+export { createBzip2Decoder } from "./bzip2";
+export {
+	createCompressor,
+	createDecompressor,
+	createGzipDecoder,
+	createGzipEncoder,
+	createSeekableGzipEncoder,
+	type SeekableGzipEncoder,
+} from "./compression";
+export { concatTar } from "./concat";
+export { createAutoDecoder, detectFormat } from "./detect";
+export { TarError, TarFormatError, TarPathError } from "./errors";
+export { formatTarHeader } from "./format";
+export {
+	createGzipIndex,
+	createGzipRangeReader,
+	findGzipMember,
+} from "./gzip-index";
+export { listTar, packTar, unpackTar } from "./helpers";
 export { createTarOptionsTransformer } from "./options";
 export {
 	createTarPacker,
 	type TarPackController,
 } from "./pack";
+export { createTarRewriter } from "./rewrite";
+export {
+	createTarIndex,
+	loadTarIndex,
+	readTarEntry,
+	serializeTarIndex,
+} from "./tar-index";
 export type {
+	CompressionFormat,
+	CompressorFormat,
+	CompressorOptions,
 	DecoderOptions,
+	GzipDecoderOptions,
+	GzipHeader,
+	GzipMember,
+	GzipMemberHeader,
+	PackOptions,
 	ParsedTarEntry,
 	ParsedTarEntryWithData,
+	RangeReader,
+	SeekableGzipOptions,
+	SeekableSource,
+	SpoolStorage,
+	TarConcatSource,
 	TarEntry,
 	TarEntryData,
+	TarErrorCode,
+	TarErrorOptions,
+	TarFormat,
+	TarFormatErrorCode,
 	TarHeader,
+	TarIndexEntry,
+	TarIndexOptions,
+	TarListingOptions,
+	TarPackerOptions,
+	TarPathErrorCode,
+	TarRewrite,
+	TarRewriteCallback,
+	TarRewriterOptions,
+	TarSparseSegment,
 	UnpackOptions,
+	ZstdOptions,
 } from "./types";
 export { createTarDecoder } from "./unpack";
+export { createXzDecoder } from "./xz";
+export {
+	createZstdDecoder,
+	createZstdEncoder,
+	setZstdCodec,
+	type ZstdCodec,
+} from "./zstd";
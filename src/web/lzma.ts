@@ -0,0 +1,384 @@
+import type { ByteReader } from "./deflate";
+
+// Number of states of the LZMA state machine, and the first state after a match.
+const STATES = 12;
+const LITERAL_STATES = 7;
+
+// Maximum number of position bits (pb and lp), and the resulting number of position states.
+const POS_STATES_MAX = 16;
+
+// Shortest match length, and the number of length states used to pick distance slots.
+const MATCH_LEN_MIN = 2;
+const DIST_STATES = 4;
+
+// Distance slots below this use the distSpecial probabilities, and above it direct bits
+// followed by ALIGN_BITS bits coded with the distAlign probabilities.
+const DIST_MODEL_START = 4;
+const DIST_MODEL_END = 14;
+const FULL_DISTANCES = 128;
+const ALIGN_BITS = 4;
+
+// Offsets of the probabilities of a length decoder.
+const LEN_CHOICE = 0;
+const LEN_CHOICE2 = 1;
+const LEN_LOW = 2;
+const LEN_MID = LEN_LOW + POS_STATES_MAX * 8;
+const LEN_HIGH = LEN_MID + POS_STATES_MAX * 8;
+const LEN_SIZE = LEN_HIGH + 256;
+
+// Initial value of a probability, which is 0.5 with 11-bit precision.
+const PROB_INIT = 1024;
+const PROB_BITS = 11;
+const MOVE_BITS = 5;
+
+// The range is normalized once it falls below 2^24.
+const RANGE_TOP = 0x1000000;
+
+// Smallest dictionary the decoder allocates.
+const DICT_MIN = 4096;
+
+// Size of the LZMA2 chunk header fields after the control byte.
+const UNCOMPRESSED_HEADER_SIZE = 2;
+const LZMA_HEADER_SIZE = 4;
+
+/**
+ * Decodes an LZMA2 stream, as found in the blocks of an xz file, up to its end marker.
+ *
+ * LZMA2 splits the data into chunks of at most 64 KiB of compressed data, so each chunk
+ * is buffered and decoded synchronously.
+ *
+ * @param input - Reader positioned at the first chunk
+ * @param dictionarySize - Dictionary size from the filter properties
+ * @param write - Receives the decompressed data of each chunk
+ */
+export async function decodeLzma2(
+	input: ByteReader,
+	dictionarySize: number,
+	write: (chunk: Uint8Array) => Promise<void>,
+): Promise<void> {
+	// Rounded up to a multiple of 16, so the position bits of the dictionary position
+	// match those of the uncompressed position.
+	const dictSize = Math.max(DICT_MIN, (dictionarySize + 15) & ~15);
+	const dict = new Uint8Array(dictSize);
+	let dictPos = 0;
+	let dictFull = 0; // Bytes of history, up to dictSize
+
+	let lc = 0;
+	let lp = 0;
+	let pbMask = 0;
+	let hasProps = false;
+	let hasDict = false;
+
+	// LZMA state that is kept between chunks unless it is reset.
+	let state = 0;
+	let rep0 = 0;
+	let rep1 = 0;
+	let rep2 = 0;
+	let rep3 = 0;
+
+	const isMatch = new Uint16Array(STATES * POS_STATES_MAX);
+	const isRep = new Uint16Array(STATES);
+	const isRep0 = new Uint16Array(STATES);
+	const isRep1 = new Uint16Array(STATES);
+	const isRep2 = new Uint16Array(STATES);
+	const isRep0Long = new Uint16Array(STATES * POS_STATES_MAX);
+	const distSlot = new Uint16Array(DIST_STATES << 6);
+	const distSpecial = new Uint16Array(FULL_DISTANCES - DIST_MODEL_END);
+	const distAlign = new Uint16Array(1 << ALIGN_BITS);
+	const matchLen = new Uint16Array(LEN_SIZE);
+	const repLen = new Uint16Array(LEN_SIZE);
+	let literal = new Uint16Array(0);
+
+	const resetState = () => {
+		state = 0;
+		rep0 = rep1 = rep2 = rep3 = 0;
+
+		for (const probs of [
+			isMatch,
+			isRep,
+			isRep0,
+			isRep1,
+			isRep2,
+			isRep0Long,
+			distSlot,
+			distSpecial,
+			distAlign,
+			matchLen,
+			repLen,
+			literal,
+		]) {
+			probs.fill(PROB_INIT);
+		}
+	};
+
+	const setProps = (props: number) => {
+		if (props >= 9 * 5 * 5) throw new Error("Invalid LZMA2 properties.");
+
+		lc = props % 9;
+		lp = Math.floor(props / 9) % 5;
+		pbMask = (1 << Math.floor(props / 45)) - 1;
+		if (lc + lp > 4) throw new Error("Invalid LZMA2 properties.");
+
+		literal = new Uint16Array(0x300 << (lc + lp));
+		hasProps = true;
+	};
+
+	// Range decoder over the compressed data of the current chunk.
+	let data: Uint8Array = new Uint8Array(0);
+	let index = 0;
+	let range = 0;
+	let code = 0;
+
+	const bit = (probs: Uint16Array, i: number): number => {
+		if (range < RANGE_TOP) {
+			range = (range << 8) >>> 0;
+			code = ((code << 8) | data[index++]) >>> 0;
+		}
+
+		const prob = probs[i];
+		const bound = (range >>> PROB_BITS) * prob;
+		if (code < bound) {
+			range = bound;
+			probs[i] = prob + (((1 << PROB_BITS) - prob) >>> MOVE_BITS);
+			return 0;
+		}
+
+		range -= bound;
+		code -= bound;
+		probs[i] = prob - (prob >>> MOVE_BITS);
+		return 1;
+	};
+
+	const directBits = (count: number): number => {
+		let result = 0;
+		for (let i = 0; i < count; i++) {
+			if (range < RANGE_TOP) {
+				range = (range << 8) >>> 0;
+				code = ((code << 8) | data[index++]) >>> 0;
+			}
+
+			range >>>= 1;
+			let value = 0;
+			if (code >= range) {
+				code -= range;
+				value = 1;
+			}
+			result = result * 2 + value;
+		}
+		return result;
+	};
+
+	const bittree = (probs: Uint16Array, offset: number, count: number) => {
+		let symbol = 1;
+		for (let i = 0; i < count; i++) {
+			symbol = (symbol << 1) | bit(probs, offset + symbol);
+		}
+		return symbol - (1 << count);
+	};
+
+	const reverseBittree = (
+		probs: Uint16Array,
+		offset: number,
+		count: number,
+	) => {
+		let symbol = 1;
+		let result = 0;
+		for (let i = 0; i < count; i++) {
+			const value = bit(probs, offset + symbol);
+			symbol = (symbol << 1) | value;
+			result |= value << i;
+		}
+		return result;
+	};
+
+	const decodeLength = (probs: Uint16Array, posState: number) => {
+		if (!bit(probs, LEN_CHOICE)) {
+			return MATCH_LEN_MIN + bittree(probs, LEN_LOW + (posState << 3), 3);
+		}
+		if (!bit(probs, LEN_CHOICE2)) {
+			return MATCH_LEN_MIN + 8 + bittree(probs, LEN_MID + (posState << 3), 3);
+		}
+		return MATCH_LEN_MIN + 16 + bittree(probs, LEN_HIGH, 8);
+	};
+
+	const decodeDistance = (length: number) => {
+		const distState = Math.min(length - MATCH_LEN_MIN, DIST_STATES - 1);
+		const slot = bittree(distSlot, distState << 6, 6);
+		if (slot < DIST_MODEL_START) return slot;
+
+		const count = (slot >>> 1) - 1;
+		const base = (2 | (slot & 1)) * 2 ** count;
+		if (slot < DIST_MODEL_END) {
+			return base + reverseBittree(distSpecial, base - slot - 1, count);
+		}
+
+		return (
+			base +
+			directBits(count - ALIGN_BITS) * (1 << ALIGN_BITS) +
+			reverseBittree(distAlign, 0, ALIGN_BITS)
+		);
+	};
+
+	// Decodes an LZMA chunk of `size` bytes into `out`, copying it to the dictionary.
+	const decodeChunk = (out: Uint8Array) => {
+		const posMaskLiteral = (1 << lp) - 1;
+		let outPos = 0;
+
+		const put = (byte: number) => {
+			dict[dictPos++] = byte;
+			if (dictPos === dictSize) dictPos = 0;
+			if (dictFull < dictSize) dictFull++;
+			out[outPos++] = byte;
+		};
+
+		const getByte = (distance: number) => {
+			const pos = dictPos - distance - 1;
+			return dict[pos < 0 ? pos + dictSize : pos];
+		};
+
+		while (outPos < out.length) {
+			const posState = dictPos & pbMask;
+
+			if (!bit(isMatch, state * POS_STATES_MAX + posState)) {
+				const previous = dictFull > 0 ? getByte(0) : 0;
+				const offset =
+					0x300 *
+					(((dictPos & posMaskLiteral) << lc) + (previous >>> (8 - lc)));
+
+				let symbol = 1;
+				if (state < LITERAL_STATES) {
+					while (symbol < 0x100) {
+						symbol = (symbol << 1) | bit(literal, offset + symbol);
+					}
+				} else {
+					// After a match, the byte at rep0 predicts the bits of the literal.
+					let matchByte = getByte(rep0) << 1;
+					let mask = 0x100;
+					while (symbol < 0x100) {
+						const matchBit = matchByte & mask;
+						matchByte <<= 1;
+						if (bit(literal, offset + mask + matchBit + symbol)) {
+							symbol = (symbol << 1) | 1;
+							mask &= matchBit;
+						} else {
+							symbol <<= 1;
+							mask &= ~matchBit;
+						}
+					}
+				}
+
+				put(symbol & 0xff);
+				state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+				continue;
+			}
+
+			let length: number;
+			if (!bit(isRep, state)) {
+				state = state < LITERAL_STATES ? 7 : 10;
+				length = decodeLength(matchLen, posState);
+				rep3 = rep2;
+				rep2 = rep1;
+				rep1 = rep0;
+				rep0 = decodeDistance(length);
+			} else {
+				if (!bit(isRep0, state)) {
+					if (!bit(isRep0Long, state * POS_STATES_MAX + posState)) {
+						// A single byte at rep0.
+						if (dictFull === 0) throw new Error("Invalid LZMA2 data.");
+						state = state < LITERAL_STATES ? 9 : 11;
+						put(getByte(rep0));
+						continue;
+					}
+				} else {
+					let distance: number;
+					if (!bit(isRep1, state)) {
+						distance = rep1;
+					} else {
+						if (!bit(isRep2, state)) {
+							distance = rep2;
+						} else {
+							distance = rep3;
+							rep3 = rep2;
+						}
+						rep2 = rep1;
+					}
+					rep1 = rep0;
+					rep0 = distance;
+				}
+
+				state = state < LITERAL_STATES ? 8 : 11;
+				length = decodeLength(repLen, posState);
+			}
+
+			if (rep0 >= dictFull || length > out.length - outPos) {
+				throw new Error("Invalid LZMA2 data.");
+			}
+
+			for (let i = 0; i < length; i++) put(getByte(rep0));
+		}
+	};
+
+	// Copies an uncompressed chunk to the dictionary.
+	const storeChunk = (chunk: Uint8Array) => {
+		for (let i = 0; i < chunk.length; i++) {
+			dict[dictPos++] = chunk[i];
+			if (dictPos === dictSize) dictPos = 0;
+		}
+		dictFull = Math.min(dictSize, dictFull + chunk.length);
+	};
+
+	const read = async (length: number): Promise<Uint8Array> => {
+		if (!(await input.ensure(length))) {
+			throw new Error("LZMA2 data is truncated.");
+		}
+		return input.bytes(length);
+	};
+
+	while (true) {
+		const [control] = await read(1);
+		if (control === 0x00) return;
+
+		// Dictionary resets are signalled by control 0x01 and 0xe0 and above.
+		if (control === 0x01 || control >= 0xe0) {
+			dictPos = 0;
+			dictFull = 0;
+			hasDict = true;
+		} else if (!hasDict) {
+			throw new Error("Invalid LZMA2 data.");
+		}
+
+		if (control < 0x80) {
+			if (control > 0x02) throw new Error("Invalid LZMA2 data.");
+
+			const header = await read(UNCOMPRESSED_HEADER_SIZE);
+			const size = ((header[0] << 8) | header[1]) + 1;
+			const chunk = await read(size);
+			storeChunk(chunk);
+			await write(chunk);
+			continue;
+		}
+
+		const header = await read(LZMA_HEADER_SIZE);
+		const size = (((control & 0x1f) << 16) | (header[0] << 8) | header[1]) + 1;
+		const packedSize = ((header[2] << 8) | header[3]) + 1;
+
+		// Bits 5 and 6: 1 resets the state, 2 also sets new properties.
+		const reset = (control >>> 5) & 0x03;
+		if (reset >= 2) setProps((await read(1))[0]);
+		if (!hasProps) throw new Error("Invalid LZMA2 data.");
+		if (reset >= 1) resetState();
+
+		// Each chunk starts a new range decoder, whose first byte is always 0.
+		data = await read(packedSize);
+		if (packedSize < 5 || data[0] !== 0) throw new Error("Invalid LZMA2 data.");
+		code = ((data[1] << 24) | (data[2] << 16) | (data[3] << 8) | data[4]) >>> 0;
+		range = 0xffffffff;
+		index = 5;
+
+		const out = new Uint8Array(size);
+		decodeChunk(out);
+		if (index > data.length) throw new Error("Invalid LZMA2 data.");
+
+		await write(out);
+	}
+}
@@ -1,4 +1,4 @@
-import type { ParsedTarEntry, UnpackOptions } from "./types";
+import type { ParsedTarEntry, TarHeader, UnpackOptions } from "./types";
 
 /**
  * Creates a transform stream that applies {@link UnpackOptions} to tar entries.
@@ -24,61 +24,63 @@ export function createTarOptionsTransformer(
 ): TransformStream<ParsedTarEntry, ParsedTarEntry> {
 	return new TransformStream<ParsedTarEntry, ParsedTarEntry>({
 		async transform(entry, controller) {
-			let header = entry.header;
+			const header = applyUnpackOptions(entry.header, options);
 
-			// Apply strip option
-			const stripCount = options.strip;
-			if (stripCount && stripCount > 0) {
-				const newName = stripPathComponents(header.name, stripCount);
+			// Drain and skip stripped or filtered entries
+			if (!header) {
+				drainStream(entry.body);
+				return;
+			}
 
-				// If the entry's name is completely stripped, skip it.
-				if (newName === null) {
-					drainStream(entry.body);
-					return;
-				}
+			controller.enqueue({ ...entry, header });
+		},
+	});
+}
 
-				let newLinkname = header.linkname;
+/**
+ * Applies the `strip`, `filter` and `map` options to a header, returning the new header or
+ * null if the entry is skipped.
+ */
+export function applyUnpackOptions(
+	header: TarHeader,
+	options: UnpackOptions,
+): TarHeader | null {
+	// Apply strip option
+	const stripCount = options.strip;
+	if (stripCount && stripCount > 0) {
+		const newName = stripPathComponents(header.name, stripCount);
 
-				// If it's an absolute symlink/hardlink, strip its target path too.
-				if (newLinkname?.startsWith("/")) {
-					const strippedLinkTarget = stripPathComponents(
-						newLinkname,
-						stripCount,
-					);
+		// If the entry's name is completely stripped, skip it.
+		if (newName === null) return null;
 
-					// If the target is stripped, it should point to the new root '/'.
-					newLinkname =
-						strippedLinkTarget === null ? "/" : `/${strippedLinkTarget}`;
-				}
+		let newLinkname = header.linkname;
 
-				header = {
-					...header,
-					name:
-						header.type === "directory" && !newName.endsWith("/")
-							? `${newName}/`
-							: newName,
-					linkname: newLinkname,
-				};
-			}
+		// If it's an absolute symlink/hardlink, strip its target path too.
+		if (newLinkname?.startsWith("/")) {
+			const strippedLinkTarget = stripPathComponents(newLinkname, stripCount);
 
-			// Apply filter option
-			if (options.filter && options.filter(header) === false) {
-				// Drain and skip filtered entries
-				drainStream(entry.body);
-				return;
-			}
+			// If the target is stripped, it should point to the new root '/'.
+			newLinkname =
+				strippedLinkTarget === null ? "/" : `/${strippedLinkTarget}`;
+		}
 
-			// Apply map option
-			if (options.map) {
-				header = options.map(header);
-			}
+		header = {
+			...header,
+			name:
+				header.type === "directory" && !newName.endsWith("/")
+					? `${newName}/`
+					: newName,
+			linkname: newLinkname,
+		};
+	}
 
-			controller.enqueue({
-				header,
-				body: entry.body,
-			});
-		},
-	});
+	// Apply filter option
+	if (options.filter && options.filter(header) === false) return null;
+
+	// Apply map option
+	if (options.map) header = options.map(header);
+
+	return header;
 }
 
 /**
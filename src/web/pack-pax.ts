@@ -11,7 +11,11 @@ import type { TarHeader } from "./types";
 import { decoder, encoder } from "./utils";
 
 // Checks a tar header for fields that exceed USTAR limits and generates a PAX header entry if necessary.
-export function generatePax(header: TarHeader): {
+// Numbers are left to the header when they are written in base-256.
+export function generatePax(
+	header: TarHeader,
+	base256 = false,
+): {
 	paxHeader: Uint8Array;
 	paxBody: Uint8Array;
 } | null {
@@ -41,18 +45,28 @@ export function generatePax(header: TarHeader): {
 		paxRecords.gname = header.gname;
 	}
 
-	// Check UID/GID values.
-	if (header.uid != null && header.uid > USTAR_MAX_UID_GID) {
-		paxRecords.uid = String(header.uid);
-	}
+	if (!base256) {
+		// Check UID/GID values.
+		if (header.uid != null && header.uid > USTAR_MAX_UID_GID) {
+			paxRecords.uid = String(header.uid);
+		}
 
-	if (header.gid != null && header.gid > USTAR_MAX_UID_GID) {
-		paxRecords.gid = String(header.gid);
-	}
+		if (header.gid != null && header.gid > USTAR_MAX_UID_GID) {
+			paxRecords.gid = String(header.gid);
+		}
 
-	// Check file size.
-	if (header.size != null && header.size > USTAR_MAX_SIZE) {
-		paxRecords.size = String(header.size);
+		// Check file size.
+		if (header.size != null && header.size > USTAR_MAX_SIZE) {
+			paxRecords.size = String(header.size);
+		}
+
+		// Check for mtimes before 1970 or after 2242.
+		if (header.mtime) {
+			const mtime = Math.floor(header.mtime.getTime() / 1000);
+			if (mtime < 0 || mtime > USTAR_MAX_SIZE) {
+				paxRecords.mtime = String(mtime);
+			}
+		}
 	}
 
 	// Add any user-provided PAX attributes.
@@ -69,21 +83,7 @@ export function generatePax(header: TarHeader): {
 
 	// Else, format PAX records into a string.
 	const paxBody = encoder.encode(
-		paxEntries
-			.map(([key, value]) => {
-				const record = `${key}=${value}\n`;
-
-				// Get byte length to handle multi-byte Unicode characters correctly.
-				const partLength = encoder.encode(record).length + 1; // +1 for the space
-
-				let totalLength = partLength + String(partLength).length;
-
-				// Calculate again to handle the new length increase.
-				totalLength = partLength + String(totalLength).length;
-
-				return `${totalLength} ${record}`;
-			})
-			.join(""),
+		paxEntries.map(([key, value]) => formatPaxRecord(key, value)).join(""),
 	);
 
 	const paxHeader = createTarHeader({
@@ -105,6 +105,21 @@ export function generatePax(header: TarHeader): {
 	return { paxHeader, paxBody };
 }
 
+// Formats a PAX record, which starts with its own length in bytes.
+export function formatPaxRecord(key: string, value: string): string {
+	const record = `${key}=${value}\n`;
+
+	// Get byte length to handle multi-byte Unicode characters correctly.
+	const partLength = encoder.encode(record).length + 1; // +1 for the space
+
+	let totalLength = partLength + String(partLength).length;
+
+	// Calculate again to handle the new length increase.
+	totalLength = partLength + String(totalLength).length;
+
+	return `${totalLength} ${record}`;
+}
+
 // Attempts to split a long path into a USTAR-compatible name and prefix.
 export function findUstarSplit(
 	path: string,
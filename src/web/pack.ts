@@ -4,6 +4,9 @@ import {
 	BLOCK_SIZE_MASK,
 	DEFAULT_DIR_MODE,
 	DEFAULT_FILE_MODE,
+	GNU_LONGLINK_NAME,
+	GNU_MAGIC,
+	GNU_VERSION,
 	TYPEFLAG,
 	USTAR_GID_OFFSET,
 	USTAR_GID_SIZE,
@@ -13,6 +16,8 @@ import {
 	USTAR_LINKNAME_SIZE,
 	USTAR_MAGIC_OFFSET,
 	USTAR_MAGIC_SIZE,
+	USTAR_MAX_SIZE,
+	USTAR_MAX_UID_GID,
 	USTAR_MODE_OFFSET,
 	USTAR_MODE_SIZE,
 	USTAR_MTIME_OFFSET,
@@ -34,12 +39,21 @@ import {
 	USTAR_VERSION_SIZE,
 } from "./constants";
 import { findUstarSplit, generatePax } from "./pack-pax";
-import type { TarHeader } from "./types";
-import { writeOctal, writeString } from "./utils";
+import { createBlobStorage, createSpool, DEFAULT_SPOOL_MEMORY } from "./spool";
+import type {
+	PackOptions,
+	TarFormat,
+	TarHeader,
+	TarPackerOptions,
+} from "./types";
+import { encoder, writeNumeric, writeOctal, writeString } from "./utils";
 
 const ZERO_BUFFER = new Uint8Array(BLOCK_SIZE);
 const EOF_BUFFER = new Uint8Array(BLOCK_SIZE * 2);
 
+// Entry types that V7 archives can hold.
+const V7_TYPES = new Set(["file", "link", "symlink", "directory"]);
+
 /**
  * Controls a streaming tar packing process.
  *
@@ -83,6 +97,25 @@ export interface TarPackController {
 	 */
 	add(header: TarHeader): WritableStream<Uint8Array>;
 
+	/**
+	 * Add a file entry whose size is not known in advance, such as an HTTP response body.
+	 *
+	 * Data written to the returned stream is buffered until it is closed, and the entry is
+	 * then written with the right size. Up to `spoolMemory` bytes are kept in memory, and
+	 * the rest is moved to `spoolStorage` (see {@link TarPackerOptions}). The entry must be
+	 * closed before the next one is added.
+	 *
+	 * @param header - The tar header for the entry, without its size
+	 * @returns A [`WritableStream`](https://developer.mozilla.org/en-US/docs/Web/API/WritableStream) for writing the entry's body data
+	 *
+	 * @example
+	 * ```typescript
+	 * const response = await fetch("https://example.com/data.json");
+	 * await response.body.pipeTo(controller.addStream({ name: "data.json" }));
+	 * ```
+	 */
+	addStream(header: Omit<TarHeader, "size">): WritableStream<Uint8Array>;
+
 	/**
 	 * Finalize the archive.
 	 *
@@ -106,6 +139,7 @@ export interface TarPackController {
  * generated dynamically. The returned [`ReadableStream`](https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream)
  * outputs tar archive bytes as entries are added.
  *
+ * @param options - Optional {@link TarPackerOptions}, such as the header format
  * @returns Object containing the readable stream and controller
  * @returns readable - [`ReadableStream`](https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream) that outputs the tar archive bytes
  * @returns controller - {@link TarPackController} for adding entries and finalizing
@@ -144,11 +178,20 @@ export interface TarPackController {
  * const response = new Response(readable);
  * const buffer = await response.arrayBuffer();
  * ```
+ * @example
+ * ```typescript
+ * // Write old GNU headers for consumers that do not understand PAX
+ * const { readable, controller } = createTarPacker({ format: "gnu" });
+ * ```
  */
-export function createTarPacker(): {
+export function createTarPacker(options: TarPackerOptions = {}): {
 	readable: ReadableStream<Uint8Array>;
 	controller: TarPackController;
 } {
+	const {
+		spoolMemory = DEFAULT_SPOOL_MEMORY,
+		spoolStorage = createBlobStorage,
+	} = options;
 	let streamController: ReadableStreamController<Uint8Array>;
 
 	const readable = new ReadableStream<Uint8Array>({
@@ -165,25 +208,11 @@ export function createTarPacker(): {
 				header.type === "link";
 			const size = isBodyless ? 0 : (header.size ?? 0);
 
-			// Automatically generate and enqueue a PAX header if needed.
-			const paxData = generatePax(header);
-			if (paxData) {
-				// @ts-expect-error - TypeScript is overly strict here, but Uint8Array is compatible here.
-				streamController.enqueue(paxData.paxHeader);
-				// @ts-expect-error - TypeScript is overly strict here, but Uint8Array is compatible here.
-				streamController.enqueue(paxData.paxBody);
-
-				const paxPadding = -paxData.paxBody.length & BLOCK_SIZE_MASK;
-
-				if (paxPadding > 0) {
-					streamController.enqueue(ZERO_BUFFER.subarray(0, paxPadding));
-				}
+			// Enqueue any PAX or GNU long name entries, followed by the entry's own header.
+			for (const block of createHeaderBlocks({ ...header, size }, options)) {
+				streamController.enqueue(block as Uint8Array<ArrayBuffer>);
 			}
 
-			// Create and enqueue the main USTAR header for the file entry.
-			const headerBlock = createTarHeader({ ...header, size });
-			streamController.enqueue(headerBlock as Uint8Array<ArrayBuffer>);
-
 			let totalWritten = 0;
 
 			return new WritableStream<Uint8Array>({
@@ -218,6 +247,36 @@ export function createTarPacker(): {
 			});
 		},
 
+		addStream(header: Omit<TarHeader, "size">): WritableStream<Uint8Array> {
+			const spool = createSpool(spoolMemory, spoolStorage);
+
+			return new WritableStream<Uint8Array>({
+				write(chunk) {
+					return spool.write(chunk);
+				},
+
+				// Now that the size is known, write the entry from the spool.
+				async close() {
+					const { size, stream } = await spool.finish();
+
+					let entry: WritableStream<Uint8Array>;
+					try {
+						entry = packController.add({ ...header, size });
+					} catch (err) {
+						// Release the spooled body, such as a temporary file, before failing.
+						await stream.cancel(err);
+						throw err;
+					}
+
+					await stream.pipeTo(entry);
+				},
+				async abort(reason) {
+					streamController.error(reason);
+					await spool.discard();
+				},
+			});
+		},
+
 		finalize() {
 			// A valid tar archive ends with two 512-byte empty blocks.
 			streamController.enqueue(EOF_BUFFER);
@@ -233,9 +292,54 @@ export function createTarPacker(): {
 }
 
 /**
- * Creates a 512-byte USTAR format tar header block from a TarHeader object.
+ * Creates the blocks that precede an entry's data in the format given by the options: any
+ * PAX or GNU long name entries it needs, followed by its own header block.
+ *
+ * Throws if the header cannot be represented in the format.
+ */
+export function createHeaderBlocks(
+	header: TarHeader,
+	options: PackOptions = {},
+): Uint8Array[] {
+	const { format = "pax", base256 = false } = options;
+	const blocks: Uint8Array[] = [];
+
+	if (format === "pax") {
+		// Automatically generate a PAX header if needed.
+		const pax = generatePax(header, base256);
+		if (pax) blocks.push(pax.paxHeader, ...padData(pax.paxBody));
+	} else {
+		checkHeader(header, format, base256);
+
+		if (format === "gnu") {
+			if (encoder.encode(header.name).length > USTAR_NAME_SIZE) {
+				blocks.push(...createLongNameEntry("gnu-long-name", header.name));
+			}
+			if (
+				header.linkname &&
+				encoder.encode(header.linkname).length > USTAR_LINKNAME_SIZE
+			) {
+				blocks.push(
+					...createLongNameEntry("gnu-long-link-name", header.linkname),
+				);
+			}
+		}
+	}
+
+	blocks.push(createTarHeader(header, options));
+	return blocks;
+}
+
+/**
+ * Creates a 512-byte tar header block from a TarHeader object, in USTAR format unless
+ * another format is given. Strings that do not fit are truncated, and numbers are left
+ * as zeros unless base-256 is enabled.
  */
-export function createTarHeader(header: TarHeader): Uint8Array {
+export function createTarHeader(
+	header: TarHeader,
+	options: PackOptions = {},
+): Uint8Array {
+	const { format = "pax", base256 = false } = options;
 	const view = new Uint8Array(BLOCK_SIZE);
 
 	// Entries without a data body (like directories) have a size of 0.
@@ -249,8 +353,9 @@ export function createTarHeader(header: TarHeader): Uint8Array {
 	let name = header.name;
 	let prefix = "";
 
-	// Do not attempt to split if a PAX header is being used for the path.
-	if (!header.pax?.path) {
+	// Do not attempt to split if a PAX header is being used for the path. Only USTAR
+	// headers have a prefix field.
+	if (!header.pax?.path && (format === "pax" || format === "ustar")) {
 		const split = findUstarSplit(name);
 		if (split) {
 			name = split.name;
@@ -266,21 +371,24 @@ export function createTarHeader(header: TarHeader): Uint8Array {
 		header.mode ??
 			(header.type === "directory" ? DEFAULT_DIR_MODE : DEFAULT_FILE_MODE),
 	);
-	writeOctal(view, USTAR_UID_OFFSET, USTAR_UID_SIZE, header.uid ?? 0);
-	writeOctal(view, USTAR_GID_OFFSET, USTAR_GID_SIZE, header.gid ?? 0);
-	writeOctal(view, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE, size);
-	writeOctal(
-		view,
-		USTAR_MTIME_OFFSET,
-		USTAR_MTIME_SIZE,
-		Math.floor((header.mtime?.getTime() ?? Date.now()) / 1000),
-	);
-	writeString(
-		view,
-		USTAR_TYPEFLAG_OFFSET,
-		USTAR_TYPEFLAG_SIZE,
-		TYPEFLAG[header.type ?? "file"],
-	);
+
+	// Fall back to base-256 for numbers that do not fit in octal, as GNU headers do.
+	const writeNumber = format === "gnu" || base256 ? writeNumeric : writeOctal;
+	writeNumber(view, USTAR_UID_OFFSET, USTAR_UID_SIZE, header.uid ?? 0);
+	writeNumber(view, USTAR_GID_OFFSET, USTAR_GID_SIZE, header.gid ?? 0);
+	writeNumber(view, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE, size);
+	writeNumber(view, USTAR_MTIME_OFFSET, USTAR_MTIME_SIZE, getMtime(header));
+
+	// V7 marks regular files with a NUL typeflag.
+	const type = header.type ?? "file";
+	if (format !== "v7" || type !== "file") {
+		writeString(
+			view,
+			USTAR_TYPEFLAG_OFFSET,
+			USTAR_TYPEFLAG_SIZE,
+			TYPEFLAG[type],
+		);
+	}
 	writeString(
 		view,
 		USTAR_LINKNAME_OFFSET,
@@ -288,14 +396,131 @@ export function createTarHeader(header: TarHeader): Uint8Array {
 		header.linkname,
 	);
 
-	writeString(view, USTAR_MAGIC_OFFSET, USTAR_MAGIC_SIZE, "ustar\0");
-	writeString(view, USTAR_VERSION_OFFSET, USTAR_VERSION_SIZE, USTAR_VERSION);
-	writeString(view, USTAR_UNAME_OFFSET, USTAR_UNAME_SIZE, header.uname);
-	writeString(view, USTAR_GNAME_OFFSET, USTAR_GNAME_SIZE, header.gname);
-	writeString(view, USTAR_PREFIX_OFFSET, USTAR_PREFIX_SIZE, prefix);
+	// V7 headers end after the link name.
+	if (format !== "v7") {
+		const gnu = format === "gnu";
+		writeString(
+			view,
+			USTAR_MAGIC_OFFSET,
+			USTAR_MAGIC_SIZE,
+			gnu ? GNU_MAGIC : "ustar\0",
+		);
+		writeString(
+			view,
+			USTAR_VERSION_OFFSET,
+			USTAR_VERSION_SIZE,
+			gnu ? GNU_VERSION : USTAR_VERSION,
+		);
+		writeString(view, USTAR_UNAME_OFFSET, USTAR_UNAME_SIZE, header.uname);
+		writeString(view, USTAR_GNAME_OFFSET, USTAR_GNAME_SIZE, header.gname);
+		writeString(view, USTAR_PREFIX_OFFSET, USTAR_PREFIX_SIZE, prefix);
+	}
 
 	// Calculate and write the checksum.
 	writeChecksum(view);
 
 	return view;
 }
+
+// Throws if a header has fields that the ustar, gnu or v7 formats cannot hold.
+function checkHeader(header: TarHeader, format: TarFormat, base256: boolean) {
+	const fail = (reason: string) => {
+		throw new Error(
+			`Cannot write "${header.name}" in ${format} format: ${reason}.`,
+		);
+	};
+
+	if (header.pax && Object.keys(header.pax).length > 0) {
+		fail("PAX records require the pax format");
+	}
+	if (format === "v7" && !V7_TYPES.has(header.type ?? "file")) {
+		fail(`${header.type} entries are not supported`);
+	}
+
+	// GNU headers store long names in separate entries.
+	if (format !== "gnu") {
+		const nameLength = encoder.encode(header.name).length;
+		if (
+			nameLength > USTAR_NAME_SIZE &&
+			(format === "v7" || !findUstarSplit(header.name))
+		) {
+			fail("the name is too long");
+		}
+		if (
+			header.linkname &&
+			encoder.encode(header.linkname).length > USTAR_LINKNAME_SIZE
+		) {
+			fail("the link name is too long");
+		}
+	}
+
+	// V7 headers have no user and group names.
+	if (format !== "v7") {
+		if (
+			header.uname &&
+			encoder.encode(header.uname).length > USTAR_UNAME_SIZE
+		) {
+			fail("the user name is too long");
+		}
+		if (
+			header.gname &&
+			encoder.encode(header.gname).length > USTAR_GNAME_SIZE
+		) {
+			fail("the group name is too long");
+		}
+	}
+
+	// Modes are always octal, and share the width of the uid and gid fields.
+	const { mode } = header;
+	if (mode !== undefined && (mode < 0 || mode > USTAR_MAX_UID_GID)) {
+		fail("the mode is out of range");
+	}
+
+	// Base-256 numbers hold any value, though only the mtime may be negative.
+	const binary = format === "gnu" || base256;
+	const numbers: Array<[string, number | undefined, number]> = [
+		["uid", header.uid, USTAR_MAX_UID_GID],
+		["gid", header.gid, USTAR_MAX_UID_GID],
+		["size", header.size, USTAR_MAX_SIZE],
+		["mtime", getMtime(header), USTAR_MAX_SIZE],
+	];
+	for (const [field, value, max] of numbers) {
+		if (value === undefined) continue;
+		if (
+			(value < 0 && !(binary && field === "mtime")) ||
+			(!binary && value > max)
+		) {
+			fail(`the ${field} is out of range`);
+		}
+	}
+}
+
+// Creates a GNU entry holding a long name or link name for the entry after it.
+export function createLongNameEntry(
+	type: "gnu-long-name" | "gnu-long-link-name",
+	value: string,
+): Uint8Array[] {
+	const body = encoder.encode(`${value}\0`);
+	const header = createTarHeader(
+		{
+			name: GNU_LONGLINK_NAME,
+			type,
+			size: body.length,
+			mode: DEFAULT_FILE_MODE,
+			mtime: new Date(0),
+		},
+		{ format: "gnu" },
+	);
+
+	return [header, ...padData(body)];
+}
+
+// Returns data followed by the zeros that pad it to a whole block.
+function padData(data: Uint8Array): Uint8Array[] {
+	const padding = -data.length & BLOCK_SIZE_MASK;
+	return padding > 0 ? [data, ZERO_BUFFER.subarray(0, padding)] : [data];
+}
+
+function getMtime(header: TarHeader): number {
+	return Math.floor((header.mtime?.getTime() ?? Date.now()) / 1000);
+}
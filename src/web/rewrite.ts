@@ -0,0 +1,153 @@
+import { createTarPacker, type TarPackController } from "./pack";
+import type {
+	TarEntryData,
+	TarHeader,
+	TarRewriteCallback,
+	TarRewriterOptions,
+} from "./types";
+import { createTarDecoder } from "./unpack";
+import { encoder } from "./utils";
+
+// PAX records that the decoder resolves into header fields, with the values they set. They
+// are kept while the field is unchanged, as they can hold more than the packer would write
+// (such as a sub-second mtime), and dropped otherwise so the packer writes them again from
+// the header if they are still needed.
+const HEADER_PAX_FIELDS: Record<string, (header: TarHeader) => unknown> = {
+	path: (header) => header.name,
+	linkpath: (header) => header.linkname,
+	mtime: (header) => header.mtime?.getTime(),
+	uid: (header) => header.uid,
+	gid: (header) => header.gid,
+	uname: (header) => header.uname,
+	gname: (header) => header.gname,
+};
+
+/**
+ * Create a transform stream that rewrites a tar archive entry by entry.
+ *
+ * The callback sees each entry in turn and can keep it, drop it, or change its header or
+ * body. Headers are written again, with PAX headers regenerated for any field that needs
+ * one, and unchanged bodies are passed through as they are read. Sparse files are written
+ * in full. A callback that reads the original body must replace it or drop the entry.
+ *
+ * @param rewrite - Callback that decides what to do with each entry, see {@link TarRewriteCallback}
+ * @param options - Optional {@link TarRewriterOptions} for decoding and packing
+ * @returns A {@link ReadableWritablePair} that takes tar bytes and outputs the rewritten archive
+ * @example
+ * ```typescript
+ * import { createTarRewriter } from 'modern-tar';
+ *
+ * const rewritten = response.body.pipeThrough(
+ *   createTarRewriter((entry) => {
+ *     // Drop secrets
+ *     if (entry.header.name.endsWith('.env')) return false;
+ *
+ *     // Move everything out of the `package/` directory
+ *     const name = entry.header.name.replace(/^package\//, '');
+ *     if (name !== entry.header.name) return { header: { ...entry.header, name } };
+ *
+ *     // Keep everything else unchanged
+ *   }),
+ * );
+ * ```
+ */
+export function createTarRewriter(
+	rewrite: TarRewriteCallback,
+	options: TarRewriterOptions = {},
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const decoder = createTarDecoder(options);
+	const { readable, controller } = createTarPacker(options);
+	const reader = decoder.readable.getReader();
+
+	(async () => {
+		let next = reader.read();
+		while (true) {
+			const { done, value: entry } = await next;
+			if (done) break;
+
+			// The decoder only forwards the body while the next entry is requested, and
+			// the request is handled here if the body fails first.
+			next = reader.read();
+			next.catch(() => {});
+
+			const result = await rewrite(entry);
+			if (result === false) {
+				await discard(entry.body);
+				continue;
+			}
+
+			const header = cleanHeader(result?.header ?? entry.header, entry.header);
+			if (result?.body === undefined) {
+				await entry.body.pipeTo(
+					controller.add({ ...header, size: entry.header.size }),
+				);
+				continue;
+			}
+
+			await discard(entry.body);
+			await writeBody(controller, header, result.body);
+		}
+	})()
+		.then(() => controller.finalize())
+		.catch((err) => {
+			controller.error(err);
+			reader.cancel(err).catch(() => {});
+		});
+
+	return { writable: decoder.writable, readable };
+}
+
+// Removes the PAX records of changed header fields, the size and the sparse map, which
+// describe the entry as it was read rather than as it is written.
+function cleanHeader(header: TarHeader, original: TarHeader): TarHeader {
+	const { sparse: _, pax, ...rest } = header;
+	if (!pax) return rest;
+
+	const records = Object.fromEntries(
+		Object.entries(pax).filter(([key]) => {
+			if (key === "size" || key.startsWith("GNU.sparse.")) return false;
+
+			const field = HEADER_PAX_FIELDS[key];
+			return !field || field(header) === field(original);
+		}),
+	);
+	return Object.keys(records).length > 0 ? { ...rest, pax: records } : rest;
+}
+
+// Writes an entry with a replacement body, sized from the body itself.
+async function writeBody(
+	controller: TarPackController,
+	header: TarHeader,
+	body: TarEntryData,
+): Promise<void> {
+	if (body instanceof ReadableStream) {
+		await body.pipeTo(controller.addStream(header));
+		return;
+	}
+	if (body instanceof Blob) {
+		await body.stream().pipeTo(controller.add({ ...header, size: body.size }));
+		return;
+	}
+
+	let data: Uint8Array;
+	if (body === null || body === undefined) {
+		data = new Uint8Array(0);
+	} else if (body instanceof Uint8Array) {
+		data = body;
+	} else if (body instanceof ArrayBuffer) {
+		data = new Uint8Array(body);
+	} else if (typeof body === "string") {
+		data = encoder.encode(body);
+	} else {
+		throw new TypeError(`Unsupported content type for entry "${header.name}".`);
+	}
+
+	const writer = controller.add({ ...header, size: data.length }).getWriter();
+	await writer.write(data);
+	await writer.close();
+}
+
+// Skips the original body of an entry. Bodies that the callback already read are ignored.
+async function discard(body: ReadableStream<Uint8Array>): Promise<void> {
+	if (!body.locked) await body.cancel();
+}
@@ -0,0 +1,307 @@
+import {
+	BLOCK_SIZE,
+	BLOCK_SIZE_MASK,
+	GNU_ISEXTENDED_OFFSET,
+	GNU_REALSIZE_OFFSET,
+	GNU_REALSIZE_SIZE,
+	GNU_SPARSE_ENTRIES,
+	GNU_SPARSE_ENTRY_SIZE,
+	GNU_SPARSE_EXTENSION_ENTRIES,
+	GNU_SPARSE_EXTENSION_ISEXTENDED_OFFSET,
+	GNU_SPARSE_NUMBER_SIZE,
+	GNU_SPARSE_OFFSET,
+} from "./constants";
+import { TarFormatError } from "./errors";
+import type { TarErrorOptions, TarHeader, TarSparseSegment } from "./types";
+import { decoder, encoder, readNumeric } from "./utils";
+
+// ASCII code for the newline character.
+const NEWLINE = 10; // '\n'
+
+// Shared zero-filled chunk used to re-inflate holes.
+const HOLE_CHUNK = new Uint8Array(64 * 1024);
+
+/**
+ * Parses the sparse map stored in an old GNU sparse ("S") header block.
+ */
+export function parseGnuSparseHeader(block: Uint8Array): {
+	segments: TarSparseSegment[];
+	realSize: number;
+	isExtended: boolean;
+} {
+	const segments: TarSparseSegment[] = [];
+	readGnuSparseEntries(block, GNU_SPARSE_OFFSET, GNU_SPARSE_ENTRIES, segments);
+
+	return {
+		segments,
+		realSize: readNumeric(block, GNU_REALSIZE_OFFSET, GNU_REALSIZE_SIZE),
+		isExtended: block[GNU_ISEXTENDED_OFFSET] !== 0,
+	};
+}
+
+/**
+ * Parses an old GNU sparse extension block, appending its entries to `segments`.
+ * Returns whether another extension block follows.
+ */
+export function parseGnuSparseExtension(
+	block: Uint8Array,
+	segments: TarSparseSegment[],
+): boolean {
+	readGnuSparseEntries(block, 0, GNU_SPARSE_EXTENSION_ENTRIES, segments);
+	return block[GNU_SPARSE_EXTENSION_ISEXTENDED_OFFSET] !== 0;
+}
+
+/**
+ * Parses the comma-separated `GNU.sparse.map` value of PAX sparse format 0.1.
+ */
+export function parsePaxSparseMap(value: string): TarSparseSegment[] {
+	const numbers = value.split(",").map((n) => parseInt(n, 10));
+	const segments: TarSparseSegment[] = [];
+
+	for (let i = 0; i + 1 < numbers.length; i += 2) {
+		segments.push({ offset: numbers[i], size: numbers[i + 1] });
+	}
+
+	return segments;
+}
+
+/**
+ * Parses the sparse map stored at the start of the body in PAX sparse format 1.0.
+ *
+ * The map is a newline-separated list of decimal numbers: the number of regions
+ * followed by an offset and size for each region. Returns the regions and the number
+ * of bytes the map occupies, or null if `data` does not yet contain the full map.
+ */
+export function parseSparseMap(
+	data: Uint8Array,
+	context: TarErrorOptions,
+): { segments: TarSparseSegment[]; length: number } | null {
+	let offset = 0;
+
+	// Reads the next newline-terminated decimal number.
+	const next = (): number | null => {
+		const end = data.indexOf(NEWLINE, offset);
+		if (end === -1) return null;
+
+		const value = parseInt(decoder.decode(data.subarray(offset, end)), 10);
+		offset = end + 1;
+		return value;
+	};
+
+	const count = next();
+	if (count === null) return null;
+	if (!isSize(count)) {
+		throw new TarFormatError(
+			"TAR_BAD_SPARSE_MAP",
+			`Invalid sparse region count ${count}.`,
+			context,
+		);
+	}
+
+	const segments: TarSparseSegment[] = [];
+	for (let i = 0; i < count; i++) {
+		const segmentOffset = next();
+		const segmentSize = next();
+		if (segmentOffset === null || segmentSize === null) return null;
+
+		segments.push({ offset: segmentOffset, size: segmentSize });
+	}
+
+	return { segments, length: offset };
+}
+
+/**
+ * Creates the error for a PAX sparse format 1.0 map that does not end within its entry, so
+ * reading on would run into the entries after it.
+ */
+export function sparseMapOverflow(context: TarErrorOptions): TarFormatError {
+	return new TarFormatError(
+		"TAR_BAD_SPARSE_MAP",
+		"Sparse map does not end within its entry.",
+		context,
+	);
+}
+
+/**
+ * Creates the archived form of a sparse file in PAX sparse format 1.0.
+ *
+ * Returns the header to write, whose `size` covers the map and the data regions, and
+ * the block-padded sparse map that must precede the data regions in the body. The real
+ * name and size are stored in `GNU.sparse.*` PAX records, which {@link generatePax}
+ * writes alongside any other records of the header.
+ */
+export function createSparseEntry(
+	header: TarHeader,
+	segments: TarSparseSegment[],
+): { header: TarHeader; map: Uint8Array } {
+	const { sparse: _, ...rest } = header;
+
+	const lines = [String(segments.length)];
+	let dataSize = 0;
+	for (const segment of segments) {
+		lines.push(String(segment.offset), String(segment.size));
+		dataSize += segment.size;
+	}
+
+	const mapText = encoder.encode(`${lines.join("\n")}\n`);
+	const map = new Uint8Array((mapText.length + BLOCK_SIZE_MASK) & -BLOCK_SIZE);
+	map.set(mapText);
+
+	// GNU tar stores the entry under a placeholder name in the same directory.
+	const slashIndex = header.name.lastIndexOf("/");
+	const name = `${header.name.slice(0, slashIndex + 1)}GNUSparseFile.0/${header.name.slice(slashIndex + 1)}`;
+
+	return {
+		header: {
+			...rest,
+			name,
+			size: map.length + dataSize,
+			type: "file",
+			pax: {
+				...header.pax,
+				"GNU.sparse.major": "1",
+				"GNU.sparse.minor": "0",
+				"GNU.sparse.name": header.name,
+				"GNU.sparse.realsize": String(header.size),
+			},
+		},
+		map,
+	};
+}
+
+/**
+ * Throws if a sparse map cannot describe a file of `realSize` bytes: every region must be
+ * a non-negative integer range within the file, after the end of the previous region.
+ */
+export function validateSparseMap(
+	segments: TarSparseSegment[],
+	realSize: number,
+	context: TarErrorOptions,
+): void {
+	if (!isSize(realSize)) {
+		throw new TarFormatError(
+			"TAR_BAD_SPARSE_MAP",
+			`Invalid sparse file size ${realSize}.`,
+			context,
+		);
+	}
+
+	let end = 0;
+	for (const { offset, size } of segments) {
+		if (
+			!isSize(offset) ||
+			!isSize(size) ||
+			offset < end ||
+			offset + size > realSize
+		) {
+			throw new TarFormatError(
+				"TAR_BAD_SPARSE_MAP",
+				`Invalid sparse region at offset ${offset} with size ${size}.`,
+				context,
+			);
+		}
+
+		end = offset + size;
+	}
+}
+
+/**
+ * Re-inflates the packed data of a sparse entry to its full size.
+ *
+ * Packed bytes are placed at their region offsets and the holes in between (and up to
+ * `realSize`) read as zeros. Zeros are only produced as the returned stream is read, one
+ * chunk at a time, so a huge hole is never buffered.
+ */
+export function createSparseInflater(
+	packed: ReadableStream<Uint8Array>,
+	segments: TarSparseSegment[],
+	realSize: number,
+): ReadableStream<Uint8Array> {
+	const reader = packed.getReader();
+	let chunk: Uint8Array | undefined; // Unread part of the last packed chunk
+	let done = false; // Whether the packed data has ended
+	let position = 0;
+	let index = 0;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			while (true) {
+				// Move past complete (or empty) regions.
+				while (
+					index < segments.length &&
+					position >= segments[index].offset + segments[index].size
+				) {
+					index++;
+				}
+
+				const segment = segments[index] as TarSparseSegment | undefined;
+
+				// Holes need no packed data, and neither does a region whose data is missing.
+				const zerosEnd = !segment
+					? realSize
+					: done
+						? segment.offset + segment.size
+						: segment.offset;
+
+				if (position < zerosEnd) {
+					const size = Math.min(zerosEnd - position, HOLE_CHUNK.length);
+					controller.enqueue(HOLE_CHUNK.subarray(0, size));
+					position += size;
+					return;
+				}
+
+				// A region is in progress: copy as much of it as the chunk holds.
+				if (segment && chunk) {
+					const regionEnd = segment.offset + segment.size;
+					const size = Math.min(chunk.length, regionEnd - position);
+					controller.enqueue(chunk.subarray(0, size));
+					chunk = size < chunk.length ? chunk.subarray(size) : undefined;
+					position += size;
+					return;
+				}
+
+				if (done) {
+					controller.close();
+					return;
+				}
+
+				// Data after the last region is dropped, but still read so that errors of the
+				// packed stream surface.
+				const result = await reader.read();
+				if (result.done) done = true;
+				else chunk = result.value;
+			}
+		},
+
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+}
+
+// Whether a parsed number is a valid size or offset.
+function isSize(value: number): boolean {
+	return Number.isSafeInteger(value) && value >= 0;
+}
+
+// Reads `count` offset/numbytes pairs, stopping at the first unused (empty) entry.
+function readGnuSparseEntries(
+	block: Uint8Array,
+	offset: number,
+	count: number,
+	segments: TarSparseSegment[],
+) {
+	for (let i = 0; i < count; i++) {
+		const entryOffset = offset + i * GNU_SPARSE_ENTRY_SIZE;
+		if (block[entryOffset] === 0) break;
+
+		segments.push({
+			offset: readNumeric(block, entryOffset, GNU_SPARSE_NUMBER_SIZE),
+			size: readNumeric(
+				block,
+				entryOffset + GNU_SPARSE_NUMBER_SIZE,
+				GNU_SPARSE_NUMBER_SIZE,
+			),
+		});
+	}
+}
@@ -0,0 +1,96 @@
+import type { SpoolStorage } from "./types";
+
+// Bytes of a body buffered in memory before it is moved to storage.
+export const DEFAULT_SPOOL_MEMORY = 1024 * 1024;
+
+/**
+ * Buffers a body of unknown size until it ends, keeping no more than `memoryLimit` bytes
+ * in memory. Larger bodies are moved to storage from `createStorage` in batches.
+ */
+export function createSpool(
+	memoryLimit: number,
+	createStorage: () => SpoolStorage | Promise<SpoolStorage>,
+) {
+	let chunks: Uint8Array[] = [];
+	let buffered = 0;
+	let size = 0;
+	let storage: SpoolStorage | undefined;
+
+	// Moves the buffered chunks to storage as one write.
+	const spill = async () => {
+		storage ??= await createStorage();
+		await storage.write(
+			chunks.length === 1 ? chunks[0] : concat(chunks, buffered),
+		);
+		chunks = [];
+		buffered = 0;
+	};
+
+	return {
+		async write(chunk: Uint8Array) {
+			chunks.push(chunk);
+			buffered += chunk.length;
+			size += chunk.length;
+			if (buffered > memoryLimit) await spill();
+		},
+
+		// Returns the size of the body and a stream of its data.
+		async finish(): Promise<{
+			size: number;
+			stream: ReadableStream<Uint8Array>;
+		}> {
+			if (storage) {
+				if (buffered > 0) await spill();
+				return { size, stream: await storage.read() };
+			}
+
+			const remaining = chunks;
+			chunks = [];
+			return {
+				size,
+				stream: new ReadableStream({
+					pull(controller) {
+						const chunk = remaining.shift();
+						if (chunk) controller.enqueue(chunk);
+						else controller.close();
+					},
+				}),
+			};
+		},
+
+		async discard() {
+			chunks = [];
+			await storage?.discard();
+		},
+	};
+}
+
+/**
+ * Creates spool storage in a `Blob`, which browsers can keep on disk.
+ */
+export function createBlobStorage(): SpoolStorage {
+	let blob = new Blob([]);
+
+	return {
+		async write(data) {
+			blob = new Blob([blob, data as Uint8Array<ArrayBuffer>]);
+		},
+		async read() {
+			return blob.stream();
+		},
+		async discard() {
+			blob = new Blob([]);
+		},
+	};
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+	const result = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return result;
+}
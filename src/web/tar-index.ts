@@ -0,0 +1,486 @@
+import {
+	BLOCK_SIZE,
+	USTAR_CHECKSUM_OFFSET,
+	USTAR_CHECKSUM_SIZE,
+} from "./constants";
+import { TarFormatError } from "./errors";
+import {
+	createSparseInflater,
+	parseGnuSparseExtension,
+	parseGnuSparseHeader,
+	parseSparseMap,
+	sparseMapOverflow,
+	validateSparseMap,
+} from "./sparse";
+import type {
+	DecoderOptions,
+	RangeReader,
+	SeekableSource,
+	TarHeader,
+	TarIndexEntry,
+	TarIndexOptions,
+	TarSparseSegment,
+} from "./types";
+import {
+	getMetaParser,
+	type HeaderOverrides,
+	parseUstarHeader,
+	resolveHeader,
+	type SparseMap,
+} from "./unpack";
+import { padded, readOctal } from "./utils";
+
+// Size of the chunks read when streaming an entry body from a range reader.
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// Version of the serialized index format.
+const INDEX_VERSION = 1;
+
+// Maximum number of header checksums sampled to detect a stale index.
+const MAX_CHECKSUM_SAMPLES = 16;
+
+// Compact serialized form of an entry, stored as an array to keep sidecar files small:
+// name, type, header offset, data offset, data size, size, mtime (ms), mode and sparse map.
+type SerializedEntry = [
+	string,
+	TarHeader["type"],
+	number,
+	number,
+	number,
+	number,
+	number | null,
+	number | null,
+	Array<[number, number]>?,
+];
+
+interface SerializedIndex {
+	version: number;
+	// Size of the archive in bytes, if known.
+	size: number | null;
+	// [header offset, checksum] pairs of sampled header blocks.
+	samples: Array<[number, number]>;
+	entries: SerializedEntry[];
+}
+
+/**
+ * Scan the headers of a tar archive to build an index of its entries.
+ *
+ * Only header blocks are read: entry bodies are skipped using their size and block padding,
+ * so indexing a large archive reads a tiny fraction of it. Each entry records the byte
+ * offsets needed to read its body later with {@link readTarEntry}.
+ *
+ * @param source - A `Blob` or {@link RangeReader} over the uncompressed archive bytes
+ * @param options - Optional configuration using {@link DecoderOptions}
+ * @returns A `Promise` that resolves to the {@link TarIndexEntry} list in archive order
+ * @example
+ * ```typescript
+ * import { createTarIndex, readTarEntry } from 'modern-tar';
+ *
+ * const file = input.files[0]; // A `File` is a `Blob`
+ * const index = await createTarIndex(file);
+ *
+ * const entry = index.find((e) => e.header.name === 'package/package.json');
+ * if (entry) {
+ *   const text = await new Response(readTarEntry(file, entry)).text();
+ *   console.log(JSON.parse(text).version);
+ * }
+ * ```
+ */
+export async function createTarIndex(
+	source: SeekableSource,
+	options: DecoderOptions = {},
+): Promise<TarIndexEntry[]> {
+	const strict = options.strict ?? false;
+	const read = toRangeReader(source);
+	const entries: TarIndexEntry[] = [];
+
+	let paxGlobals: HeaderOverrides = {};
+	let nextEntryOverrides: HeaderOverrides = {};
+	let offset = 0; // Offset of the next header block
+	let headerOffset = 0; // Offset of the first header block of the current entry
+
+	while (true) {
+		const headerBlock = await read(offset, BLOCK_SIZE);
+		if (headerBlock.length < BLOCK_SIZE) {
+			if (strict && headerBlock.length > 0) {
+				throw truncated(offset + headerBlock.length);
+			}
+			break;
+		}
+
+		// Check for two consecutive zero blocks indicating end of archive.
+		if (headerBlock.every((b) => b === 0)) {
+			const nextBlock = await read(offset + BLOCK_SIZE, BLOCK_SIZE);
+			if (nextBlock.length < BLOCK_SIZE || nextBlock.every((b) => b === 0)) {
+				break;
+			}
+		}
+
+		const header = parseUstarHeader(headerBlock, strict, offset);
+		const dataOffset = offset + BLOCK_SIZE;
+
+		// Meta-entries (PAX, GNU) are read in full as they apply to the next entry.
+		const metaParser = getMetaParser(header.type);
+		if (metaParser) {
+			const data = await readFully(read, dataOffset, header.size);
+			const overrides = metaParser(data);
+
+			if (header.type === "pax-global-header") {
+				paxGlobals = Object.assign({}, paxGlobals, overrides);
+			} else {
+				nextEntryOverrides = Object.assign({}, nextEntryOverrides, overrides);
+			}
+
+			offset = dataOffset + padded(header.size);
+			continue;
+		}
+
+		const sparse = await readSparseMap(
+			read,
+			headerBlock,
+			header.type,
+			nextEntryOverrides.size ?? paxGlobals.size ?? header.size,
+			dataOffset,
+			nextEntryOverrides,
+		);
+
+		const finalHeader = resolveHeader(header, paxGlobals, nextEntryOverrides);
+		nextEntryOverrides = {};
+
+		const entry: TarIndexEntry = {
+			header: finalHeader,
+			headerOffset,
+			dataOffset: dataOffset + (sparse?.dataOffset ?? 0),
+			dataSize: finalHeader.size - (sparse?.mapSize ?? 0),
+		};
+
+		if (sparse) {
+			validateSparseMap(sparse.segments, sparse.realSize, {
+				header: finalHeader,
+				offset: headerOffset,
+			});
+
+			finalHeader.type = "file";
+			finalHeader.size = sparse.realSize;
+			finalHeader.sparse = sparse.segments;
+		}
+
+		entries.push(entry);
+
+		offset = entry.dataOffset + padded(entry.dataSize);
+		headerOffset = offset;
+	}
+
+	return entries;
+}
+
+/**
+ * Read the body of an indexed entry from its archive.
+ *
+ * Sparse files are re-inflated to their full size, exactly as {@link createTarDecoder}
+ * would emit them.
+ *
+ * @param source - The same `Blob` or {@link RangeReader} the index was built from
+ * @param entry - An entry returned by {@link createTarIndex}
+ * @returns A `ReadableStream` of the entry's body
+ * @example
+ * ```typescript
+ * import { createTarIndex, readTarEntry } from 'modern-tar';
+ *
+ * const index = await createTarIndex(blob);
+ * for (const entry of index) {
+ *   if (entry.header.name.endsWith('.json')) {
+ *     console.log(await new Response(readTarEntry(blob, entry)).json());
+ *   }
+ * }
+ * ```
+ */
+export function readTarEntry(
+	source: SeekableSource,
+	entry: TarIndexEntry,
+): ReadableStream<Uint8Array> {
+	const start = entry.dataOffset;
+	const end = entry.dataOffset + entry.dataSize;
+
+	let body: ReadableStream<Uint8Array>;
+	if (source instanceof Blob) {
+		body = source.slice(start, end).stream();
+	} else {
+		let position = start;
+		body = new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				if (position >= end) {
+					controller.close();
+					return;
+				}
+
+				const chunk = await source(
+					position,
+					Math.min(READ_CHUNK_SIZE, end - position),
+				);
+				if (chunk.length === 0) {
+					controller.error(truncated(position, entry.header));
+					return;
+				}
+
+				position += chunk.length;
+				controller.enqueue(chunk);
+			},
+		});
+	}
+
+	const { sparse, size } = entry.header;
+	if (!sparse) return body;
+
+	return createSparseInflater(body, sparse, size);
+}
+
+/**
+ * Serialize an index to a compact JSON string, e.g. to store as a sidecar file next to
+ * the archive.
+ *
+ * Only the name, type, size, mtime, mode and sparse map of each header are kept, along
+ * with the entry offsets. To detect a stale index when loading it, the archive size and
+ * the checksums of a sample of header blocks are recorded from `source`.
+ *
+ * @param entries - Entries returned by {@link createTarIndex}
+ * @param source - The `Blob` or {@link RangeReader} the index was built from
+ * @param options - Optional {@link TarIndexOptions}, such as the archive size for range readers
+ * @returns A `Promise` that resolves to the serialized index
+ * @example
+ * ```typescript
+ * import { createTarIndex, loadTarIndex, serializeTarIndex } from 'modern-tar';
+ *
+ * const index = await createTarIndex(blob);
+ * localStorage.setItem('archive-index', await serializeTarIndex(index, blob));
+ *
+ * // Later, without rescanning the archive
+ * const cached = await loadTarIndex(localStorage.getItem('archive-index')!, blob);
+ * ```
+ */
+export async function serializeTarIndex(
+	entries: TarIndexEntry[],
+	source: SeekableSource,
+	options: TarIndexOptions = {},
+): Promise<string> {
+	const read = toRangeReader(source);
+	const samples: Array<[number, number]> = [];
+
+	for (const offset of sampleOffsets(entries)) {
+		samples.push([offset, await readHeaderChecksum(read, offset)]);
+	}
+
+	const index: SerializedIndex = {
+		version: INDEX_VERSION,
+		size: getSize(source, options),
+		samples,
+		entries: entries.map(({ header, headerOffset, dataOffset, dataSize }) => {
+			const entry: SerializedEntry = [
+				header.name,
+				header.type ?? "file",
+				headerOffset,
+				dataOffset,
+				dataSize,
+				header.size,
+				header.mtime?.getTime() ?? null,
+				header.mode ?? null,
+			];
+			if (header.sparse) {
+				entry.push(header.sparse.map(({ offset, size }) => [offset, size]));
+			}
+			return entry;
+		}),
+	};
+
+	return JSON.stringify(index);
+}
+
+/**
+ * Load an index serialized with {@link serializeTarIndex}, validating it against the archive.
+ *
+ * The archive size and the sampled header checksums must match, otherwise the archive has
+ * changed since it was indexed and an error is thrown, so the caller can rebuild the index.
+ *
+ * @param data - The serialized index
+ * @param source - The `Blob` or {@link RangeReader} of the archive the index was built from
+ * @param options - Optional {@link TarIndexOptions}, such as the archive size for range readers
+ * @returns A `Promise` that resolves to the {@link TarIndexEntry} list, usable with {@link readTarEntry}
+ */
+export async function loadTarIndex(
+	data: string,
+	source: SeekableSource,
+	options: TarIndexOptions = {},
+): Promise<TarIndexEntry[]> {
+	const index = JSON.parse(data) as SerializedIndex;
+	if (index.version !== INDEX_VERSION) {
+		throw new Error(`Unsupported tar index version ${index.version}.`);
+	}
+
+	const size = getSize(source, options);
+	if (index.size !== null && size !== null && index.size !== size) {
+		throw new Error("Tar index does not match the archive size.");
+	}
+
+	const read = toRangeReader(source);
+	for (const [offset, checksum] of index.samples) {
+		if ((await readHeaderChecksum(read, offset)) !== checksum) {
+			throw new Error(
+				`Tar index does not match the archive header at offset ${offset}.`,
+			);
+		}
+	}
+
+	return index.entries.map(
+		([
+			name,
+			type,
+			headerOffset,
+			dataOffset,
+			dataSize,
+			size,
+			mtime,
+			mode,
+			sparse,
+		]) => {
+			const header: TarHeader = { name, type, size };
+			if (mtime !== null) header.mtime = new Date(mtime);
+			if (mode !== null) header.mode = mode;
+			if (sparse) {
+				header.sparse = sparse.map(
+					([offset, size]): TarSparseSegment => ({ offset, size }),
+				);
+			}
+
+			return { header, headerOffset, dataOffset, dataSize };
+		},
+	);
+}
+
+/**
+ * Wraps a `Blob` as a {@link RangeReader}.
+ */
+export function toRangeReader(source: SeekableSource): RangeReader {
+	if (source instanceof Blob) {
+		return async (offset, length) =>
+			new Uint8Array(await source.slice(offset, offset + length).arrayBuffer());
+	}
+
+	return source;
+}
+
+// Reads the sparse map of an entry, which may be stored in extension blocks after the
+// header (old GNU), in the PAX records (0.0 and 0.1) or at the start of the body (1.0).
+async function readSparseMap(
+	read: RangeReader,
+	headerBlock: Uint8Array,
+	type: string | undefined,
+	size: number,
+	dataOffset: number,
+	overrides: HeaderOverrides,
+): Promise<(SparseMap & { dataOffset: number }) | undefined> {
+	if (type === "gnu-sparse") {
+		const { segments, realSize, isExtended } =
+			parseGnuSparseHeader(headerBlock);
+		let extensionOffset = dataOffset;
+		let hasExtension = isExtended;
+
+		while (hasExtension) {
+			const block = await readFully(read, extensionOffset, BLOCK_SIZE);
+			hasExtension = parseGnuSparseExtension(block, segments);
+			extensionOffset += BLOCK_SIZE;
+		}
+
+		// Extension blocks sit between the header and the data, outside the entry size.
+		return {
+			segments,
+			realSize,
+			mapSize: 0,
+			dataOffset: extensionOffset - dataOffset,
+		};
+	}
+
+	const { sparseMajor, sparseRealSize, sparse } = overrides;
+
+	if (sparseMajor === 1 && sparseRealSize !== undefined) {
+		let mapSize = 0;
+		let map: ReturnType<typeof parseSparseMap> = null;
+
+		while (map === null) {
+			// The map is part of the entry's data, so it must end within the entry's size.
+			mapSize += BLOCK_SIZE;
+			if (mapSize > size) throw sparseMapOverflow({ offset: dataOffset });
+
+			map = parseSparseMap(await readFully(read, dataOffset, mapSize), {
+				offset: dataOffset,
+			});
+		}
+
+		return {
+			segments: map.segments,
+			realSize: sparseRealSize,
+			mapSize,
+			dataOffset: mapSize,
+		};
+	}
+
+	if (sparse && sparseRealSize !== undefined) {
+		return {
+			segments: sparse,
+			realSize: sparseRealSize,
+			mapSize: 0,
+			dataOffset: 0,
+		};
+	}
+
+	return undefined;
+}
+
+// Picks evenly spaced entries, always including the first and last, to sample for staleness.
+function sampleOffsets(entries: TarIndexEntry[]): number[] {
+	if (entries.length <= MAX_CHECKSUM_SAMPLES) {
+		return entries.map((e) => e.headerOffset);
+	}
+
+	const step = (entries.length - 1) / (MAX_CHECKSUM_SAMPLES - 1);
+	return Array.from(
+		{ length: MAX_CHECKSUM_SAMPLES },
+		(_, i) => entries[Math.round(i * step)].headerOffset,
+	);
+}
+
+// Reads the stored checksum of the header block at `offset`, or -1 if there is none.
+async function readHeaderChecksum(
+	read: RangeReader,
+	offset: number,
+): Promise<number> {
+	const block = await read(offset, BLOCK_SIZE);
+	if (block.length < BLOCK_SIZE) return -1;
+
+	return readOctal(block, USTAR_CHECKSUM_OFFSET, USTAR_CHECKSUM_SIZE);
+}
+
+// Returns the size of the archive, if it is known.
+function getSize(
+	source: SeekableSource,
+	options: TarIndexOptions,
+): number | null {
+	return options.size ?? (source instanceof Blob ? source.size : null);
+}
+
+// Reads exactly `length` bytes, throwing if the archive ends first.
+async function readFully(
+	read: RangeReader,
+	offset: number,
+	length: number,
+): Promise<Uint8Array> {
+	const data = await read(offset, length);
+	if (data.length < length) throw truncated(offset + data.length);
+	return data;
+}
+
+function truncated(offset: number, header?: TarHeader): TarFormatError {
+	return new TarFormatError("TAR_TRUNCATED", "Tar archive is truncated.", {
+		header,
+		offset,
+	});
+}
@@ -26,6 +26,21 @@ export interface TarHeader {
 	linkname?: string;
 	/** PAX extended attributes as key-value pairs. */
 	pax?: Record<string, string>;
+	/**
+	 * Data regions of a GNU sparse file. When present, `size` is the expanded size of the
+	 * file and any byte outside of these regions is a hole that reads as zero.
+	 */
+	sparse?: TarSparseSegment[];
+}
+
+/**
+ * A region of data within a sparse file.
+ */
+export interface TarSparseSegment {
+	/** Offset of the region within the expanded file. */
+	offset: number;
+	/** Length of the region in bytes. */
+	size: number;
 }
 
 /**
@@ -51,12 +66,74 @@ export interface TarEntry {
 	body?: TarEntryData;
 }
 
+/**
+ * Header formats that can be written when packing an archive.
+ *
+ * - `pax`: POSIX.1-2001. USTAR headers with PAX extended headers for fields that do not fit.
+ * - `ustar`: Strict POSIX.1-1988 USTAR. Fields that do not fit throw an error.
+ * - `gnu`: Old GNU format, with `L`/`K` entries for long names and base-256 numbers.
+ * - `v7`: Unix V7, without magic, user and group names or a name prefix.
+ */
+export type TarFormat = "pax" | "ustar" | "gnu" | "v7";
+
+/**
+ * Platform-neutral configuration options for packing tar archives.
+ */
+export interface PackOptions {
+	/**
+	 * Header format to write. Only `pax` can store every field, so the other formats throw
+	 * an error for entries they cannot represent.
+	 * @default "pax"
+	 */
+	format?: TarFormat;
+	/**
+	 * Write the size, uid, gid and mtime in GNU base-256 binary when they do not fit in
+	 * their octal fields, as GNU tar does, instead of adding PAX records or throwing an
+	 * error. This is how files over 8 GiB, uids over 2097151 and mtimes before 1970 are
+	 * stored without PAX headers. The `gnu` format always uses base-256.
+	 * @default false
+	 */
+	base256?: boolean;
+}
+
+/**
+ * Storage for the part of a {@link TarPackController.addStream} body that does not fit in
+ * memory while its size is unknown.
+ */
+export interface SpoolStorage {
+	/** Append data to the storage. */
+	write(data: Uint8Array): Promise<void>;
+	/** Read everything that was written. The storage is released once the stream ends. */
+	read(): Promise<ReadableStream<Uint8Array>>;
+	/** Release the storage without reading it. */
+	discard(): Promise<void>;
+}
+
+/**
+ * Configuration options for {@link createTarPacker}.
+ */
+export interface TarPackerOptions extends PackOptions {
+	/**
+	 * Bytes of a body added with {@link TarPackController.addStream} to buffer in memory.
+	 * Larger bodies are moved to `spoolStorage` as they grow.
+	 * @default 1048576 (1 MiB)
+	 */
+	spoolMemory?: number;
+	/**
+	 * Create the storage for bodies larger than `spoolMemory`. Defaults to a `Blob`, which
+	 * browsers may keep on disk. `packTarSources` in `modern-tar/fs` uses a temporary file.
+	 */
+	spoolStorage?: () => SpoolStorage | Promise<SpoolStorage>;
+}
+
 /**
  * Represents an entry parsed from a tar archive stream.
  */
 export interface ParsedTarEntry {
 	header: TarHeader;
 	body: ReadableStream<Uint8Array>;
+	/** Byte offset of the first header block of the entry, including any PAX or GNU meta-entries. */
+	offset?: number;
 }
 
 /**
@@ -67,6 +144,150 @@ export interface ParsedTarEntryWithData {
 	data: Uint8Array;
 }
 
+/**
+ * Reads up to `length` bytes of an archive starting at byte `offset`.
+ *
+ * Must resolve to fewer bytes only when the end of the archive is reached.
+ */
+export type RangeReader = (
+	offset: number,
+	length: number,
+) => Promise<Uint8Array>;
+
+/**
+ * A source of archive bytes that supports random access.
+ */
+export type SeekableSource = Blob | RangeReader;
+
+/**
+ * Location of an entry within a tar archive, as returned by {@link createTarIndex}.
+ */
+export interface TarIndexEntry {
+	/** The fully resolved header of the entry, including any PAX or GNU extensions. */
+	header: TarHeader;
+	/** Byte offset of the first header block of the entry, including any PAX or GNU meta-entries. */
+	headerOffset: number;
+	/** Byte offset of the entry's data. */
+	dataOffset: number;
+	/** Number of data bytes stored in the archive. Smaller than `header.size` for sparse files. */
+	dataSize: number;
+}
+
+/**
+ * A member of a gzip file, as found by `createGzipIndex`.
+ *
+ * Each member is a complete gzip stream that can be decompressed on its own.
+ */
+export interface GzipMember {
+	/** Offset of the member's header in the compressed file. */
+	compressedOffset: number;
+	/** Size of the member in the compressed file, including its header and trailer. */
+	compressedSize: number;
+	/** Offset of the member's data in the uncompressed data. */
+	uncompressedOffset: number;
+	/** Size of the member's data once decompressed. */
+	uncompressedSize: number;
+}
+
+/**
+ * Formats supported by `createCompressor` and `createDecompressor`.
+ */
+export type CompressorFormat = "gzip" | "deflate" | "deflate-raw" | "brotli";
+
+/**
+ * Options for creating a compressor.
+ */
+export interface CompressorOptions {
+	/**
+	 * Compression level, from 0 to 9 for gzip and deflate, or 0 to 11 for brotli.
+	 * Only supported by the `modern-tar/fs` version. The web version throws if it is set,
+	 * as `CompressionStream` has no levels.
+	 */
+	level?: number;
+}
+
+/**
+ * Options for creating a Zstandard encoder.
+ */
+export interface ZstdOptions {
+	/** Compression level, from 1 (fastest) to 22 (smallest). Defaults to the codec's default. */
+	level?: number;
+	/**
+	 * Amount of uncompressed data in bytes after which a new Zstandard frame is started.
+	 * By default, the output is a single frame.
+	 */
+	frameSize?: number;
+}
+
+/**
+ * Fields of a gzip member header.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc1952#page-5
+ */
+export interface GzipHeader {
+	/** Modification time of the original data (MTIME), in whole seconds. Unset when 0. */
+	mtime?: Date;
+	/** Operating system of the file system the data came from (OS), e.g. 3 for Unix. Defaults to 255 (unknown). */
+	os?: number;
+	/** Original file name (FNAME), in ISO-8859-1. */
+	name?: string;
+	/** Comment (FCOMMENT), in ISO-8859-1. */
+	comment?: string;
+}
+
+/**
+ * The header of a gzip member and where the member starts, as seen by `createGzipDecoder`.
+ */
+export interface GzipMemberHeader {
+	/** Fields of the member's header. */
+	header: GzipHeader;
+	/** Offset of the member's header in the compressed data. */
+	compressedOffset: number;
+	/** Offset of the member's data in the decompressed output. */
+	uncompressedOffset: number;
+}
+
+/**
+ * Options for creating a gzip decoder.
+ */
+export interface GzipDecoderOptions {
+	/**
+	 * Called with the header of each member, before its data is output.
+	 *
+	 * Setting it decompresses in JavaScript instead of with `DecompressionStream`, as the
+	 * native stream does not report where members start. This is several times slower,
+	 * about 3 to 4 times in Node.js, so only set it when the member headers are needed.
+	 */
+	onMember?: (member: GzipMemberHeader) => void;
+}
+
+/**
+ * Options for creating a seekable gzip encoder.
+ */
+export interface SeekableGzipOptions {
+	/**
+	 * Amount of uncompressed data in bytes after which a new gzip member is started.
+	 * Defaults to 1 MiB.
+	 */
+	memberSize?: number;
+	/**
+	 * Only start new members at tar entry boundaries, once `memberSize` is reached, so an
+	 * entry's headers and body are never split across members. Defaults to `false`.
+	 */
+	entryBoundaries?: boolean;
+}
+
+/**
+ * Options for serializing and loading a tar index.
+ */
+export interface TarIndexOptions {
+	/**
+	 * Size of the archive in bytes, used to detect a stale index. Taken from the `Blob`
+	 * when not given; range readers should pass it when known.
+	 */
+	size?: number;
+}
+
 /**
  * Configuration options for creating a tar decoder stream.
  */
@@ -79,8 +300,122 @@ export interface DecoderOptions {
 	 * @default false
 	 */
 	strict?: boolean;
+	/**
+	 * Re-inflate the holes of sparse files with zeros. When false, the body of a sparse file
+	 * only holds its data regions back to back, to be placed using `header.sparse`.
+	 * @default true
+	 */
+	inflateSparse?: boolean;
+}
+
+/**
+ * Changes to an entry, returned from the callback of `createTarRewriter`.
+ */
+export interface TarRewrite {
+	/**
+	 * Header to write instead of the original one, e.g. `{ ...entry.header, name }`. Its
+	 * size is ignored, as the size of the body is always used.
+	 */
+	header?: TarHeader;
+	/** Body to write instead of the original one. */
+	body?: TarEntryData;
 }
 
+/**
+ * Decides what happens to each entry of an archive in `createTarRewriter`: return nothing
+ * to keep it unchanged, `false` to drop it, or a {@link TarRewrite} to change it.
+ */
+export type TarRewriteCallback = (
+	entry: ParsedTarEntry,
+) => TarRewrite | false | undefined | Promise<TarRewrite | false | undefined>;
+
+/**
+ * Configuration options for `createTarRewriter`, used to decode the input archive and
+ * pack the output.
+ */
+export type TarRewriterOptions = DecoderOptions & TarPackerOptions;
+
+/**
+ * Codes of a `TarFormatError`, for archives that cannot be read:
+ * - `TAR_BAD_CHECKSUM`: A header block does not match its checksum (strict mode)
+ * - `TAR_BAD_MAGIC`: A header block has no USTAR magic (strict mode)
+ * - `TAR_TRUNCATED`: The archive ends in the middle of an entry
+ * - `TAR_TRAILING_DATA`: Data other than padding follows the end of the archive (strict mode)
+ * - `TAR_BAD_SPARSE_MAP`: The regions of a sparse file are invalid or do not fit its size,
+ *   or its map does not end within the entry
+ */
+export type TarFormatErrorCode =
+	| "TAR_BAD_CHECKSUM"
+	| "TAR_BAD_MAGIC"
+	| "TAR_TRUNCATED"
+	| "TAR_TRAILING_DATA"
+	| "TAR_BAD_SPARSE_MAP";
+
+/**
+ * Codes of a `TarPathError`, for entries that are not extracted to the filesystem:
+ * - `TAR_PATH_ESCAPE`: The entry or its link target would be outside the extraction directory
+ * - `TAR_ABSOLUTE_PATH`: The entry has an absolute name
+ * - `TAR_MAX_DEPTH`: The entry name is nested deeper than `maxDepth`
+ * - `TAR_NOT_A_DIRECTORY`: A parent of the entry exists and is not a directory
+ */
+export type TarPathErrorCode =
+	| "TAR_PATH_ESCAPE"
+	| "TAR_ABSOLUTE_PATH"
+	| "TAR_MAX_DEPTH"
+	| "TAR_NOT_A_DIRECTORY";
+
+/**
+ * Stable codes of every `TarError`.
+ */
+export type TarErrorCode = TarFormatErrorCode | TarPathErrorCode;
+
+/**
+ * Context attached to a `TarError`.
+ */
+export interface TarErrorOptions {
+	/** The header of the entry that failed, if the failure belongs to one. */
+	header?: TarHeader;
+	/** Byte offset in the uncompressed archive: the header block at fault, the entry that failed, or where the archive ended. */
+	offset?: number;
+	/** The underlying error, if any. */
+	cause?: unknown;
+}
+
+/**
+ * Options for formatting headers with `formatTarHeader`.
+ */
+export interface TarListingOptions {
+	/**
+	 * Format the header as a JSON object on one line, with the mtime as an ISO 8601 string,
+	 * for JSON-lines output.
+	 * @default false
+	 */
+	json?: boolean;
+	/**
+	 * Print times in UTC rather than the local time zone. JSON output always uses UTC.
+	 * @default false
+	 */
+	utc?: boolean;
+}
+
+/**
+ * An archive to concatenate with `concatTar`, with an optional directory for its entries.
+ */
+export interface TarConcatSource {
+	/** The uncompressed archive bytes. */
+	stream: ReadableStream<Uint8Array>;
+	/**
+	 * Directory to move the archive's entries into, e.g. `"packages/core"`. The headers of
+	 * a prefixed archive are rewritten, while its bodies are still passed through.
+	 */
+	prefix?: string;
+}
+
+/**
+ * Compression formats that can be detected when unpacking an archive.
+ */
+export type CompressionFormat = "gzip" | "zstd" | "bzip2" | "xz";
+
 /**
  * Platform-neutral configuration options for extracting tar archives.
  *
@@ -94,4 +429,10 @@ export interface UnpackOptions extends DecoderOptions {
 	filter?: (header: TarHeader) => boolean;
 	/** Transform function to modify tar headers before extraction */
 	map?: (header: TarHeader) => TarHeader;
+	/**
+	 * Compression formats to detect and decompress automatically from the first bytes of the
+	 * archive. Defaults to all supported formats. Set to an empty array to only accept
+	 * uncompressed archives.
+	 */
+	compression?: CompressionFormat[];
 }
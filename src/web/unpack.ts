@@ -30,20 +30,46 @@ import {
 	USTAR_UNAME_OFFSET,
 	USTAR_UNAME_SIZE,
 } from "./constants";
-import type { DecoderOptions, ParsedTarEntry, TarHeader } from "./types";
+import { TarFormatError } from "./errors";
+import {
+	createSparseInflater,
+	parseGnuSparseExtension,
+	parseGnuSparseHeader,
+	parsePaxSparseMap,
+	parseSparseMap,
+	sparseMapOverflow,
+	validateSparseMap,
+} from "./sparse";
+import type {
+	DecoderOptions,
+	ParsedTarEntry,
+	TarHeader,
+	TarSparseSegment,
+} from "./types";
 import { decoder, readNumeric, readOctal, readString } from "./utils";
 
-interface InternalTarHeader extends TarHeader {
+export interface InternalTarHeader extends TarHeader {
 	checksum: number;
 	magic: string;
 	prefix: string;
 }
 
-type HeaderOverrides = Omit<Partial<TarHeader>, "mtime"> & {
+export type HeaderOverrides = Omit<Partial<TarHeader>, "mtime"> & {
 	// PAX mtime is a float, handle it as a number before converting to Date
 	mtime?: number;
+	// GNU sparse PAX records (formats 0.0, 0.1 and 1.0)
+	sparseMajor?: number;
+	sparseName?: string;
+	sparseRealSize?: number;
 };
 
+export interface SparseMap {
+	segments: TarSparseSegment[];
+	realSize: number;
+	// Bytes at the start of the body occupied by the map itself (PAX 1.0 only).
+	mapSize: number;
+}
+
 /**
  * Create a transform stream that parses tar bytes into entries.
  *
@@ -65,18 +91,22 @@ export function createTarDecoder(
 	options: DecoderOptions = {},
 ): TransformStream<Uint8Array, ParsedTarEntry> {
 	const strict = options.strict ?? false;
+	const inflateSparse = options.inflateSparse ?? true;
 
 	// Chunk queue
 	const chunks: Uint8Array[] = [];
 	let totalLength = 0;
 	let offset = 0; // Read offset within the first chunk only
+	let position = 0; // Offset in the archive of the first unread byte
 
 	// State for entries
 	let currentEntry: {
 		header: TarHeader;
 		bytesLeft: number;
+		padding: number;
 		controller: ReadableStreamDefaultController<Uint8Array>;
 	} | null = null;
+	let entryOffset: number | undefined; // Offset of the first header block of the next entry
 	let paxGlobals: HeaderOverrides = {};
 	let nextEntryOverrides: HeaderOverrides = {};
 
@@ -90,6 +120,7 @@ export function createTarDecoder(
 		}
 
 		totalLength -= size;
+		position += size;
 
 		const firstChunk = chunks[0];
 
@@ -164,6 +195,7 @@ export function createTarDecoder(
 		}
 
 		totalLength -= forwarded;
+		position += forwarded;
 		return forwarded;
 	}
 
@@ -179,6 +211,91 @@ export function createTarDecoder(
 		}
 		chunks.unshift(data);
 		totalLength += data.length;
+		position -= data.length;
+	}
+
+	/**
+	 * Reads the sparse map of an entry, if it is a sparse file. The map is stored in the
+	 * header and its extension blocks (old GNU), in the PAX records (0.0 and 0.1) or at the
+	 * start of the body (1.0).
+	 *
+	 * Returns undefined for regular entries, or null if not enough data is available, in
+	 * which case any consumed extension blocks have been put back.
+	 */
+	function readSparseMap(
+		headerBlock: Uint8Array,
+		header: TarHeader,
+	): SparseMap | null | undefined {
+		// Old GNU sparse headers chain extension blocks after the header.
+		if (header.type === "gnu-sparse") {
+			const { segments, realSize, isExtended } =
+				parseGnuSparseHeader(headerBlock);
+			const extensionBlocks: Uint8Array[] = [];
+			let hasExtension = isExtended;
+
+			while (hasExtension) {
+				const block = consume(BLOCK_SIZE);
+				if (block === null) {
+					for (let i = extensionBlocks.length - 1; i >= 0; i--) {
+						unshift(extensionBlocks[i]);
+					}
+					return null;
+				}
+
+				extensionBlocks.push(block);
+				hasExtension = parseGnuSparseExtension(block, segments);
+			}
+
+			return { segments, realSize, mapSize: 0 };
+		}
+
+		const { sparseMajor, sparseRealSize, sparse } = nextEntryOverrides;
+
+		// PAX 1.0 stores the map in block-padded decimal lines ahead of the data.
+		if (sparseMajor === 1 && sparseRealSize !== undefined) {
+			const mapOffset = position;
+			const mapBlocks: Uint8Array[] = [];
+			let map: ReturnType<typeof parseSparseMap> = null;
+
+			// The map is part of the entry's data, so it must end within the entry's size.
+			const entrySize =
+				nextEntryOverrides.size ?? paxGlobals.size ?? header.size;
+
+			while (map === null) {
+				if ((mapBlocks.length + 1) * BLOCK_SIZE > entrySize) {
+					throw sparseMapOverflow({ offset: mapOffset });
+				}
+
+				const block = consume(BLOCK_SIZE);
+				if (block === null) {
+					for (let i = mapBlocks.length - 1; i >= 0; i--) {
+						unshift(mapBlocks[i]);
+					}
+					return null;
+				}
+
+				mapBlocks.push(block);
+
+				const data = new Uint8Array(mapBlocks.length * BLOCK_SIZE);
+				mapBlocks.forEach((b, i) => {
+					data.set(b, i * BLOCK_SIZE);
+				});
+				map = parseSparseMap(data, { offset: mapOffset });
+			}
+
+			return {
+				segments: map.segments,
+				realSize: sparseRealSize,
+				mapSize: mapBlocks.length * BLOCK_SIZE,
+			};
+		}
+
+		// PAX 0.0 and 0.1 store the map directly in the records.
+		if (sparse && sparseRealSize !== undefined) {
+			return { segments: sparse, realSize: sparseRealSize, mapSize: 0 };
+		}
+
+		return undefined;
 	}
 
 	return new TransformStream({
@@ -198,10 +315,8 @@ export function createTarDecoder(
 
 					// If entry is complete, close its body stream and skip padding.
 					if (currentEntry.bytesLeft === 0) {
-						const padding = -currentEntry.header.size & BLOCK_SIZE_MASK;
-
 						// consume() and discard the result to skip padding
-						if (consume(padding) === null) {
+						if (consume(currentEntry.padding) === null) {
 							// Not enough data for padding, break and wait for more.
 							break;
 						}
@@ -245,7 +360,9 @@ export function createTarDecoder(
 				}
 
 				// First parse USTAR headers as a base. Extension headers will override this as needed.
-				const header = parseUstarHeader(headerBlock, strict);
+				const headerOffset = position - BLOCK_SIZE;
+				const header = parseUstarHeader(headerBlock, strict, headerOffset);
+				entryOffset ??= headerOffset;
 
 				// Check if the entry is a meta-entry (PAX, GNU, etc.)
 				const metaParser = getMetaParser(header.type);
@@ -293,39 +410,59 @@ export function createTarDecoder(
 					continue; // Move to the next header.
 				}
 
-				// If we reach here, it is a regular entry.
-				const finalHeader: TarHeader = header;
-
-				applyOverrides(finalHeader, paxGlobals);
-				applyOverrides(finalHeader, nextEntryOverrides);
-
-				// Only apply if name wasn't already overridden by PAX/GNU.
-				if (
-					header.prefix &&
-					header.magic === "ustar" &&
-					!nextEntryOverrides.name &&
-					!paxGlobals.name
-				) {
-					finalHeader.name = `${header.prefix}/${finalHeader.name}`;
+				// Sparse files need their map before the entry can be emitted.
+				const sparse = readSparseMap(headerBlock, header);
+				if (sparse === null) {
+					// Not enough data for the sparse map, put header back.
+					unshift(headerBlock);
+					break;
 				}
 
+				// If we reach here, it is a regular entry.
+				const finalHeader = resolveHeader(
+					header,
+					paxGlobals,
+					nextEntryOverrides,
+				);
+
 				nextEntryOverrides = {}; // Reset for next cycle.
 
+				// The archived size of the data, which differs from the file size for sparse files.
+				let dataSize = finalHeader.size;
+
 				let bodyController!: ReadableStreamDefaultController<Uint8Array>;
-				const body = new ReadableStream({
+				let body = new ReadableStream<Uint8Array>({
 					// biome-ignore lint/suspicious/noAssignInExpressions: This is more concise.
 					start: (c) => (bodyController = c),
 				});
 
+				if (sparse) {
+					validateSparseMap(sparse.segments, sparse.realSize, {
+						header: finalHeader,
+						offset: entryOffset,
+					});
+
+					dataSize -= sparse.mapSize;
+					finalHeader.type = "file";
+					finalHeader.size = sparse.realSize;
+					finalHeader.sparse = sparse.segments;
+					if (inflateSparse) {
+						body = createSparseInflater(body, sparse.segments, sparse.realSize);
+					}
+				}
+
 				controller.enqueue({
 					header: finalHeader,
 					body,
+					offset: entryOffset,
 				});
+				entryOffset = undefined;
 
-				if (finalHeader.size > 0) {
+				if (dataSize > 0) {
 					currentEntry = {
 						header: finalHeader,
-						bytesLeft: finalHeader.size,
+						bytesLeft: dataSize,
+						padding: -dataSize & BLOCK_SIZE_MASK,
 						controller: bodyController,
 					};
 				} else {
@@ -345,7 +482,11 @@ export function createTarDecoder(
 			// If we were in the middle of reading an entry, that's an error.
 			if (currentEntry) {
 				if (strict) {
-					const error = new Error("Tar archive is truncated.");
+					const error = new TarFormatError(
+						"TAR_TRUNCATED",
+						"Tar archive is truncated.",
+						{ header: currentEntry.header, offset: position },
+					);
 					currentEntry.controller.error(error);
 					controller.error(error);
 				} else {
@@ -363,7 +504,7 @@ export function createTarDecoder(
 				// Check the remaining part of the first chunk (if any)
 				if (chunks.length > 0 && offset < chunks[0].length) {
 					if (chunks[0].subarray(offset).some((b) => b !== 0)) {
-						controller.error(new Error("Invalid EOF."));
+						controller.error(invalidEof(position));
 						return;
 					}
 				}
@@ -371,7 +512,7 @@ export function createTarDecoder(
 				// Check all subsequent chunks
 				for (let i = 1; i < chunks.length; i++) {
 					if (chunks[i].some((b) => b !== 0)) {
-						controller.error(new Error("Invalid EOF."));
+						controller.error(invalidEof(position));
 						return;
 					}
 				}
@@ -380,13 +521,24 @@ export function createTarDecoder(
 	});
 }
 
-// Parses a 512-byte block into a USTAR header object using USTAR constants.
-function parseUstarHeader(
+// Creates the error for data other than padding after the end of the archive.
+function invalidEof(offset: number): TarFormatError {
+	return new TarFormatError("TAR_TRAILING_DATA", "Invalid EOF.", { offset });
+}
+
+// Parses a 512-byte block into a USTAR header object using USTAR constants. The offset of
+// the block is only used to report errors.
+export function parseUstarHeader(
 	block: Uint8Array,
 	strict: boolean,
+	offset?: number,
 ): InternalTarHeader {
 	if (strict && !validateChecksum(block)) {
-		throw new Error("Invalid tar header checksum.");
+		throw new TarFormatError(
+			"TAR_BAD_CHECKSUM",
+			"Invalid tar header checksum.",
+			{ offset },
+		);
 	}
 
 	const typeflag = readString(
@@ -397,7 +549,11 @@ function parseUstarHeader(
 
 	const magic = readString(block, USTAR_MAGIC_OFFSET, USTAR_MAGIC_SIZE);
 	if (strict && magic !== "ustar") {
-		throw new Error(`Invalid USTAR magic literal. Got "${magic}".`);
+		throw new TarFormatError(
+			"TAR_BAD_MAGIC",
+			`Invalid USTAR magic literal. Got "${magic}".`,
+			{ offset },
+		);
 	}
 
 	return {
@@ -407,7 +563,7 @@ function parseUstarHeader(
 		gid: readNumeric(block, USTAR_GID_OFFSET, USTAR_GID_SIZE),
 		size: readNumeric(block, USTAR_SIZE_OFFSET, USTAR_SIZE_SIZE),
 		mtime: new Date(
-			readNumeric(block, USTAR_MTIME_OFFSET, USTAR_MTIME_SIZE) * 1000,
+			readNumeric(block, USTAR_MTIME_OFFSET, USTAR_MTIME_SIZE, true) * 1000,
 		),
 		checksum: readOctal(block, USTAR_CHECKSUM_OFFSET, USTAR_CHECKSUM_SIZE),
 		type: FLAGTYPE[typeflag] || "file",
@@ -424,6 +580,7 @@ function parsePax(buffer: Uint8Array): HeaderOverrides {
 	const overrides: HeaderOverrides = {};
 	const pax: Record<string, string> = {};
 	let offset = 0;
+	let sparseOffset = 0;
 
 	while (offset < buffer.length) {
 		// Find the first space character to find the length of the record.
@@ -472,6 +629,30 @@ function parsePax(buffer: Uint8Array): HeaderOverrides {
 				case "gname":
 					overrides.gname = value;
 					break;
+				case "GNU.sparse.major":
+					overrides.sparseMajor = parseInt(value, 10);
+					break;
+				case "GNU.sparse.name":
+					overrides.sparseName = value;
+					break;
+				case "GNU.sparse.size":
+				case "GNU.sparse.realsize":
+					overrides.sparseRealSize = parseInt(value, 10);
+					break;
+				case "GNU.sparse.map":
+					overrides.sparse = parsePaxSparseMap(value);
+					break;
+				case "GNU.sparse.offset":
+					// Format 0.0 repeats offset/numbytes records, so pair them up in order.
+					sparseOffset = parseInt(value, 10);
+					break;
+				case "GNU.sparse.numbytes":
+					overrides.sparse ??= [];
+					overrides.sparse.push({
+						offset: sparseOffset,
+						size: parseInt(value, 10),
+					});
+					break;
 			}
 		}
 
@@ -483,9 +664,33 @@ function parsePax(buffer: Uint8Array): HeaderOverrides {
 	return overrides;
 }
 
+// Applies global and per-entry extension overrides and the USTAR prefix to a parsed header.
+export function resolveHeader(
+	header: InternalTarHeader,
+	globals: HeaderOverrides,
+	overrides: HeaderOverrides,
+): TarHeader {
+	applyOverrides(header, globals);
+	applyOverrides(header, overrides);
+
+	// Only apply if name wasn't already overridden by PAX/GNU.
+	if (
+		header.prefix &&
+		header.magic === "ustar" &&
+		!overrides.name &&
+		!overrides.sparseName &&
+		!globals.name
+	) {
+		header.name = `${header.prefix}/${header.name}`;
+	}
+
+	return header;
+}
+
 // Applies header extension overrides to a parsed USTAR header.
 function applyOverrides(header: TarHeader, overrides: HeaderOverrides) {
 	if (overrides.name !== undefined) header.name = overrides.name;
+	if (overrides.sparseName !== undefined) header.name = overrides.sparseName;
 	if (overrides.linkname !== undefined) header.linkname = overrides.linkname;
 	if (overrides.size !== undefined) header.size = overrides.size;
 	if (overrides.mtime !== undefined)
@@ -499,7 +704,7 @@ function applyOverrides(header: TarHeader, overrides: HeaderOverrides) {
 }
 
 // A map of meta-header types to their respective data parsers.
-function getMetaParser(
+export function getMetaParser(
 	type: string | undefined,
 ): ((data: Uint8Array) => HeaderOverrides) | undefined {
 	switch (type) {
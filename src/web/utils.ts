@@ -1,3 +1,5 @@
+import { BLOCK_SIZE_MASK } from "./constants";
+
 export const encoder = new TextEncoder();
 export const decoder = new TextDecoder();
 
@@ -18,6 +20,8 @@ export function writeString(
 
 /**
  * Writes a number as a zero-padded octal string.
+ * Values that do not fit, including negative values, are left as zeros for a PAX record
+ * or base-256 number to hold instead.
  */
 export function writeOctal(
 	view: Uint8Array,
@@ -25,7 +29,7 @@ export function writeOctal(
 	size: number,
 	value?: number,
 ) {
-	if (value === undefined) return;
+	if (value === undefined || value < 0 || value >= 8 ** (size - 1)) return;
 
 	// Format to an octal string, pad with leading zeros to size - 1.
 	// The final byte is left as 0 (NUL terminator), assuming a zero-filled view.
@@ -33,6 +37,34 @@ export function writeOctal(
 	encoder.encodeInto(octalString, view.subarray(offset, offset + size - 1));
 }
 
+/**
+ * Writes a number as octal if it fits, or otherwise in GNU base-256 format: big-endian
+ * binary with the most significant bit of the first byte set. Negative values are
+ * written in two's complement, so their first byte is 0xff.
+ */
+export function writeNumeric(
+	view: Uint8Array,
+	offset: number,
+	size: number,
+	value?: number,
+) {
+	if (value === undefined) return;
+
+	if (value >= 0 && value < 8 ** (size - 1)) {
+		writeOctal(view, offset, size, value);
+		return;
+	}
+
+	// `& 0xff` keeps the low byte of negative values in two's complement, and the
+	// flooring division carries their sign into the higher bytes.
+	let remaining = value;
+	for (let i = offset + size - 1; i > offset; i--) {
+		view[i] = remaining & 0xff;
+		remaining = Math.floor(remaining / 256);
+	}
+	view[offset] = value < 0 ? 0xff : 0x80;
+}
+
 /**
  * Reads a NUL-terminated string from the view.
  */
@@ -64,7 +96,7 @@ export function readOctal(
 		const charCode = view[i];
 		if (charCode === 0) break; // Stop at NUL terminator
 		if (charCode === 32) continue; // Ignore whitespace
-		value = (value << 3) + (charCode - 48); // 48 is ASCII '0'
+		value = value * 8 + (charCode - 48); // 48 is ASCII '0', multiplied to pass 32 bits
 	}
 
 	return value;
@@ -72,12 +104,14 @@ export function readOctal(
 
 /**
  * Reads a numeric field that can be octal or POSIX base-256.
- * This implementation handles positive integers, such as uid, gid, and size.
+ * Only signed fields, such as mtime, can be negative. Others, such as uid, gid, and size,
+ * are always read as positive integers.
  */
 export function readNumeric(
 	view: Uint8Array,
 	offset: number,
 	size: number,
+	signed = false,
 ): number {
 	// According to the POSIX tar specification, if the most significant bit of the
 	// first byte is set (i.e., the byte is >= 128), then the number is stored in a
@@ -86,28 +120,39 @@ export function readNumeric(
 	// The `& 0x80` operation is a bitmask to check if the highest bit is set.
 	// (0x80 = 10000000)
 	if (view[offset] & 0x80) {
-		let result = 0;
-		for (let i = 0; i < size; i++) {
-			// (result << 8) is equivalent to (result * 256) but faster.
-			// | view[offset + i] is equivalent to + view[offset + i] for positive numbers.
-			result = (result << 8) | view[offset + i];
+		// GNU tar writes negative numbers in two's complement, with a first byte of 0xff.
+		// Their inverted bytes are the magnitude minus one.
+		if (signed && view[offset] === 0xff) {
+			let inverted = 0;
+			for (let i = 0; i < size; i++) {
+				inverted = inverted * 256 + (~view[offset + i] & 0xff);
+			}
+			return -inverted - 1;
 		}
 
-		// Clear the base-256 indicator bit.
-		//
-		// - (size - 1) * 8: Calculates the bit position of the MSB of the entire number.
-		// - 0x80 << ...: Creates a bitmask `10000000` to MSB position.
-		// - ~: NOT operator inverts this mask (e.g., `0x7FFFFFFF`).
-		// - result & ...: A bitwise AND with the inverted mask forces the MSB to zero.
+		// Clear the base-256 indicator bit of the first byte.
 		//
 		// This prevents the number from being interpreted as negative that could lead to a
-		// an overflow and thus a vulnerability.
-		return result & ~(0x80 << ((size - 1) * 8));
+		// an overflow and thus a vulnerability. Bytes are accumulated by multiplication
+		// rather than shifting, as values such as sizes over 8 GiB do not fit in 32 bits.
+		let result = view[offset] & 0x7f;
+		for (let i = 1; i < size; i++) {
+			result = result * 256 + view[offset + i];
+		}
+		return result;
 	}
 
 	return readOctal(view, offset, size);
 }
 
+/**
+ * Rounds a size up to a whole number of blocks. Only the remainder is computed bitwise,
+ * so sizes over 2 GiB do not overflow.
+ */
+export function padded(size: number): number {
+	return size + (-size & BLOCK_SIZE_MASK);
+}
+
 /**
  * Reads an entire ReadableStream of Uint8Arrays into a single, combined Uint8Array.
  *
@@ -0,0 +1,281 @@
+import { crc32, crc64 } from "./checksum";
+import { createDecoderStream } from "./compression";
+import type { ByteReader } from "./deflate";
+import { decodeLzma2 } from "./lzma";
+
+// Magic bytes at the start of a stream header, and at the end of a stream footer ("YZ").
+const HEADER_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const FOOTER_MAGIC = [0x59, 0x5a];
+
+// Stream headers and footers are both 12 bytes.
+const STREAM_HEADER_SIZE = 12;
+
+// Sizes of the integrity checks, indexed by check ID.
+const CHECK_SIZES = [0, 4, 4, 4, 8, 8, 8, 16, 16, 16, 32, 32, 32, 64, 64, 64];
+const CHECK_CRC32 = 0x01;
+const CHECK_CRC64 = 0x04;
+
+// Block header flags.
+const FLAG_FILTER_COUNT = 0x03;
+const FLAG_RESERVED = 0x3c;
+const FLAG_COMPRESSED_SIZE = 0x40;
+const FLAG_UNCOMPRESSED_SIZE = 0x80;
+
+const FILTER_LZMA2 = 0x21;
+
+// Largest encoded dictionary size of the LZMA2 filter properties, meaning 4 GiB - 1.
+const MAX_DICTIONARY_BITS = 40;
+
+// Variable-length integers use at most 9 bytes of 7 bits.
+const VLI_MAX_BYTES = 9;
+
+/**
+ * Creates an xz decompression stream, written in TypeScript as neither Web Streams nor
+ * `node:zlib` support xz.
+ *
+ * Blocks compressed with the LZMA2 filter are supported, which covers files written by
+ * `xz` and `tar -J` with their default settings. Concatenated streams and stream padding
+ * are accepted. CRC32 and CRC64 checks are verified, while SHA-256 checks are skipped.
+ *
+ * @returns A {@link ReadableWritablePair} configured for xz decompression.
+ * @example
+ * ```typescript
+ * import { createTarDecoder, createXzDecoder } from 'modern-tar';
+ *
+ * const response = await fetch('https://example.com/source.tar.xz');
+ * const entries = response.body
+ *   .pipeThrough(createXzDecoder())
+ *   .pipeThrough(createTarDecoder());
+ * ```
+ */
+export function createXzDecoder(): ReadableWritablePair<
+	Uint8Array,
+	Uint8Array
+> {
+	return createDecoderStream(decodeXz);
+}
+
+async function decodeXz(
+	input: ByteReader,
+	enqueue: (chunk: Uint8Array) => Promise<void>,
+): Promise<void> {
+	const read = async (length: number): Promise<Uint8Array> => {
+		if (!(await input.ensure(length))) {
+			throw new Error("Xz data is truncated.");
+		}
+		return input.bytes(length);
+	};
+
+	let streams = 0;
+
+	while (await input.ensure(1)) {
+		const start = await read(4);
+
+		// Streams can be followed by padding in multiples of 4 null bytes.
+		if (streams > 0 && start.every((byte) => byte === 0)) continue;
+
+		const header = new Uint8Array(STREAM_HEADER_SIZE);
+		header.set(start);
+		header.set(await read(STREAM_HEADER_SIZE - 4), 4);
+
+		if (
+			HEADER_MAGIC.some((byte, i) => header[i] !== byte) ||
+			header[6] !== 0 ||
+			header[7] > 0x0f ||
+			crc32(header.subarray(6, 8)) !== readUint32(header, 8)
+		) {
+			throw new Error("Invalid xz stream header.");
+		}
+
+		const check = header[7];
+		const records = await decodeBlocks(read, input, check, enqueue);
+		const indexSize = await decodeIndex(read, records);
+
+		const footer = await read(STREAM_HEADER_SIZE);
+		if (
+			crc32(footer.subarray(4, 10)) !== readUint32(footer, 0) ||
+			(readUint32(footer, 4) + 1) * 4 !== indexSize ||
+			footer[8] !== header[6] ||
+			footer[9] !== header[7] ||
+			footer[10] !== FOOTER_MAGIC[0] ||
+			footer[11] !== FOOTER_MAGIC[1]
+		) {
+			throw new Error("Invalid xz stream footer.");
+		}
+
+		streams++;
+	}
+}
+
+// Decodes the blocks of a stream up to its index indicator, returning an index record
+// (unpadded size and uncompressed size) for each block.
+async function decodeBlocks(
+	read: (length: number) => Promise<Uint8Array>,
+	input: ByteReader,
+	check: number,
+	enqueue: (chunk: Uint8Array) => Promise<void>,
+): Promise<Array<[unpaddedSize: number, uncompressedSize: number]>> {
+	const records: Array<[number, number]> = [];
+	const checkSize = CHECK_SIZES[check];
+
+	while (true) {
+		const [first] = await read(1);
+		if (first === 0) return records; // Index indicator
+
+		const headerSize = (first + 1) * 4;
+		const header = new Uint8Array(headerSize);
+		header[0] = first;
+		header.set(await read(headerSize - 1), 1);
+
+		const flags = header[1];
+		if (
+			crc32(header.subarray(0, headerSize - 4)) !==
+				readUint32(header, headerSize - 4) ||
+			flags & FLAG_RESERVED
+		) {
+			throw new Error("Invalid xz block header.");
+		}
+
+		let offset = 2;
+		let compressedSize: number | undefined;
+		let uncompressedSize: number | undefined;
+		if (flags & FLAG_COMPRESSED_SIZE) {
+			[compressedSize, offset] = readVli(header, offset);
+		}
+		if (flags & FLAG_UNCOMPRESSED_SIZE) {
+			[uncompressedSize, offset] = readVli(header, offset);
+		}
+
+		let dictionarySize = 0;
+		const filterCount = (flags & FLAG_FILTER_COUNT) + 1;
+		for (let i = 0; i < filterCount; i++) {
+			let id: number;
+			let propsSize: number;
+			[id, offset] = readVli(header, offset);
+			[propsSize, offset] = readVli(header, offset);
+
+			if (id !== FILTER_LZMA2 || filterCount > 1) {
+				throw new Error(`Xz filter 0x${id.toString(16)} is not supported.`);
+			}
+
+			const bits = header[offset] & 0x3f;
+			if (propsSize !== 1 || bits > MAX_DICTIONARY_BITS) {
+				throw new Error("Invalid xz block header.");
+			}
+			dictionarySize =
+				bits === MAX_DICTIONARY_BITS
+					? 0xffffffff
+					: (2 | (bits & 1)) * 2 ** ((bits >>> 1) + 11);
+			offset += propsSize;
+		}
+
+		// The rest of the header is null padding.
+		for (; offset < headerSize - 4; offset++) {
+			if (header[offset] !== 0) throw new Error("Invalid xz block header.");
+		}
+
+		// Only the dictionary needed for the block's data is allocated.
+		if (uncompressedSize !== undefined) {
+			dictionarySize = Math.min(dictionarySize, uncompressedSize);
+		}
+
+		let crc = 0;
+		let crc64Value: [number, number] = [0, 0];
+		let size = 0;
+
+		const start = input.position;
+		await decodeLzma2(input, dictionarySize, async (chunk) => {
+			if (check === CHECK_CRC32) crc = crc32(chunk, crc);
+			if (check === CHECK_CRC64) crc64Value = crc64(chunk, crc64Value);
+			size += chunk.length;
+			await enqueue(chunk);
+		});
+		const compressed = input.position - start;
+
+		if (
+			(compressedSize !== undefined && compressed !== compressedSize) ||
+			(uncompressedSize !== undefined && size !== uncompressedSize)
+		) {
+			throw new Error("Invalid xz block header.");
+		}
+
+		// Blocks are padded to a multiple of 4 bytes, before their check.
+		const padding = await read((4 - (compressed % 4)) % 4);
+		if (padding.some((byte) => byte !== 0)) {
+			throw new Error("Invalid xz block padding.");
+		}
+
+		const stored = await read(checkSize);
+		if (
+			(check === CHECK_CRC32 && readUint32(stored, 0) !== crc) ||
+			(check === CHECK_CRC64 &&
+				(readUint32(stored, 4) !== crc64Value[0] ||
+					readUint32(stored, 0) !== crc64Value[1]))
+		) {
+			throw new Error("Xz check does not match.");
+		}
+
+		records.push([headerSize + compressed + checkSize, size]);
+	}
+}
+
+// Decodes the index of a stream after its indicator, checking it against the blocks that
+// were decoded. Returns the size of the index, which the stream footer records.
+async function decodeIndex(
+	read: (length: number) => Promise<Uint8Array>,
+	records: Array<[number, number]>,
+): Promise<number> {
+	const bytes = [0]; // Including the indicator, for the CRC
+
+	const vli = async (): Promise<number> => {
+		let value = 0;
+		for (let i = 0; i < VLI_MAX_BYTES; i++) {
+			const [byte] = await read(1);
+			bytes.push(byte);
+			value += (byte & 0x7f) * 2 ** (7 * i);
+			if (!(byte & 0x80)) return value;
+		}
+		throw new Error("Invalid xz index.");
+	};
+
+	if ((await vli()) !== records.length) throw new Error("Invalid xz index.");
+	for (const [unpaddedSize, uncompressedSize] of records) {
+		if ((await vli()) !== unpaddedSize || (await vli()) !== uncompressedSize) {
+			throw new Error("Invalid xz index.");
+		}
+	}
+
+	while (bytes.length % 4 !== 0) {
+		const [byte] = await read(1);
+		if (byte !== 0) throw new Error("Invalid xz index.");
+		bytes.push(byte);
+	}
+
+	const stored = await read(4);
+	if (crc32(Uint8Array.from(bytes)) !== readUint32(stored, 0)) {
+		throw new Error("Invalid xz index.");
+	}
+
+	return bytes.length + 4;
+}
+
+// Reads a variable-length integer from a block header.
+function readVli(data: Uint8Array, offset: number): [number, number] {
+	let value = 0;
+	for (let i = 0; i < VLI_MAX_BYTES && offset + i < data.length; i++) {
+		const byte = data[offset + i];
+		value += (byte & 0x7f) * 2 ** (7 * i);
+		if (!(byte & 0x80)) return [value, offset + i + 1];
+	}
+	throw new Error("Invalid xz block header.");
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+	return (
+		(data[offset] |
+			(data[offset + 1] << 8) |
+			(data[offset + 2] << 16) |
+			(data[offset + 3] << 24)) >>>
+		0
+	);
+}
@@ -0,0 +1,282 @@
+import {
+	createMemberStream,
+	finishMember,
+	type Member,
+	startMember,
+} from "./compression";
+import type { ZstdOptions } from "./types";
+
+// Magic number of Zstandard frames, and of skippable frames (0x184D2A50 to 0x184D2A5F).
+const ZSTD_MAGIC = 0xfd2fb528;
+const ZSTD_SKIPPABLE_MAGIC = 0x184d2a50;
+const ZSTD_SKIPPABLE_MASK = 0xfffffff0;
+
+// Size of the optional content checksum at the end of a frame.
+const ZSTD_CHECKSUM_SIZE = 4;
+
+// Sizes of the dictionary ID and frame content size fields, indexed by their header flags.
+const DICTIONARY_ID_SIZES = [0, 1, 2, 4];
+const CONTENT_SIZE_SIZES = [0, 2, 4, 8];
+
+// Parts of a Zstandard stream, as walked by createZstdDecoder.
+type Step =
+	| "magic"
+	| "skip-size"
+	| "skip"
+	| "descriptor"
+	| "header"
+	| "block-header"
+	| "block"
+	| "checksum";
+
+// Steps that read a fixed-size header field, with their sizes. Other steps span a count of bytes.
+const FIELD_SIZES: Partial<Record<Step, number>> = {
+	magic: 4,
+	"skip-size": 4,
+	descriptor: 1,
+	"block-header": 3,
+};
+
+// Set with setZstdCodec.
+let zstdCodec: ZstdCodec | undefined;
+
+/**
+ * An implementation of Zstandard compression, set with {@link setZstdCodec}.
+ */
+export interface ZstdCodec {
+	/** Creates a stream that compresses its input into a single Zstandard frame. */
+	createEncoder(level?: number): ReadableWritablePair<Uint8Array, Uint8Array>;
+	/** Creates a stream that decompresses a single Zstandard frame. */
+	createDecoder(): ReadableWritablePair<Uint8Array, Uint8Array>;
+}
+
+/**
+ * Creates a Zstandard compression stream.
+ *
+ * Zstandard is not built into Web Streams, so an implementation must be provided with
+ * {@link setZstdCodec}. The `modern-tar/fs` entry point uses `node:zlib` where available.
+ *
+ * @param options - Optional {@link ZstdOptions} for the compression level and frame size
+ * @param codec - Codec to use instead of the one set with {@link setZstdCodec}
+ * @returns A {@link ReadableWritablePair} configured for Zstandard compression.
+ * @example
+ * ```typescript
+ * import { createTarPacker, createZstdEncoder, setZstdCodec } from 'modern-tar';
+ *
+ * setZstdCodec(myZstdCodec);
+ *
+ * const { readable, controller } = createTarPacker();
+ * const compressedStream = readable.pipeThrough(createZstdEncoder({ level: 19 }));
+ * ```
+ */
+export function createZstdEncoder(
+	options: ZstdOptions = {},
+	codec: ZstdCodec | undefined = zstdCodec,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const { level, frameSize } = options;
+	const resolved = resolveZstdCodec(codec);
+
+	if (frameSize === undefined) return resolved.createEncoder(level);
+	if (!(frameSize > 0)) {
+		throw new Error("Frame size must be greater than 0.");
+	}
+
+	// Each frame is compressed independently and the frames are concatenated, which
+	// Zstandard decoders read as a single stream.
+	let current: Member | undefined;
+
+	return createMemberStream({
+		async transform(chunk, output) {
+			let offset = 0;
+
+			while (offset < chunk.length) {
+				if (current && current.bytesIn >= frameSize) {
+					await finishMember(current);
+					current = undefined;
+				}
+
+				current ??= startMember(resolved.createEncoder(level), output);
+				const length = Math.min(
+					chunk.length - offset,
+					frameSize - current.bytesIn,
+				);
+
+				current.bytesIn += length;
+				await current.writer.write(chunk.subarray(offset, offset + length));
+				offset += length;
+			}
+		},
+
+		async flush(output) {
+			current ??= startMember(resolved.createEncoder(level), output);
+			await finishMember(current);
+		},
+	});
+}
+
+/**
+ * Creates a Zstandard decompression stream, which reads single and multi-frame input.
+ *
+ * Zstandard is not built into Web Streams, so an implementation must be provided with
+ * {@link setZstdCodec}. The `modern-tar/fs` entry point uses `node:zlib` where available.
+ *
+ * Frames are found from their headers and each one is decompressed by its own codec
+ * decoder, so codecs only need to support single-frame input. Skippable frames are ignored.
+ *
+ * @param codec - Codec to use instead of the one set with {@link setZstdCodec}
+ * @returns A {@link ReadableWritablePair} configured for Zstandard decompression.
+ */
+export function createZstdDecoder(
+	codec: ZstdCodec | undefined = zstdCodec,
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+	const resolved = resolveZstdCodec(codec);
+
+	let current: Member | undefined;
+	let step: Step = "magic";
+
+	// Header fields are collected here until complete.
+	const field = new Uint8Array(4);
+	let fieldLength = 0;
+
+	let remaining = 0; // Bytes left in the current counted step
+	let hasChecksum = false;
+	let lastBlock = false;
+
+	return createMemberStream({
+		async transform(chunk, output) {
+			// Moves to a step that spans `count` bytes, completing it at once if empty.
+			const count = async (next: Step, size: number) => {
+				step = next;
+				remaining = size;
+				if (size === 0) await complete();
+			};
+
+			// Handles the end of a counted step.
+			const complete = async () => {
+				if (step === "skip") {
+					step = "magic";
+				} else if (step === "header") {
+					step = "block-header";
+				} else if (step === "block" && !lastBlock) {
+					step = "block-header";
+				} else if (step === "block" && hasChecksum) {
+					await count("checksum", ZSTD_CHECKSUM_SIZE);
+				} else if (current) {
+					await finishMember(current);
+					current = undefined;
+					step = "magic";
+				}
+			};
+
+			// Handles a complete header field.
+			const parse = async () => {
+				if (step === "magic") {
+					const magic = readUint32(field);
+					if (magic === ZSTD_MAGIC) {
+						current = startMember(resolved.createDecoder(), output);
+						await current.writer.write(field.slice(0, 4));
+						step = "descriptor";
+					} else if ((magic & ZSTD_SKIPPABLE_MASK) === ZSTD_SKIPPABLE_MAGIC) {
+						step = "skip-size";
+					} else {
+						throw new Error("Invalid Zstandard frame.");
+					}
+				} else if (step === "skip-size") {
+					await count("skip", readUint32(field));
+				} else if (step === "descriptor") {
+					const descriptor = field[0];
+					const singleSegment = (descriptor & 0x20) !== 0;
+					hasChecksum = (descriptor & 0x04) !== 0;
+
+					const contentSizeFlag = descriptor >> 6;
+					const size =
+						(singleSegment ? 0 : 1) + // Window descriptor
+						DICTIONARY_ID_SIZES[descriptor & 0x03] +
+						(contentSizeFlag === 0
+							? singleSegment
+								? 1
+								: 0
+							: CONTENT_SIZE_SIZES[contentSizeFlag]);
+					await count("header", size);
+				} else if (step === "block-header") {
+					const header = field[0] | (field[1] << 8) | (field[2] << 16);
+					const type = (header >> 1) & 0x03;
+					if (type === 3) throw new Error("Invalid Zstandard block.");
+
+					lastBlock = (header & 0x01) !== 0;
+					// RLE blocks store a single byte regardless of their size.
+					await count("block", type === 1 ? 1 : header >>> 3);
+				}
+			};
+
+			let offset = 0;
+			while (offset < chunk.length) {
+				const fieldSize = FIELD_SIZES[step];
+
+				if (fieldSize !== undefined) {
+					const length = Math.min(
+						fieldSize - fieldLength,
+						chunk.length - offset,
+					);
+					const bytes = chunk.subarray(offset, offset + length);
+					field.set(bytes, fieldLength);
+					fieldLength += length;
+					offset += length;
+
+					// The magic is forwarded once it is known to start a Zstandard frame.
+					if (current && step !== "magic" && step !== "skip-size") {
+						current.bytesIn += length;
+						await current.writer.write(bytes);
+					}
+
+					if (fieldLength === fieldSize) {
+						fieldLength = 0;
+						await parse();
+					}
+				} else {
+					const length = Math.min(remaining, chunk.length - offset);
+					if (step !== "skip" && current) {
+						current.bytesIn += length;
+						await current.writer.write(chunk.subarray(offset, offset + length));
+					}
+
+					offset += length;
+					remaining -= length;
+					if (remaining === 0) await complete();
+				}
+			}
+		},
+
+		flush() {
+			if (step !== "magic" || fieldLength > 0) {
+				throw new Error("Zstandard data is truncated.");
+			}
+		},
+	});
+}
+
+/**
+ * Sets the Zstandard implementation used by {@link createZstdEncoder}, {@link createZstdDecoder}
+ * and the automatic detection of `unpackTar`.
+ *
+ * @param codec - The {@link ZstdCodec} to use, or `undefined` to remove it
+ */
+export function setZstdCodec(codec: ZstdCodec | undefined): void {
+	zstdCodec = codec;
+}
+
+function resolveZstdCodec(codec: ZstdCodec | undefined): ZstdCodec {
+	if (!codec) {
+		throw new Error(
+			"Zstandard is not supported in this environment. Provide a codec with setZstdCodec().",
+		);
+	}
+
+	return codec;
+}
+
+function readUint32(bytes: Uint8Array): number {
+	return (
+		(bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0
+	);
+}
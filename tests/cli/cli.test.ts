@@ -0,0 +1,207 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough, Readable } from "node:stream";
+import { gunzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createExcludeMatcher, parseArgs } from "../../src/cli/args";
+import { type CliIO, run } from "../../src/cli/run";
+import { unpackTar } from "../../src/web";
+
+describe("parseArgs", () => {
+	it("parses old-style letter bundles", () => {
+		const options = parseArgs(["czvf", "out.tgz", "src"]);
+
+		expect(options).toMatchObject({
+			command: "c",
+			file: "out.tgz",
+			compression: "gzip",
+			verbose: true,
+			paths: ["src"],
+		});
+	});
+
+	it("parses grouped short options and long options", () => {
+		const options = parseArgs([
+			"-xvf",
+			"in.tar",
+			"-Cout",
+			"--strip-components=2",
+			"--exclude",
+			"*.log",
+			"--exclude=tmp",
+			"--zstd",
+		]);
+
+		expect(options).toMatchObject({
+			command: "x",
+			file: "in.tar",
+			directory: "out",
+			strip: 2,
+			exclude: ["*.log", "tmp"],
+			compression: "zstd",
+			verbose: true,
+		});
+	});
+
+	it("parses a bare operation word", () => {
+		expect(parseArgs(["t", "-f", "a.tar"])).toMatchObject({
+			command: "t",
+			file: "a.tar",
+		});
+		expect(parseArgs(["--list"]).command).toBe("t");
+	});
+
+	it("rejects invalid arguments", () => {
+		expect(() => parseArgs([])).toThrow("One of c, x, t or r must be given.");
+		expect(() => parseArgs(["-cx"])).toThrow(
+			"Only one of c, x, t and r can be given.",
+		);
+		expect(() => parseArgs(["-cq"])).toThrow("Unknown option -q.");
+		expect(() => parseArgs(["-cf"])).toThrow("Option -f needs a value.");
+		expect(() => parseArgs(["-t", "--strip-components=-1"])).toThrow(
+			"Option --strip-components must be a non-negative integer.",
+		);
+	});
+});
+
+describe("createExcludeMatcher", () => {
+	it("matches trailing parts of names and directory contents", () => {
+		const excluded = createExcludeMatcher(["node_modules", "*.log", "a/b?"]);
+
+		expect(excluded("node_modules/")).toBe(true);
+		expect(excluded("pkg/node_modules/x/index.js")).toBe(true);
+		expect(excluded("logs/app.log")).toBe(true);
+		expect(excluded("x/a/b1/c.txt")).toBe(true);
+		expect(excluded("my_node_modules/x.js")).toBe(false);
+		expect(excluded("app.log.txt")).toBe(false);
+		expect(excluded("a/b")).toBe(false);
+	});
+});
+
+describe("run", () => {
+	let tmpDir: string;
+	let stdout: string;
+
+	const io = (stdin: Readable = Readable.from([])): CliIO => {
+		const out = new PassThrough();
+		out.on("data", (chunk) => {
+			stdout += chunk;
+		});
+		return { stdin, stdout: out, stderr: new PassThrough() };
+	};
+
+	const cli = (...argv: string[]) => run(argv, io());
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "modern-tar-cli-test-"));
+		stdout = "";
+
+		await fs.mkdir(path.join(tmpDir, "src", "sub"), { recursive: true });
+		await fs.mkdir(path.join(tmpDir, "src", "node_modules"));
+		await fs.writeFile(path.join(tmpDir, "src", "a.txt"), "a");
+		await fs.writeFile(path.join(tmpDir, "src", "sub", "b.txt"), "b");
+		await fs.writeFile(path.join(tmpDir, "src", "node_modules", "c.js"), "c");
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const sorted = (output: string) => output.trim().split("\n").sort();
+
+	it("creates, lists and extracts a gzipped archive", async () => {
+		const archive = path.join(tmpDir, "out.tgz");
+
+		await cli("czvf", archive, "-C", tmpDir, "--exclude=node_modules", "src");
+		expect(sorted(stdout)).toEqual([
+			"src/",
+			"src/a.txt",
+			"src/sub/",
+			"src/sub/b.txt",
+		]);
+
+		const entries = await unpackTar(gunzipSync(await fs.readFile(archive)));
+		expect(entries.map((e) => e.header.name).sort()).toEqual(sorted(stdout));
+
+		stdout = "";
+		await cli("-tf", archive, "--strip-components", "1");
+		expect(sorted(stdout)).toEqual(["a.txt", "sub/", "sub/b.txt"]);
+
+		const out = path.join(tmpDir, "out");
+		await cli("-xf", archive, "-C", out, "src/sub");
+		expect(await fs.readFile(path.join(out, "src/sub/b.txt"), "utf8")).toBe(
+			"b",
+		);
+		await expect(fs.access(path.join(out, "src/a.txt"))).rejects.toThrow();
+	});
+
+	it("archives and extracts symlinks inside directories", async () => {
+		const archive = path.join(tmpDir, "out.tar");
+		await fs.symlink("a.txt", path.join(tmpDir, "src", "link.txt"));
+
+		await cli("cf", archive, "-C", tmpDir, "--exclude=node_modules", "src");
+		await cli("tvf", archive, "src/link.txt");
+		expect(stdout).toMatch(/^l\S+ .* src\/link\.txt -> a\.txt\n$/);
+
+		const out = path.join(tmpDir, "out");
+		await cli("xf", archive, "-C", out);
+		expect(await fs.readlink(path.join(out, "src/link.txt"))).toBe("a.txt");
+		expect(await fs.readFile(path.join(out, "src/link.txt"), "utf8")).toBe("a");
+	});
+
+	it("writes to and reads from standard streams", async () => {
+		const chunks: Buffer[] = [];
+		const out = new PassThrough();
+		out.on("data", (chunk) => chunks.push(chunk));
+
+		await run(["c", "-C", tmpDir, "src/a.txt"], {
+			stdin: Readable.from([]),
+			stdout: out,
+			stderr: new PassThrough(),
+		});
+
+		await run(["t"], io(Readable.from([Buffer.concat(chunks)])));
+		expect(stdout).toBe("src/a.txt\n");
+	});
+
+	it("lists entries in detail or as JSON lines", async () => {
+		const archive = path.join(tmpDir, "out.tar");
+		await cli("cf", archive, "-C", tmpDir, "src/a.txt");
+
+		await cli("tvf", archive);
+		expect(stdout).toMatch(
+			/^-rw\S+ \S+\/\S+ +1 \d{4}-\d\d-\d\d \d\d:\d\d src\/a.txt\n$/,
+		);
+
+		stdout = "";
+		await cli("tf", archive, "--json");
+		expect(JSON.parse(stdout)).toMatchObject({
+			name: "src/a.txt",
+			type: "file",
+			size: 1,
+		});
+	});
+
+	it("appends to an archive", async () => {
+		const archive = path.join(tmpDir, "out.tar");
+
+		await cli("cf", archive, "-C", tmpDir, "src/a.txt");
+		await cli("rf", archive, "-C", tmpDir, "src/sub");
+		await cli("tf", archive);
+
+		expect(stdout.split("\n")).toEqual([
+			"src/a.txt",
+			"src/sub/",
+			"src/sub/b.txt",
+			"",
+		]);
+	});
+
+	it("rejects appending to a compressed archive", async () => {
+		await expect(cli("rzf", "out.tgz", "src")).rejects.toThrow(
+			"Cannot append to a compressed archive.",
+		);
+		await expect(cli("c")).rejects.toThrow("No paths to pack were given.");
+	});
+});
@@ -0,0 +1,261 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { TarSource } from "../../src/fs";
+import {
+	appendTar,
+	createTarIndex,
+	packTarSources,
+	updateTar,
+} from "../../src/fs";
+import { createGzipEncoder, packTar, unpackTar } from "../../src/web";
+import { decoder, streamToBuffer } from "../../src/web/utils";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+describe("appendTar", () => {
+	let tmpDir: string;
+	let archivePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(
+			path.join(os.tmpdir(), "modern-tar-append-test-"),
+		);
+		archivePath = path.join(tmpDir, "archive.tar");
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const readEntries = async () => {
+		const entries = await unpackTar(await fs.readFile(archivePath));
+		return entries.map((e) => [e.header.name, decoder.decode(e.data)]);
+	};
+
+	const writeArchive = async () => {
+		const archive = packTarSources([
+			{ type: "content", content: "one", target: "one.txt" },
+		]);
+		await fs.writeFile(archivePath, archive);
+	};
+
+	it("appends entries after the existing ones", async () => {
+		await writeArchive();
+
+		await appendTar(archivePath, [
+			{ type: "content", content: "two", target: "two.txt" },
+			{
+				type: "file",
+				source: path.join(FIXTURES_DIR, "a", "hello.txt"),
+				target: "hello.txt",
+			},
+		]);
+		await appendTar(archivePath, [
+			{ type: "content", content: "three", target: "three.txt" },
+		]);
+
+		const hello = await fs.readFile(
+			path.join(FIXTURES_DIR, "a", "hello.txt"),
+			"utf-8",
+		);
+		expect(await readEntries()).toEqual([
+			["one.txt", "one"],
+			["two.txt", "two"],
+			["hello.txt", hello],
+			["three.txt", "three"],
+		]);
+	});
+
+	it("replaces record padding after the end-of-archive marker", async () => {
+		await writeArchive();
+
+		// GNU tar pads archives to a record of 20 blocks.
+		const data = await fs.readFile(archivePath);
+		const record = new Uint8Array(10240);
+		record.set(data);
+		await fs.writeFile(archivePath, record);
+
+		await appendTar(archivePath, [
+			{ type: "content", content: "two", target: "two.txt" },
+		]);
+
+		// Two entries of one header and one data block, and the end-of-archive marker.
+		expect((await fs.stat(archivePath)).size).toBe(512 * 6);
+		expect(await readEntries()).toEqual([
+			["one.txt", "one"],
+			["two.txt", "two"],
+		]);
+	});
+
+	it("creates the archive if it does not exist", async () => {
+		await appendTar(archivePath, [
+			{ type: "content", content: "new", target: "new.txt" },
+		]);
+
+		expect(await readEntries()).toEqual([["new.txt", "new"]]);
+	});
+
+	it("keeps the original entries if a source fails", async () => {
+		await writeArchive();
+		const original = await fs.readFile(archivePath);
+
+		await expect(
+			appendTar(archivePath, [
+				{ type: "content", content: "two", target: "two.txt" },
+				{
+					type: "file",
+					source: path.join(tmpDir, "missing.txt"),
+					target: "missing.txt",
+				},
+			]),
+		).rejects.toThrow();
+
+		expect(await readEntries()).toEqual([["one.txt", "one"]]);
+		expect(await createTarIndex(archivePath)).toHaveLength(1);
+		expect((await fs.stat(archivePath)).size).toBeLessThanOrEqual(
+			original.length,
+		);
+	});
+
+	it("rejects archives with data after their last entry", async () => {
+		const archive = await packTar([
+			{ header: { name: "one.txt", size: 3 }, body: "one" },
+			{
+				header: { name: "global", type: "pax-global-header", size: 17 },
+				body: "17 comment=hello\n",
+			},
+		]);
+		await fs.writeFile(archivePath, archive);
+
+		await expect(
+			appendTar(archivePath, [
+				{ type: "content", content: "two", target: "two.txt" },
+			]),
+		).rejects.toThrow(
+			"Cannot append to an archive with data after its last entry at offset 1024.",
+		);
+		expect(await fs.readFile(archivePath)).toEqual(Buffer.from(archive));
+	});
+
+	it("rejects compressed archives", async () => {
+		await writeArchive();
+		const tar = await fs.readFile(archivePath);
+		const gzipped = await streamToBuffer(
+			new Blob([new Uint8Array(tar)]).stream().pipeThrough(createGzipEncoder()),
+		);
+		await fs.writeFile(archivePath, gzipped);
+
+		await expect(
+			appendTar(archivePath, [
+				{ type: "content", content: "two", target: "two.txt" },
+			]),
+		).rejects.toThrow("Cannot append to a gzip compressed archive.");
+		expect(await fs.readFile(archivePath)).toEqual(Buffer.from(gzipped));
+	});
+});
+
+describe("updateTar", () => {
+	let tmpDir: string;
+	let archivePath: string;
+	let sourceDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(
+			path.join(os.tmpdir(), "modern-tar-update-test-"),
+		);
+		archivePath = path.join(tmpDir, "archive.tar");
+		sourceDir = path.join(tmpDir, "data");
+
+		await fs.mkdir(path.join(sourceDir, "sub"), { recursive: true });
+		await fs.writeFile(path.join(sourceDir, "a.txt"), "a");
+		await fs.writeFile(path.join(sourceDir, "sub", "b.txt"), "b");
+
+		const past = new Date("2024-01-01T00:00:00Z");
+		for (const file of ["a.txt", "sub/b.txt", "sub", "."]) {
+			await fs.utimes(path.join(sourceDir, file), past, past);
+		}
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const listNames = async () =>
+		(await createTarIndex(archivePath)).map((e) => e.header.name);
+
+	it("only appends files newer than their archived copy", async () => {
+		const sources: TarSource[] = [
+			{ type: "directory", source: sourceDir, target: "data" },
+			{ type: "content", content: "notes", target: "notes.txt" },
+		];
+
+		await updateTar(archivePath, sources);
+		expect((await listNames()).sort()).toEqual([
+			"data/",
+			"data/a.txt",
+			"data/sub/",
+			"data/sub/b.txt",
+			"notes.txt",
+		]);
+
+		// Nothing changed, so nothing is appended.
+		await updateTar(archivePath, sources);
+		expect(await listNames()).toHaveLength(5);
+
+		// Touch one file and add another.
+		const now = new Date();
+		await fs.writeFile(path.join(sourceDir, "sub", "b.txt"), "b2");
+		await fs.utimes(path.join(sourceDir, "sub", "b.txt"), now, now);
+		await fs.writeFile(path.join(sourceDir, "c.txt"), "c");
+		await fs.utimes(sourceDir, new Date(0), new Date(0));
+
+		await updateTar(archivePath, sources);
+		expect((await listNames()).slice(5).sort()).toEqual([
+			"data/c.txt",
+			"data/sub/b.txt",
+		]);
+
+		// The newest copy wins on extraction.
+		const entries = await unpackTar(await fs.readFile(archivePath));
+		const b = entries.filter((e) => e.header.name === "data/sub/b.txt");
+		expect(decoder.decode(b.at(-1)?.data)).toBe("b2");
+	});
+
+	it("matches names with a leading ./ or without a trailing slash", async () => {
+		const mtime = new Date("2024-01-01T00:00:00Z");
+		const archive = await packTar([
+			{ header: { name: "./data", type: "directory", size: 0, mtime } },
+			{ header: { name: "./data/a.txt", size: 1, mtime }, body: "a" },
+			{ header: { name: "./data/sub", type: "directory", size: 0, mtime } },
+			{ header: { name: "./data/sub/b.txt", size: 1, mtime }, body: "b" },
+		]);
+		await fs.writeFile(archivePath, archive);
+
+		await updateTar(archivePath, [
+			{ type: "directory", source: sourceDir, target: "data" },
+		]);
+		expect(await listNames()).toHaveLength(4);
+	});
+
+	it("compares whole seconds like the archived mtimes", async () => {
+		const file = path.join(sourceDir, "a.txt");
+		const sources: TarSource[] = [
+			{ type: "file", source: file, target: "a.txt" },
+		];
+
+		await fs.utimes(file, 1_700_000_000.25, 1_700_000_000.25);
+		await updateTar(archivePath, sources);
+
+		await fs.utimes(file, 1_700_000_000.75, 1_700_000_000.75);
+		await updateTar(archivePath, sources);
+		expect(await listNames()).toEqual(["a.txt"]);
+
+		await fs.utimes(file, 1_700_000_001, 1_700_000_001);
+		await updateTar(archivePath, sources);
+		expect(await listNames()).toEqual(["a.txt", "a.txt"]);
+	});
+});
@@ -6,6 +6,7 @@ import { pipeline } from "node:stream/promises";
 import { fileURLToPath } from "node:url";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { packTarSources, type TarSource, unpackTar } from "../../src/fs";
+import { unpackTar as unpackTarWeb } from "../../src/web";
 import { encoder } from "../../src/web/utils";
 
 const isWindows = process.platform === "win32";
@@ -227,6 +228,51 @@ describe("packTarSources", () => {
 		expect(emptyContent).toBe("");
 	});
 
+	it("spools stream content larger than memory to a temporary file", async () => {
+		const listSpools = async () =>
+			(await fs.readdir(os.tmpdir())).filter((name) =>
+				name.startsWith("modern-tar-spool-"),
+			);
+		const spoolsBefore = await listSpools();
+
+		const chunk = new Uint8Array(64 * 1024).fill(97);
+		let pulls = 0;
+		const stream = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (pulls++ < 10) controller.enqueue(chunk.slice());
+				else controller.close();
+			},
+		});
+
+		const archiveStream = packTarSources(
+			[
+				{ type: "content", content: stream, target: "big.txt", mode: 0o600 },
+				{ type: "content", content: "after", target: "after.txt" },
+			],
+			{ spoolMemory: 100 * 1024 },
+		);
+		const tarPath = path.join(tmpDir, "test.tar");
+		const destDir = path.join(tmpDir, "extracted");
+
+		await pipeline(archiveStream, createWriteStream(tarPath));
+		await pipeline(createReadStream(tarPath), unpackTar(destDir));
+
+		const big = await fs.readFile(path.join(destDir, "big.txt"));
+		expect(big.length).toBe(640 * 1024);
+		expect(big.every((byte) => byte === 97)).toBe(true);
+		expect(await fs.readFile(path.join(destDir, "after.txt"), "utf-8")).toBe(
+			"after",
+		);
+		if (!isWindows) {
+			const stat = await fs.stat(path.join(destDir, "big.txt"));
+			expect(stat.mode & 0o777).toBe(0o600);
+		}
+
+		// The temporary file is removed once it has been read.
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(await listSpools()).toEqual(spoolsBefore);
+	});
+
 	it("packs content source with custom mode", async () => {
 		const sources: TarSource[] = [
 			{
@@ -409,6 +455,26 @@ describe("packTarSources", () => {
 		expect(extractedStat.mode).toBe(originalStat.mode);
 	});
 
+	it.skipIf(isWindows)("skips symlinks inside directory sources", async () => {
+		const sourceDir = path.join(tmpDir, "src");
+		await fs.mkdir(sourceDir);
+		await fs.writeFile(path.join(sourceDir, "a.txt"), "a");
+		await fs.symlink("a.txt", path.join(sourceDir, "link.txt"));
+
+		const chunks: Buffer[] = [];
+		for await (const chunk of packTarSources([
+			{ type: "directory", source: sourceDir, target: "src" },
+		])) {
+			chunks.push(chunk);
+		}
+
+		const entries = await unpackTarWeb(new Uint8Array(Buffer.concat(chunks)));
+		expect(entries.map((e) => e.header.name).sort()).toEqual([
+			"src/",
+			"src/a.txt",
+		]);
+	});
+
 	it("handles directory with no files", async () => {
 		// Create empty directory
 		const emptyDir = path.join(tmpDir, "empty");
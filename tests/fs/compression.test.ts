@@ -3,10 +3,30 @@ import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 
+import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
-import { createGunzip, createGzip } from "node:zlib";
+import {
+	createGunzip,
+	createGzip,
+	createZstdCompress,
+	gunzipSync,
+} from "node:zlib";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { packTar, unpackTar } from "../../src/fs";
+import {
+	createCompressor,
+	createDecompressor,
+	createParallelGzipEncoder,
+	createZstdDecoder,
+	createZstdEncoder,
+	packTar,
+	unpackTar,
+} from "../../src/fs";
+import {
+	createGzipIndex,
+	packTar as packTarWeb,
+	setZstdCodec,
+} from "../../src/web/index";
+import { LODASH_TAR_BZ2, LODASH_TAR_XZ } from "../web/fixtures";
 
 describe("fs compression", () => {
 	let tmpDir: string;
@@ -208,6 +228,311 @@ describe("fs compression", () => {
 		});
 	});
 
+	describe("automatic detection", () => {
+		it("extracts a gzipped archive without piping through gunzip", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			const compressedFile = path.join(tmpDir, "archive.tar.gz");
+			const extractDir = path.join(tmpDir, "extracted");
+
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "file.txt"), "detected");
+
+			await pipeline(
+				packTar(sourceDir),
+				createGzip(),
+				createWriteStream(compressedFile),
+			);
+			await pipeline(createReadStream(compressedFile), unpackTar(extractDir));
+
+			expect(
+				await fs.readFile(path.join(extractDir, "file.txt"), "utf-8"),
+			).toBe("detected");
+		});
+
+		for (const fixture of [LODASH_TAR_BZ2, LODASH_TAR_XZ]) {
+			it(`extracts ${path.extname(fixture)} archives`, async () => {
+				const extractDir = path.join(tmpDir, "extracted");
+
+				await pipeline(createReadStream(fixture), unpackTar(extractDir));
+
+				const content = await fs.readFile(
+					path.join(extractDir, "package", "package.json"),
+					"utf-8",
+				);
+				expect(JSON.parse(content).version).toBe("4.17.21");
+			});
+		}
+
+		it("rejects compression formats that are not allowed", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			const compressedFile = path.join(tmpDir, "archive.tar.gz");
+
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "file.txt"), "detected");
+
+			await pipeline(
+				packTar(sourceDir),
+				createGzip(),
+				createWriteStream(compressedFile),
+			);
+
+			await expect(
+				pipeline(
+					createReadStream(compressedFile),
+					unpackTar(path.join(tmpDir, "extracted"), { compression: [] }),
+				),
+			).rejects.toThrow('Compression format "gzip" is not allowed.');
+		});
+	});
+
+	describe("compressor helpers", () => {
+		for (const format of [
+			"gzip",
+			"deflate",
+			"deflate-raw",
+			"brotli",
+		] as const) {
+			it(`round-trips a directory as ${format}`, async () => {
+				const sourceDir = path.join(tmpDir, "source");
+				const compressedFile = path.join(tmpDir, `archive.tar.${format}`);
+				const extractDir = path.join(tmpDir, "extracted");
+
+				await fs.mkdir(sourceDir, { recursive: true });
+				await fs.writeFile(path.join(sourceDir, "file.txt"), format);
+
+				await pipeline(
+					packTar(sourceDir),
+					createCompressor(format, { level: 9 }),
+					createWriteStream(compressedFile),
+				);
+				await pipeline(
+					createReadStream(compressedFile),
+					createDecompressor(format),
+					unpackTar(extractDir),
+				);
+
+				expect(
+					await fs.readFile(path.join(extractDir, "file.txt"), "utf-8"),
+				).toBe(format);
+			});
+		}
+
+		it("passes the level to brotli", async () => {
+			const data = Buffer.from("brotli level ".repeat(10000));
+			const sizes: number[] = [];
+
+			for (const level of [0, 11]) {
+				const chunks: Buffer[] = [];
+				await pipeline(
+					async function* () {
+						yield data;
+					},
+					createCompressor("brotli", { level }),
+					async (source: AsyncIterable<Buffer>) => {
+						for await (const chunk of source) chunks.push(chunk);
+					},
+				);
+				sizes.push(Buffer.concat(chunks).length);
+			}
+
+			expect(sizes[1]).toBeLessThan(sizes[0]);
+		});
+	});
+
+	describe("parallel gzip compression", () => {
+		async function compress(
+			data: Buffer,
+			options: Parameters<typeof createParallelGzipEncoder>[0],
+		) {
+			const chunks: Buffer[] = [];
+			await pipeline(
+				async function* () {
+					// Uneven chunks so blocks are cut inside them.
+					for (let offset = 0; offset < data.length; offset += 70_000) {
+						yield data.subarray(offset, offset + 70_000);
+					}
+				},
+				createParallelGzipEncoder(options),
+				async (source: AsyncIterable<Buffer>) => {
+					for await (const chunk of source) chunks.push(chunk);
+				},
+			);
+			return Buffer.concat(chunks);
+		}
+
+		const data = Buffer.from(
+			Array.from({ length: 20_000 }, (_, i) => `line ${i % 997}\n`).join(""),
+		);
+
+		it("compresses blocks on several threads into one gzip member", async () => {
+			const compressed = await compress(data, {
+				threads: 3,
+				blockSize: 40_000,
+			});
+
+			expect(gunzipSync(compressed).equals(data)).toBe(true);
+			expect(await createGzipIndex(new Blob([compressed]))).toHaveLength(1);
+		});
+
+		it("primes blocks smaller than the dictionary", async () => {
+			const primed = await compress(data, { threads: 2, blockSize: 1000 });
+			const single = await compress(data, { threads: 1 });
+
+			expect(gunzipSync(primed).equals(data)).toBe(true);
+			// Repeats across blocks are still found through the dictionary.
+			expect(primed.length).toBeLessThan(single.length * 2);
+		});
+
+		it("round-trips a directory with header fields", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			const compressedFile = path.join(tmpDir, "archive.tar.gz");
+			const extractDir = path.join(tmpDir, "extracted");
+
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "file.txt"), data);
+
+			await pipeline(
+				packTar(sourceDir),
+				createParallelGzipEncoder({
+					threads: 2,
+					header: { name: "archive.tar", os: 3 },
+				}),
+				createWriteStream(compressedFile),
+			);
+			await pipeline(createReadStream(compressedFile), unpackTar(extractDir));
+
+			expect(
+				(await fs.readFile(path.join(extractDir, "file.txt"))).equals(data),
+			).toBe(true);
+			const header = await fs.readFile(compressedFile);
+			expect(header[9]).toBe(3);
+			expect(header.subarray(10, 22).toString("latin1")).toBe("archive.tar\0");
+		});
+
+		it("writes a valid gzip file for empty input", async () => {
+			const compressed = await compress(Buffer.alloc(0), { threads: 2 });
+			expect(gunzipSync(compressed).length).toBe(0);
+		});
+
+		it("surfaces worker errors", async () => {
+			await expect(compress(data, { threads: 2, level: 42 })).rejects.toThrow(
+				"options.level",
+			);
+		});
+
+		it("rejects invalid options", () => {
+			expect(() => createParallelGzipEncoder({ threads: 0 })).toThrow(
+				"Thread count must be a positive integer.",
+			);
+			expect(() => createParallelGzipEncoder({ blockSize: 0 })).toThrow(
+				"Block size must be greater than 0.",
+			);
+		});
+	});
+
+	describe("zstd compression", () => {
+		const hasNodeZstd = typeof createZstdCompress === "function";
+
+		it.skipIf(!hasNodeZstd)("round-trips through node:zlib", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			const compressedFile = path.join(tmpDir, "archive.tar.zst");
+			const extractDir = path.join(tmpDir, "extracted");
+
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "file.txt"), "zstd".repeat(1000));
+
+			await pipeline(
+				packTar(sourceDir),
+				createZstdEncoder({ level: 19, frameSize: 1024 }),
+				createWriteStream(compressedFile),
+			);
+
+			// Detected and decompressed automatically
+			await pipeline(createReadStream(compressedFile), unpackTar(extractDir));
+			expect(
+				await fs.readFile(path.join(extractDir, "file.txt"), "utf-8"),
+			).toBe("zstd".repeat(1000));
+
+			const chunks: Buffer[] = [];
+			await pipeline(
+				createReadStream(compressedFile),
+				createZstdDecoder(),
+				async (source: AsyncIterable<Buffer>) => {
+					for await (const chunk of source) chunks.push(chunk);
+				},
+			);
+			expect(Buffer.concat(chunks).length % 512).toBe(0);
+		});
+
+		// Runs a pipeline of corrupt input into unpackTar, which must reject rather than
+		// leave an unhandled rejection that ends the process.
+		async function expectCorruptInputRejected(compressed: Uint8Array) {
+			const unhandled: unknown[] = [];
+			const onUnhandled = (err: unknown) => unhandled.push(err);
+			process.on("unhandledRejection", onUnhandled);
+
+			try {
+				await expect(
+					pipeline(
+						Readable.from([compressed]),
+						unpackTar(path.join(tmpDir, "extracted")),
+					),
+				).rejects.toThrow();
+				await new Promise((resolve) => setTimeout(resolve, 10));
+			} finally {
+				process.off("unhandledRejection", onUnhandled);
+			}
+
+			expect(unhandled).toEqual([]);
+		}
+
+		it.skipIf(!hasNodeZstd)("rejects a corrupt archive", async () => {
+			const chunks: Buffer[] = [];
+			await pipeline(
+				Readable.from([
+					await packTarWeb([
+						{
+							header: { name: "file.txt", size: 64 * 1024 },
+							body: "corrupt ".repeat(8 * 1024),
+						},
+					]),
+				]),
+				createZstdEncoder(),
+				async (source: AsyncIterable<Buffer>) => {
+					for await (const chunk of source) chunks.push(chunk);
+				},
+			);
+
+			const compressed = new Uint8Array(Buffer.concat(chunks));
+			for (let i = 20; i < Math.min(420, compressed.length - 4); i++) {
+				compressed[i] ^= 0xff;
+			}
+
+			await expectCorruptInputRejected(compressed);
+		});
+
+		it.skipIf(hasNodeZstd)("rejects codec errors", async () => {
+			setZstdCodec({
+				createEncoder: () => new TransformStream(),
+				createDecoder: () =>
+					new TransformStream<Uint8Array, Uint8Array>({
+						transform() {
+							throw new Error("corrupt frame");
+						},
+					}),
+			});
+
+			try {
+				// A frame header followed by a final raw block of one byte.
+				await expectCorruptInputRejected(
+					new Uint8Array([0x28, 0xb5, 0x2f, 0xfd, 0, 0, 9, 0, 0, 1]),
+				);
+			} finally {
+				setZstdCodec(undefined);
+			}
+		});
+	});
+
 	describe("error handling", () => {
 		it("handles stream destruction without TransformStream errors", async () => {
 			const extractDir = path.join(tmpDir, "extract-test");
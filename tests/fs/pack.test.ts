@@ -1,10 +1,12 @@
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
+import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { fileURLToPath } from "node:url";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { packTar, unpackTar } from "../../src/fs";
+import { unpackTar as unpackTarWeb } from "../../src/web";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const FIXTURES_DIR = path.join(__dirname, "fixtures");
@@ -200,4 +202,210 @@ describe("pack", () => {
 			expect(stats.size).toBe(file.size);
 		}
 	});
+
+	describe("sparse files", () => {
+		const size = 8 * 1024 * 1024;
+
+		// Creates a file with two 4 KiB data regions and holes everywhere else.
+		async function createSparseFile(filePath: string) {
+			const handle = await fs.open(filePath, "w");
+			try {
+				await handle.truncate(size);
+				await handle.write(Buffer.alloc(4096, 1), 0, 4096, 1024 * 1024);
+				await handle.write(Buffer.alloc(4096, 2), 0, 4096, 4 * 1024 * 1024);
+			} finally {
+				await handle.close();
+			}
+		}
+
+		it.skipIf(process.platform === "win32")(
+			"archives only the data regions of sparse files",
+			async () => {
+				const sourceDir = path.join(tmpDir, "source");
+				await fs.mkdir(sourceDir, { recursive: true });
+				await createSparseFile(path.join(sourceDir, "disk.img"));
+
+				const archive = Buffer.concat(
+					await packTar(sourceDir, { sparse: true }).toArray(),
+				);
+				expect(archive.length).toBeLessThan(32 * 1024);
+
+				const [entry] = await unpackTarWeb(archive);
+				expect(entry.header.name).toBe("disk.img");
+				expect(entry.header.size).toBe(size);
+				expect(entry.header.sparse).toEqual([
+					{ offset: 1024 * 1024, size: 4096 },
+					{ offset: 4 * 1024 * 1024, size: 4096 },
+					{ offset: size, size: 0 },
+				]);
+				expect(entry.header.pax?.["GNU.sparse.major"]).toBe("1");
+
+				const original = await fs.readFile(path.join(sourceDir, "disk.img"));
+				expect(Buffer.compare(entry.data, original)).toBe(0);
+			},
+		);
+
+		it.skipIf(process.platform === "win32")(
+			"round trips sparse files through unpackTar",
+			async () => {
+				const sourceDir = path.join(tmpDir, "source");
+				await fs.mkdir(sourceDir, { recursive: true });
+				await createSparseFile(path.join(sourceDir, "disk.img"));
+				await fs.writeFile(path.join(sourceDir, "dense.txt"), "not sparse");
+
+				const destDir = path.join(tmpDir, "extracted");
+				await pipeline(
+					packTar(sourceDir, { sparse: true }),
+					unpackTar(destDir),
+				);
+
+				const original = await fs.readFile(path.join(sourceDir, "disk.img"));
+				const extracted = await fs.readFile(path.join(destDir, "disk.img"));
+				expect(Buffer.compare(extracted, original)).toBe(0);
+				expect(
+					await fs.readFile(path.join(destDir, "dense.txt"), "utf-8"),
+				).toBe("not sparse");
+
+				const stat = await fs.stat(path.join(destDir, "disk.img"));
+				expect(stat.blocks * 512).toBeLessThan(size);
+			},
+		);
+
+		it("stores sparse files in full unless enabled", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			await fs.mkdir(sourceDir, { recursive: true });
+			await createSparseFile(path.join(sourceDir, "disk.img"));
+
+			const archive = Buffer.concat(await packTar(sourceDir).toArray());
+			expect(archive.length).toBeGreaterThan(size);
+
+			const [entry] = await unpackTarWeb(archive);
+			expect(entry.header.sparse).toBeUndefined();
+		});
+	});
+
+	it("packs a directory in the given format", async () => {
+		const nested = path.join("a".repeat(60), "b".repeat(60));
+		const sourceDir = path.join(tmpDir, "source");
+		await fs.mkdir(path.join(sourceDir, nested), { recursive: true });
+		await fs.writeFile(path.join(sourceDir, nested, "file.txt"), "gnu");
+
+		const archive = Buffer.concat(
+			await packTar(sourceDir, { format: "gnu" }).toArray(),
+		);
+		expect(archive.subarray(257, 265).toString()).toBe("ustar  \0");
+
+		const destDir = path.join(tmpDir, "extracted");
+		await pipeline(Readable.from([archive]), unpackTar(destDir));
+		expect(
+			await fs.readFile(path.join(destDir, nested, "file.txt"), "utf-8"),
+		).toBe("gnu");
+
+		await expect(
+			packTar(sourceDir, { format: "v7" }).toArray(),
+		).rejects.toThrow("in v7 format: the name is too long.");
+	});
+
+	describe("deterministic", () => {
+		// Creates the same tree with different creation orders, times and permissions.
+		async function createTree(root: string, variant: number) {
+			const files = [
+				["b.txt", "bravo", 0o600],
+				["a.txt", "alpha", 0o640],
+				["bin/run.sh", "#!/bin/sh", 0o700],
+			] as const;
+
+			await fs.mkdir(path.join(root, "bin"), { recursive: true });
+			for (const [name, content, mode] of variant
+				? files.toReversed()
+				: files) {
+				const filePath = path.join(root, name);
+				await fs.writeFile(filePath, content);
+				await fs.chmod(filePath, variant ? mode | 0o004 : mode);
+				await fs.utimes(filePath, 1000 + variant, 2_000_000_000 + variant);
+			}
+		}
+
+		it.skipIf(process.platform === "win32")(
+			"writes the same bytes for the same tree",
+			async () => {
+				await createTree(path.join(tmpDir, "one"), 0);
+				await createTree(path.join(tmpDir, "two"), 1);
+
+				const [one, two] = await Promise.all(
+					["one", "two"].map(async (dir) =>
+						Buffer.concat(
+							await packTar(path.join(tmpDir, dir), {
+								deterministic: true,
+							}).toArray(),
+						),
+					),
+				);
+				expect(Buffer.compare(one, two)).toBe(0);
+
+				const entries = await unpackTarWeb(one);
+				expect(
+					entries.map(({ header }) => [
+						header.name,
+						header.mode,
+						header.uid,
+						header.mtime?.getTime(),
+					]),
+				).toEqual([
+					["a.txt", 0o644, 0, 0],
+					["b.txt", 0o644, 0, 0],
+					["bin/", 0o755, 0, 0],
+					["bin/run.sh", 0o755, 0, 0],
+				]);
+			},
+		);
+
+		it("clamps mtimes to the given time", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "old.txt"), "old");
+			await fs.writeFile(path.join(sourceDir, "new.txt"), "new");
+			await fs.utimes(path.join(sourceDir, "old.txt"), 0, 1_000_000);
+			await fs.utimes(path.join(sourceDir, "new.txt"), 0, 2_000_000_000);
+
+			const clamp = new Date(1_500_000_000 * 1000);
+			const entries = await unpackTarWeb(
+				Buffer.concat(
+					await packTar(sourceDir, {
+						deterministic: { mtime: clamp },
+					}).toArray(),
+				),
+			);
+
+			expect(entries.map((e) => e.header.mtime?.getTime())).toEqual([
+				clamp.getTime(),
+				1_000_000_000,
+			]);
+		});
+
+		it("reads the clamp time from SOURCE_DATE_EPOCH", async () => {
+			const sourceDir = path.join(tmpDir, "source");
+			await fs.mkdir(sourceDir, { recursive: true });
+			await fs.writeFile(path.join(sourceDir, "file.txt"), "content");
+
+			const previous = process.env.SOURCE_DATE_EPOCH;
+			try {
+				process.env.SOURCE_DATE_EPOCH = "1700000000";
+				const [entry] = await unpackTarWeb(
+					Buffer.concat(
+						await packTar(sourceDir, { deterministic: true }).toArray(),
+					),
+				);
+				expect(entry.header.mtime?.getTime()).toBe(1_700_000_000_000);
+
+				process.env.SOURCE_DATE_EPOCH = "yesterday";
+				expect(() => packTar(sourceDir, { deterministic: true })).toThrow(
+					"SOURCE_DATE_EPOCH must be a whole number of seconds.",
+				);
+			} finally {
+				if (previous === undefined) delete process.env.SOURCE_DATE_EPOCH;
+				else process.env.SOURCE_DATE_EPOCH = previous;
+			}
+		});
+	});
 });
@@ -6,7 +6,7 @@ import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { unpackTar } from "../../src/fs";
-import { packTar, type TarEntry } from "../../src/web";
+import { packTar, type TarEntry, TarPathError } from "../../src/web";
 import { INVALID_TAR } from "../web/fixtures";
 
 describe("security", () => {
@@ -1486,4 +1486,64 @@ describe("security", () => {
 		const firstEntry = path.join(extractDir, "dir0");
 		await expect(fs.access(firstEntry)).rejects.toThrow();
 	});
+
+	describe("error codes", () => {
+		const extract = async (entries: TarEntry[], maxDepth?: number) => {
+			const extractDir = path.join(tmpDir, "extract");
+			const tar = Readable.from([await packTar(entries)]);
+
+			return pipeline(tar, unpackTar(extractDir, { maxDepth })).then(
+				() => undefined,
+				(err: unknown) => err,
+			);
+		};
+
+		const safe: TarEntry = {
+			header: { name: "safe.txt", size: 4, type: "file" },
+			body: "safe",
+		};
+
+		it("reports entries outside the extraction directory", async () => {
+			const err = await extract([
+				safe,
+				{ header: { name: "../evil.txt", size: 4 }, body: "evil" },
+			]);
+
+			expect(err).toBeInstanceOf(TarPathError);
+			expect(err).toMatchObject({
+				name: "TarPathError",
+				code: "TAR_PATH_ESCAPE",
+				offset: 1024,
+				header: { name: "../evil.txt" },
+			});
+		});
+
+		it("reports link targets outside the extraction directory", async () => {
+			const err = await extract([
+				{
+					header: {
+						name: "link",
+						type: "link",
+						linkname: "/etc/passwd",
+						size: 0,
+					},
+				},
+			]);
+
+			expect(err).toMatchObject({ code: "TAR_PATH_ESCAPE", offset: 0 });
+		});
+
+		it("reports absolute and deeply nested names", async () => {
+			expect(
+				await extract([{ header: { name: "/abs.txt", size: 0 } }]),
+			).toMatchObject({ code: "TAR_ABSOLUTE_PATH" });
+
+			expect(
+				await extract([{ header: { name: "a/b/c/d.txt", size: 0 } }], 2),
+			).toMatchObject({
+				code: "TAR_MAX_DEPTH",
+				header: { name: "a/b/c/d.txt" },
+			});
+		});
+	});
 });
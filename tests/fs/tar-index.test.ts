@@ -0,0 +1,82 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	createTarIndex,
+	loadTarIndex,
+	readTarEntry,
+	serializeTarIndex,
+} from "../../src/fs";
+import { packTar } from "../../src/web";
+
+describe("tar index", () => {
+	let tmpDir: string;
+	let archivePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "modern-tar-index-test-"));
+		archivePath = path.join(tmpDir, "archive.tar");
+
+		const archive = await packTar([
+			{ header: { name: "dir/", type: "directory", size: 0 } },
+			{
+				header: { name: "dir/large.bin", size: 200 * 1024 },
+				body: new Uint8Array(200 * 1024).fill(7),
+			},
+			{ header: { name: "dir/hello.txt", size: 11 }, body: "hello world" },
+		]);
+		await fs.writeFile(archivePath, archive);
+	});
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("indexes an archive by path and reads a single entry", async () => {
+		const index = await createTarIndex(archivePath);
+		expect(index.map((e) => e.header.name)).toEqual([
+			"dir/",
+			"dir/large.bin",
+			"dir/hello.txt",
+		]);
+
+		const entry = index.find((e) => e.header.name === "dir/hello.txt");
+		if (!entry) throw new Error("Entry not found");
+
+		const chunks = await readTarEntry(archivePath, entry).toArray();
+		expect(Buffer.concat(chunks).toString()).toBe("hello world");
+	});
+
+	it("indexes and reads through an open file handle", async () => {
+		const handle = await fs.open(archivePath, "r");
+		try {
+			const index = await createTarIndex(handle);
+			const chunks = await readTarEntry(handle, index[1]).toArray();
+			const data = Buffer.concat(chunks);
+
+			expect(data.length).toBe(200 * 1024);
+			expect(data.every((b) => b === 7)).toBe(true);
+		} finally {
+			await handle.close();
+		}
+	});
+
+	it("loads a sidecar index and detects a modified archive", async () => {
+		const index = await createTarIndex(archivePath);
+		const indexPath = `${archivePath}.idx`;
+		await fs.writeFile(indexPath, await serializeTarIndex(index, archivePath));
+
+		const loaded = await loadTarIndex(
+			await fs.readFile(indexPath, "utf8"),
+			archivePath,
+		);
+		const chunks = await readTarEntry(archivePath, loaded[2]).toArray();
+		expect(Buffer.concat(chunks).toString()).toBe("hello world");
+
+		await fs.appendFile(archivePath, new Uint8Array(1024));
+		await expect(
+			loadTarIndex(await fs.readFile(indexPath, "utf8"), archivePath),
+		).rejects.toThrow("Tar index does not match the archive size.");
+	});
+});
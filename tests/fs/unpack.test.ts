@@ -346,6 +346,55 @@ describe("extract", () => {
 		expect(content).toBe("hello world\n");
 	});
 
+	it("extracts sparse files without writing their holes", async () => {
+		const destDir = path.join(tmpDir, "extracted");
+		const size = 64 * 1024 * 1024;
+
+		// PAX 0.1 sparse entry: two 4 KiB regions in a 64 MiB file.
+		const entries = [
+			{
+				header: {
+					name: "GNUSparseFile.0/disk.img",
+					size: 8192,
+					type: "file" as const,
+					pax: {
+						"GNU.sparse.size": String(size),
+						"GNU.sparse.numblocks": "2",
+						"GNU.sparse.name": "disk.img",
+						"GNU.sparse.map": `0,4096,${32 * 1024 * 1024},4096`,
+					},
+				},
+				body: new Uint8Array(8192).fill(1),
+			},
+		];
+
+		const tarBuffer = await packTarWeb(entries);
+		await pipeline(Readable.from([tarBuffer]), unpackTar(destDir));
+
+		const outPath = path.join(destDir, "disk.img");
+		const stat = await fs.stat(outPath);
+		expect(stat.size).toBe(size);
+
+		const content = await fs.readFile(outPath);
+		expect(content.subarray(0, 4096).every((b) => b === 1)).toBe(true);
+		expect(content.subarray(4096, 32 * 1024 * 1024).every((b) => b === 0)).toBe(
+			true,
+		);
+		expect(
+			content
+				.subarray(32 * 1024 * 1024, 32 * 1024 * 1024 + 4096)
+				.every((b) => b === 1),
+		).toBe(true);
+		expect(
+			content.subarray(32 * 1024 * 1024 + 4096).every((b) => b === 0),
+		).toBe(true);
+
+		// Holes are not allocated on filesystems that support sparse files.
+		if (os.platform() !== "win32") {
+			expect(stat.blocks * 512).toBeLessThan(size);
+		}
+	});
+
 	it("handles errors during processing", async () => {
 		const destDir = path.join(tmpDir, "extracted");
 
@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import { gunzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createBzip2Decoder, unpackTar } from "../../src/web";
+import { streamToBuffer } from "../../src/web/utils";
+import { LODASH_TAR_BZ2, LODASH_TGZ } from "./fixtures";
+
+function decode(data: Uint8Array): Promise<Uint8Array> {
+	// Small chunks, so the decoder has to wait for more input mid-block.
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < data.length; i += 4096) {
+				controller.enqueue(data.subarray(i, i + 4096));
+			}
+			controller.close();
+		},
+	});
+
+	return streamToBuffer(stream.pipeThrough(createBzip2Decoder()));
+}
+
+describe("bzip2 decoder", () => {
+	it("decompresses a real-world archive", async () => {
+		const compressed = new Uint8Array(await readFile(LODASH_TAR_BZ2));
+		const expected = gunzipSync(await readFile(LODASH_TGZ));
+
+		const output = await decode(compressed);
+		expect(Buffer.compare(output, expected)).toBe(0);
+	});
+
+	it("is detected by unpackTar", async () => {
+		const entries = await unpackTar(
+			new Uint8Array(await readFile(LODASH_TAR_BZ2)),
+		);
+		const expected = await unpackTar(
+			new Uint8Array(gunzipSync(await readFile(LODASH_TGZ))),
+		);
+
+		expect(entries.map((e) => e.header)).toEqual(expected.map((e) => e.header));
+	});
+
+	it("decodes concatenated streams", async () => {
+		const compressed = await readFile(LODASH_TAR_BZ2);
+		const expected = gunzipSync(await readFile(LODASH_TGZ));
+
+		const output = await decode(
+			new Uint8Array(Buffer.concat([compressed, compressed])),
+		);
+		expect(Buffer.compare(output, Buffer.concat([expected, expected]))).toBe(0);
+	});
+
+	it("throws on corrupt or truncated data", async () => {
+		const compressed = new Uint8Array(await readFile(LODASH_TAR_BZ2));
+
+		const corrupt = compressed.slice();
+		corrupt[corrupt.length >> 1] ^= 0x10;
+		await expect(decode(corrupt)).rejects.toThrow();
+
+		await expect(decode(compressed.subarray(0, 100_000))).rejects.toThrow(
+			"Bzip2 data is truncated.",
+		);
+		await expect(
+			decode(new Uint8Array([0x42, 0x5a, 0x68, 0x30])),
+		).rejects.toThrow("Invalid bzip2 header.");
+	});
+});
@@ -1,15 +1,46 @@
-import { describe, expect, it } from "vitest";
+import { gunzipSync, gzipSync, inflateRawSync } from "node:zlib";
+import { afterEach, describe, expect, it } from "vitest";
+import { BLOCK_SIZE } from "../../src/web/constants";
 import {
+	createCompressor,
+	createDecompressor,
 	createGzipDecoder,
 	createGzipEncoder,
+	createGzipIndex,
+	createGzipRangeReader,
+	createSeekableGzipEncoder,
 	createTarDecoder,
+	createTarIndex,
 	createTarPacker,
+	createZstdDecoder,
+	createZstdEncoder,
+	type GzipMemberHeader,
 	packTar,
+	setZstdCodec,
 	type TarEntry,
 	unpackTar,
+	type ZstdCodec,
 } from "../../src/web/index";
+import { createTarHeader } from "../../src/web/pack";
 import { decoder, encoder, streamToBuffer } from "../../src/web/utils";
 
+// Runs a test and checks that no promise was rejected without a handler while it ran.
+async function expectNoUnhandledRejections(run: () => Promise<void>) {
+	const unhandled: unknown[] = [];
+	const onUnhandled = (err: unknown) => unhandled.push(err);
+	process.on("unhandledRejection", onUnhandled);
+
+	try {
+		await run();
+		// Unhandled rejections are reported after the current task.
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	} finally {
+		process.off("unhandledRejection", onUnhandled);
+	}
+
+	expect(unhandled).toEqual([]);
+}
+
 describe("compression", () => {
 	describe("streaming compression", () => {
 		it("single file", async () => {
@@ -488,3 +519,538 @@ describe("decompression", () => {
 		});
 	});
 });
+
+describe("seekable gzip", () => {
+	const entries: TarEntry[] = Array.from({ length: 12 }, (_, i) => ({
+		header: {
+			// Every other entry needs a PAX header for its long name.
+			name: i % 2 ? `${"nested/".repeat(20)}file-${i}.txt` : `file-${i}.txt`,
+			size: 20 * 1024,
+		},
+		body: encoder.encode(`entry ${i} `.repeat(4096).slice(0, 20 * 1024)),
+	}));
+
+	async function compress(
+		tar: Uint8Array,
+		encoderStream: ReturnType<typeof createSeekableGzipEncoder>,
+	) {
+		const input = new ReadableStream<Uint8Array>({
+			start(controller) {
+				// Uneven chunks so boundaries fall inside them.
+				for (let offset = 0; offset < tar.length; offset += 7000) {
+					controller.enqueue(tar.subarray(offset, offset + 7000));
+				}
+				controller.close();
+			},
+		});
+
+		return new Uint8Array(
+			await streamToBuffer(input.pipeThrough(encoderStream)),
+		);
+	}
+
+	it("restarts a member every memberSize bytes", async () => {
+		const tar = await packTar(entries);
+		const gzip = createSeekableGzipEncoder({ memberSize: 64 * 1024 });
+		const compressed = await compress(tar, gzip);
+		const members = await gzip.members;
+
+		expect(members).toHaveLength(Math.ceil(tar.length / (64 * 1024)));
+		expect(
+			members.slice(0, -1).every((m) => m.uncompressedSize === 64 * 1024),
+		).toBe(true);
+
+		// Plain gunzip reads the whole file, and the table matches a scan of it.
+		expect(Buffer.compare(gunzipSync(compressed), tar)).toBe(0);
+		expect(await createGzipIndex(new Blob([compressed]))).toEqual(members);
+	});
+
+	it("only restarts members at entry boundaries", async () => {
+		const tar = await packTar(entries);
+		const gzip = createSeekableGzipEncoder({
+			memberSize: 30 * 1024,
+			entryBoundaries: true,
+		});
+		const compressed = await compress(tar, gzip);
+		const members = await gzip.members;
+
+		const index = await createTarIndex(new Blob([new Uint8Array(tar)]));
+		const headerOffsets = new Set(index.map((e) => e.headerOffset));
+		headerOffsets.add(tar.length - 1024); // End-of-archive marker
+
+		expect(members.length).toBeGreaterThan(1);
+		for (const member of members.slice(1)) {
+			expect(headerOffsets.has(member.uncompressedOffset)).toBe(true);
+		}
+
+		// Entries can be read using the emitted table without scanning the file.
+		const reader = createGzipRangeReader(new Blob([compressed]), members);
+		expect(await createTarIndex(reader)).toEqual(index);
+	});
+
+	it("skips bodies larger than 2 GiB when looking for entry boundaries", async () => {
+		// Only the start of the body is written. Misread as headers, its blocks would start members.
+		const size = 3 * 1024 * 1024 * 1024;
+		const tar = new Uint8Array(BLOCK_SIZE + 64 * 1024);
+		tar.set(createTarHeader({ name: "big.bin", size }));
+
+		const gzip = createSeekableGzipEncoder({
+			memberSize: BLOCK_SIZE,
+			entryBoundaries: true,
+		});
+		const compressed = await compress(tar, gzip);
+
+		expect(await gzip.members).toHaveLength(1);
+		expect(Buffer.compare(gunzipSync(compressed), tar)).toBe(0);
+	});
+
+	it("writes a valid gzip file for empty input", async () => {
+		const gzip = createSeekableGzipEncoder();
+		const compressed = await compress(new Uint8Array(0), gzip);
+
+		expect(gunzipSync(compressed).length).toBe(0);
+		expect(await gzip.members).toEqual([
+			{
+				compressedOffset: 0,
+				compressedSize: compressed.length,
+				uncompressedOffset: 0,
+				uncompressedSize: 0,
+			},
+		]);
+	});
+
+	it("stops and rejects the table when the output is cancelled", async () => {
+		await expectNoUnhandledRejections(async () => {
+			let pulls = 0;
+			const input = new ReadableStream<Uint8Array>({
+				pull(controller) {
+					pulls++;
+					controller.enqueue(
+						Uint8Array.from({ length: 64 * 1024 }, (_, i) => (i * pulls) % 251),
+					);
+				},
+			});
+
+			const gzip = createSeekableGzipEncoder({ memberSize: 16 * 1024 });
+			const reader = input.pipeThrough(gzip).getReader();
+			await reader.read();
+			await new Promise((resolve) => setTimeout(resolve, 10));
+
+			// The input is held back until the output is read.
+			expect(pulls).toBeLessThan(5);
+
+			await reader.cancel(new Error("stop"));
+			await expect(gzip.members).rejects.toThrow("stop");
+		});
+	});
+
+	it("rejects an invalid member size", () => {
+		expect(() => createSeekableGzipEncoder({ memberSize: 0 })).toThrow(
+			"Member size must be greater than 0.",
+		);
+	});
+});
+
+describe("gzip header", () => {
+	async function pipe(
+		data: Uint8Array,
+		stream: ReadableWritablePair<Uint8Array, Uint8Array>,
+	) {
+		const input = new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (let offset = 0; offset < data.length; offset += 7000) {
+					controller.enqueue(data.subarray(offset, offset + 7000));
+				}
+				controller.close();
+			},
+		});
+
+		return new Uint8Array(await streamToBuffer(input.pipeThrough(stream)));
+	}
+
+	it("writes the given header fields", async () => {
+		const data = encoder.encode("reproducible ".repeat(10000));
+		const compressed = await pipe(
+			data,
+			createGzipEncoder({
+				mtime: new Date("2024-01-02T03:04:05Z"),
+				os: 3,
+				name: "café.tar",
+				comment: "release build",
+			}),
+		);
+
+		const view = new DataView(compressed.buffer);
+		expect(compressed[3]).toBe(0x18); // FNAME and FCOMMENT
+		expect(view.getUint32(4, true)).toBe(1704164645);
+		expect(compressed[9]).toBe(3);
+		expect(Buffer.from(compressed.subarray(10, 33)).toString("latin1")).toBe(
+			"café.tar\0release build\0",
+		);
+		expect(Buffer.compare(gunzipSync(compressed), data)).toBe(0);
+	});
+
+	it("writes identical output for identical input", async () => {
+		const data = encoder.encode("same bytes ".repeat(1000));
+		const header = { mtime: new Date(0) };
+
+		const first = await pipe(data, createGzipEncoder(header));
+		const second = await pipe(data, createGzipEncoder(header));
+
+		expect(first).toEqual(second);
+		expect(first[9]).toBe(255); // Unknown OS
+	});
+
+	it("reports the header and offsets of each member", async () => {
+		// A stored member, a compressed member and an anonymous member.
+		const parts = [
+			Uint8Array.from({ length: 100_000 }, (_, i) => (i * 7919) % 251),
+			encoder.encode("second member ".repeat(20_000)),
+			encoder.encode("third"),
+		];
+		const compressed = Buffer.concat([
+			gzipSync(parts[0], { level: 0 }),
+			await pipe(parts[1], createGzipEncoder({ name: "two", os: 3 })),
+			gzipSync(parts[2]),
+			new Uint8Array(16), // Trailing padding
+		]);
+
+		const members: GzipMemberHeader[] = [];
+		const output = await pipe(
+			compressed,
+			createGzipDecoder({ onMember: (member) => members.push(member) }),
+		);
+
+		expect(Buffer.compare(output, Buffer.concat(parts))).toBe(0);
+		expect(members.map((m) => m.uncompressedOffset)).toEqual([
+			0,
+			parts[0].length,
+			parts[0].length + parts[1].length,
+		]);
+		expect(members[1].header).toEqual({ name: "two", os: 3 });
+		expect(members[2].header.name).toBeUndefined();
+
+		const index = await createGzipIndex(new Blob([compressed]));
+		expect(members.map((m) => m.compressedOffset)).toEqual(
+			index.map((m) => m.compressedOffset),
+		);
+	});
+
+	it("rejects corrupted members", async () => {
+		const compressed = gzipSync(encoder.encode("checksum ".repeat(100)));
+		compressed[compressed.length - 8] ^= 0xff;
+
+		await expect(
+			pipe(compressed, createGzipDecoder({ onMember: () => {} })),
+		).rejects.toThrow("Gzip member at offset 0 has an invalid checksum.");
+	});
+
+	it("rejects header fields that cannot be encoded", () => {
+		expect(() => createGzipEncoder({ name: "€uro" })).toThrow(
+			"Gzip header name must be ISO-8859-1 without null characters.",
+		);
+		expect(() => createGzipEncoder({ os: 256 })).toThrow(
+			"Gzip header os must be an integer from 0 to 255.",
+		);
+		expect(() => createGzipEncoder({ mtime: new Date(-1000) })).toThrow(
+			"Gzip header mtime must be between 1970 and 2106.",
+		);
+	});
+});
+
+describe("zstd", () => {
+	const ZSTD_MAGIC = new Uint8Array([0x28, 0xb5, 0x2f, 0xfd]);
+
+	// Stand-in codec that writes stored Zstandard frames made of raw blocks.
+	function createFakeCodec(levels: Array<number | undefined> = []): ZstdCodec {
+		return {
+			createEncoder(level) {
+				levels.push(level);
+				const chunks: Uint8Array[] = [];
+				return new TransformStream<Uint8Array, Uint8Array>({
+					transform(chunk) {
+						chunks.push(chunk);
+					},
+					flush(controller) {
+						controller.enqueue(storedFrame(Buffer.concat(chunks)));
+					},
+				});
+			},
+			createDecoder() {
+				const chunks: Uint8Array[] = [];
+				return new TransformStream<Uint8Array, Uint8Array>({
+					transform(chunk) {
+						chunks.push(chunk);
+					},
+					flush(controller) {
+						const frame = Buffer.concat(chunks);
+						// Magic, frame header descriptor and window descriptor.
+						let offset = 6;
+						let last = false;
+						while (!last) {
+							const header = frame.readUIntLE(offset, 3);
+							const size = header >>> 3;
+							last = (header & 1) === 1;
+							controller.enqueue(frame.subarray(offset + 3, offset + 3 + size));
+							offset += 3 + size;
+						}
+					},
+				});
+			},
+		};
+	}
+
+	// Writes data as a Zstandard frame of raw (uncompressed) blocks.
+	function storedFrame(data: Uint8Array, blockSize = 1000): Uint8Array {
+		const parts: Uint8Array[] = [ZSTD_MAGIC, new Uint8Array([0x00, 0x00])];
+		let offset = 0;
+		do {
+			const block = data.subarray(offset, offset + blockSize);
+			offset += block.length;
+			const header = (block.length << 3) | (offset >= data.length ? 1 : 0);
+			parts.push(
+				new Uint8Array([header & 0xff, (header >> 8) & 0xff, header >> 16]),
+				block,
+			);
+		} while (offset < data.length);
+		return new Uint8Array(Buffer.concat(parts));
+	}
+
+	afterEach(() => {
+		setZstdCodec(undefined);
+	});
+
+	it("throws without a codec", () => {
+		expect(() => createZstdEncoder()).toThrow(
+			"Zstandard is not supported in this environment.",
+		);
+		expect(() => createZstdDecoder()).toThrow(
+			"Zstandard is not supported in this environment.",
+		);
+	});
+
+	it("round-trips an archive through the registered codec", async () => {
+		const levels: Array<number | undefined> = [];
+		setZstdCodec(createFakeCodec(levels));
+
+		const tar = await packTar([
+			{ header: { name: "hello.txt", size: 5 }, body: "hello" },
+		]);
+		const compressed = await streamToBuffer(
+			new Blob([new Uint8Array(tar)])
+				.stream()
+				.pipeThrough(createZstdEncoder({ level: 19 })),
+		);
+		expect(levels).toEqual([19]);
+		expect(compressed.subarray(0, 4)).toEqual(ZSTD_MAGIC);
+
+		// unpackTar detects the format and uses the registered codec.
+		const [entry] = await unpackTar(compressed);
+		expect(decoder.decode(entry.data)).toBe("hello");
+	});
+
+	it("writes a new frame every frameSize bytes", async () => {
+		const codec: ZstdCodec = {
+			createEncoder: () => createGzipEncoder(),
+			createDecoder: () => createGzipDecoder(),
+		};
+		const data = new Uint8Array(100 * 1024).fill(1);
+
+		const compressed = await streamToBuffer(
+			new Blob([data])
+				.stream()
+				.pipeThrough(createZstdEncoder({ frameSize: 32 * 1024 }, codec)),
+		);
+
+		const frames = await createGzipIndex(
+			new Blob([new Uint8Array(compressed)]),
+		);
+		expect(frames.map((f) => f.uncompressedSize)).toEqual([
+			32 * 1024,
+			32 * 1024,
+			32 * 1024,
+			4 * 1024,
+		]);
+		expect(gunzipSync(compressed)).toEqual(Buffer.from(data));
+	});
+
+	it("decodes concatenated and skippable frames one frame at a time", async () => {
+		let decoders = 0;
+		const codec = createFakeCodec();
+		const counted: ZstdCodec = {
+			...codec,
+			createDecoder() {
+				decoders++;
+				return codec.createDecoder();
+			},
+		};
+
+		const first = new Uint8Array(2500).fill(0x61);
+		const second = new Uint8Array(10).fill(0x62);
+		// Skippable frame with a 3-byte payload.
+		const skippable = new Uint8Array([
+			0x50, 0x2a, 0x4d, 0x18, 3, 0, 0, 0, 1, 2, 3,
+		]);
+		const data = new Uint8Array(
+			Buffer.concat([storedFrame(first), skippable, storedFrame(second)]),
+		);
+
+		// Feed the input in small chunks, so fields span chunk boundaries.
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (let i = 0; i < data.length; i += 7) {
+					controller.enqueue(data.subarray(i, i + 7));
+				}
+				controller.close();
+			},
+		});
+		const output = await streamToBuffer(
+			stream.pipeThrough(createZstdDecoder(counted)),
+		);
+
+		expect(decoders).toBe(2);
+		expect(Buffer.from(output)).toEqual(Buffer.concat([first, second]));
+	});
+
+	it("throws on invalid or truncated frames", async () => {
+		const frame = storedFrame(new Uint8Array(100));
+		const decode = (data: Uint8Array) =>
+			streamToBuffer(
+				new Blob([new Uint8Array(data)])
+					.stream()
+					.pipeThrough(createZstdDecoder(createFakeCodec())),
+			);
+
+		await expect(decode(frame.subarray(0, 50))).rejects.toThrow(
+			"Zstandard data is truncated.",
+		);
+		await expect(
+			decode(new Uint8Array(Buffer.concat([frame, new Uint8Array(8)]))),
+		).rejects.toThrow("Invalid Zstandard frame.");
+	});
+
+	it("rejects codec errors without leaving them unhandled", async () => {
+		const codec: ZstdCodec = {
+			...createFakeCodec(),
+			createDecoder: () =>
+				new TransformStream<Uint8Array, Uint8Array>({
+					transform() {
+						throw new Error("corrupt frame");
+					},
+				}),
+		};
+		const frame = storedFrame(new Uint8Array(100));
+
+		await expectNoUnhandledRejections(async () => {
+			await expect(
+				streamToBuffer(
+					new Blob([new Uint8Array(frame)])
+						.stream()
+						.pipeThrough(createZstdDecoder(codec)),
+				),
+			).rejects.toThrow("corrupt frame");
+
+			setZstdCodec(codec);
+			await expect(unpackTar(frame)).rejects.toThrow("corrupt frame");
+		});
+	});
+
+	it("holds back the codec output until it is read", async () => {
+		let produced = 0;
+		const codec: ZstdCodec = {
+			...createFakeCodec(),
+			createDecoder: () => ({
+				// Every input byte is accepted, and much more output is available.
+				writable: new WritableStream<Uint8Array>(),
+				readable: new ReadableStream<Uint8Array>({
+					pull(controller) {
+						produced++;
+						if (produced > 1000) controller.close();
+						else controller.enqueue(new Uint8Array(1024));
+					},
+				}),
+			}),
+		};
+
+		await expectNoUnhandledRejections(async () => {
+			const reader = new Blob([
+				new Uint8Array(storedFrame(new Uint8Array(100))),
+			])
+				.stream()
+				.pipeThrough(createZstdDecoder(codec))
+				.getReader();
+			await reader.read();
+			await new Promise((resolve) => setTimeout(resolve, 10));
+
+			expect(produced).toBeLessThan(10);
+			await reader.cancel();
+		});
+	});
+
+	it("rejects an invalid frame size", () => {
+		expect(() =>
+			createZstdEncoder({ frameSize: 0 }, createFakeCodec()),
+		).toThrow("Frame size must be greater than 0.");
+	});
+});
+
+describe("compressor", () => {
+	const hasBrotli = (() => {
+		try {
+			new CompressionStream("brotli" as CompressionFormat);
+			return true;
+		} catch {
+			return false;
+		}
+	})();
+
+	const formats = ["gzip", "deflate", "deflate-raw"] as const;
+
+	for (const format of formats) {
+		it(`round-trips an archive as ${format}`, async () => {
+			const tar = await packTar([
+				{ header: { name: "hello.txt", size: 5 }, body: "hello" },
+			]);
+
+			const entries = await unpackTar(
+				new Blob([new Uint8Array(tar)])
+					.stream()
+					.pipeThrough(createCompressor(format))
+					.pipeThrough(createDecompressor(format)),
+			);
+			expect(decoder.decode(entries[0].data)).toBe("hello");
+		});
+	}
+
+	it("writes raw deflate data without a header", async () => {
+		const compressed = await streamToBuffer(
+			new Blob([encoder.encode("hello")])
+				.stream()
+				.pipeThrough(createCompressor("deflate-raw")),
+		);
+		expect(inflateRawSync(compressed).toString()).toBe("hello");
+	});
+
+	it.skipIf(!hasBrotli)("round-trips brotli", async () => {
+		const data = encoder.encode("brotli ".repeat(1000));
+		const output = await streamToBuffer(
+			new Blob([data])
+				.stream()
+				.pipeThrough(createCompressor("brotli"))
+				.pipeThrough(createDecompressor("brotli")),
+		);
+		expect(decoder.decode(output)).toBe("brotli ".repeat(1000));
+	});
+
+	it.skipIf(hasBrotli)("throws when brotli is not supported", () => {
+		expect(() => createCompressor("brotli")).toThrow(
+			'Compression format "brotli" is not supported in this environment.',
+		);
+	});
+
+	it("rejects a compression level", () => {
+		expect(() => createCompressor("gzip", { level: 9 })).toThrow(
+			"Compression levels are not supported by CompressionStream.",
+		);
+	});
+});
@@ -0,0 +1,147 @@
+import { readFile } from "node:fs/promises";
+import { describe, expect, it } from "vitest";
+import { concatTar, packTar, type TarEntry, unpackTar } from "../../src/web";
+import { decoder, streamToBuffer } from "../../src/web/utils";
+import {
+	GNU_SPARSE_TAR,
+	PAX_SPARSE_0_0_TAR,
+	PAX_SPARSE_0_1_TAR,
+	PAX_SPARSE_1_0_TAR,
+} from "./fixtures";
+
+// Streams the archive in small chunks that do not line up with its blocks.
+function chunked(data: Uint8Array, size = 100): ReadableStream<Uint8Array> {
+	let offset = 0;
+	return new ReadableStream({
+		pull(controller) {
+			if (offset >= data.length) return controller.close();
+			controller.enqueue(data.slice(offset, offset + size));
+			offset += size;
+		},
+	});
+}
+
+describe("concatTar", () => {
+	const mtime = new Date(1_700_000_000_000);
+
+	const first: TarEntry[] = [
+		{ header: { name: "a.txt", size: 5, mtime }, body: "hello" },
+		{ header: { name: "dir/", type: "directory", size: 0, mtime } },
+	];
+	const second: TarEntry[] = [
+		{ header: { name: "b.txt", size: 5, mtime }, body: "world" },
+		{
+			header: { name: "hard", type: "link", linkname: "b.txt", size: 0, mtime },
+		},
+	];
+
+	it("joins archives into one with a single end-of-archive marker", async () => {
+		const a = await packTar(first);
+		const b = await packTar(second);
+
+		const output = await streamToBuffer(concatTar([chunked(a), chunked(b)]));
+		const entries = await unpackTar(output);
+
+		expect(entries.map((e) => e.header.name)).toEqual([
+			"a.txt",
+			"dir/",
+			"b.txt",
+			"hard",
+		]);
+		expect(decoder.decode(entries[2].data)).toBe("world");
+
+		// The entries are copied as they are, without the markers in between.
+		const end = (tar: Uint8Array) => tar.length - 1024;
+		expect(output.length).toBe(end(a) + end(b) + 1024);
+		expect(output.subarray(0, end(a))).toEqual(a.subarray(0, end(a)));
+	});
+
+	it("keeps bodies that contain empty blocks", async () => {
+		const zeros = new Uint8Array(2048);
+		const a = await packTar([
+			{ header: { name: "zeros.bin", size: zeros.length, mtime }, body: zeros },
+		]);
+		const b = await packTar(second);
+
+		const entries = await unpackTar(
+			await streamToBuffer(concatTar([chunked(a), chunked(b)])),
+		);
+
+		expect(entries.map((e) => e.header.name)).toEqual([
+			"zeros.bin",
+			"b.txt",
+			"hard",
+		]);
+		expect(entries[0].data).toEqual(zeros);
+	});
+
+	it("moves the entries of prefixed archives into a directory", async () => {
+		const output = await streamToBuffer(
+			concatTar([
+				{ stream: chunked(await packTar(first)), prefix: "packages/one/" },
+				{ stream: chunked(await packTar(second)), prefix: "packages/two" },
+			]),
+		);
+		const entries = await unpackTar(output);
+
+		expect(entries.map((e) => e.header.name)).toEqual([
+			"packages/one/a.txt",
+			"packages/one/dir/",
+			"packages/two/b.txt",
+			"packages/two/hard",
+		]);
+		expect(entries[3].header.linkname).toBe("packages/two/b.txt");
+		expect(decoder.decode(entries[0].data)).toBe("hello");
+	});
+
+	const sparseFixtures = [
+		["GNU", GNU_SPARSE_TAR],
+		["PAX 0.0", PAX_SPARSE_0_0_TAR],
+		["PAX 0.1", PAX_SPARSE_0_1_TAR],
+		["PAX 1.0", PAX_SPARSE_1_0_TAR],
+	] as const;
+
+	for (const [format, fixture] of sparseFixtures) {
+		it(`keeps the packed body of a prefixed ${format} sparse entry`, async () => {
+			const archive = new Uint8Array(await readFile(fixture));
+			const [expected] = await unpackTar(archive);
+
+			const output = await streamToBuffer(
+				concatTar([{ stream: chunked(archive), prefix: "packages/one" }]),
+			);
+			const [entry] = await unpackTar(output);
+
+			expect(entry.header.name).toBe("packages/one/sparse.bin");
+			expect(entry.header.sparse).toEqual(expected.header.sparse);
+			expect(entry.data).toEqual(expected.data);
+
+			// The holes are not written out.
+			expect(output.length).toBeLessThan(entry.data.length);
+		});
+	}
+
+	it("copies GNU long name entries", async () => {
+		const name = `${"deep/".repeat(30)}file.txt`;
+		const a = await packTar(
+			[{ header: { name, size: 4, mtime }, body: "long" }],
+			{ format: "gnu" },
+		);
+
+		const entries = await unpackTar(
+			await streamToBuffer(
+				concatTar([chunked(a), chunked(await packTar(second))]),
+			),
+		);
+
+		expect(entries.map((e) => e.header.name)).toEqual([name, "b.txt", "hard"]);
+		expect(decoder.decode(entries[0].data)).toBe("long");
+	});
+
+	it("rejects a truncated archive", async () => {
+		const a = await packTar(first);
+
+		await expect(
+			streamToBuffer(concatTar([chunked(a.subarray(0, 700))])),
+		).rejects.toThrow("Tar archive is truncated.");
+	});
+});
@@ -0,0 +1,160 @@
+import { readFile } from "node:fs/promises";
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+	createAutoDecoder,
+	detectFormat,
+	packTar,
+	unpackTar,
+} from "../../src/web";
+import { decoder, streamToBuffer } from "../../src/web/utils";
+import { LODASH_TGZ, V7_TAR } from "./fixtures";
+
+describe("compression detection", () => {
+	describe("detectFormat", () => {
+		it("detects compressed formats from their magic bytes", () => {
+			expect(detectFormat(new Uint8Array([0x1f, 0x8b, 8, 0, 0, 0]))).toBe(
+				"gzip",
+			);
+			expect(detectFormat(new Uint8Array([0x28, 0xb5, 0x2f, 0xfd, 0, 0]))).toBe(
+				"zstd",
+			);
+			expect(detectFormat(new TextEncoder().encode("BZh91AY&SY"))).toBe(
+				"bzip2",
+			);
+			expect(
+				detectFormat(new Uint8Array([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])),
+			).toBe("xz");
+		});
+
+		it("detects uncompressed USTAR archives", async () => {
+			const tar = await packTar([{ header: { name: "a.txt", size: 0 } }]);
+			expect(detectFormat(tar)).toBe("tar");
+		});
+
+		it("detects USTAR archives whose first name starts with a magic", async () => {
+			const tar = await packTar([
+				{ header: { name: "BZh9-notes.txt", size: 2 }, body: "hi" },
+			]);
+			expect(detectFormat(tar)).toBe("tar");
+		});
+
+		it("returns undefined for unknown or short data", async () => {
+			expect(detectFormat(new Uint8Array(await readFile(V7_TAR)))).toBe(
+				undefined,
+			);
+			expect(detectFormat(new Uint8Array([0x1f]))).toBe(undefined);
+		});
+	});
+
+	describe("unpackTar", () => {
+		it("decompresses gzipped archives automatically", async () => {
+			const entries = await unpackTar(await readFile(LODASH_TGZ));
+			const pkg = entries.find((e) => e.header.name === "package/package.json");
+
+			expect(pkg).toBeDefined();
+			expect(JSON.parse(decoder.decode(pkg?.data)).name).toBe("lodash");
+		});
+
+		it("decompresses gzipped streams split into small chunks", async () => {
+			const tar = await packTar([
+				{ header: { name: "hello.txt", size: 5 }, body: "hello" },
+			]);
+			const compressed = gzipSync(tar);
+
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (let i = 0; i < compressed.length; i += 3) {
+						controller.enqueue(compressed.subarray(i, i + 3));
+					}
+					controller.close();
+				},
+			});
+
+			const [entry] = await unpackTar(stream);
+			expect(decoder.decode(entry.data)).toBe("hello");
+		});
+
+		it("passes uncompressed archives through unchanged", async () => {
+			const tar = await packTar([
+				{ header: { name: "hello.txt", size: 5 }, body: "hello" },
+			]);
+
+			const [entry] = await unpackTar(tar, { compression: [] });
+			expect(decoder.decode(entry.data)).toBe("hello");
+		});
+
+		it("extracts archives whose first name starts with a magic", async () => {
+			const tar = await packTar([
+				{ header: { name: "BZh9-notes.txt", size: 2 }, body: "hi" },
+			]);
+
+			// Split into small chunks so detection waits for the USTAR magic.
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (let i = 0; i < tar.length; i += 100) {
+						controller.enqueue(tar.subarray(i, i + 100));
+					}
+					controller.close();
+				},
+			});
+
+			const [entry] = await unpackTar(stream);
+			expect(entry.header.name).toBe("BZh9-notes.txt");
+			expect(decoder.decode(entry.data)).toBe("hi");
+		});
+
+		it("rejects formats that are not allowed", async () => {
+			const compressed = gzipSync(
+				await packTar([{ header: { name: "a.txt", size: 0 } }]),
+			);
+
+			await expect(
+				unpackTar(compressed, { compression: ["zstd"] }),
+			).rejects.toThrow('Compression format "gzip" is not allowed.');
+		});
+
+		it("rejects zstd without a codec", async () => {
+			const zstd = new Uint8Array([0x28, 0xb5, 0x2f, 0xfd, 0, 0, 0, 0]);
+			await expect(unpackTar(zstd)).rejects.toThrow(
+				"Zstandard is not supported in this environment.",
+			);
+		});
+	});
+
+	it("holds back the decompressed output until it is read", async () => {
+		let produced = 0;
+		const gzip = () => ({
+			writable: new WritableStream<Uint8Array>(),
+			readable: new ReadableStream<Uint8Array>({
+				pull(controller) {
+					produced++;
+					if (produced > 1000) controller.close();
+					else controller.enqueue(new Uint8Array(1024));
+				},
+			}),
+		});
+
+		const reader = new Blob([new Uint8Array(gzipSync(new Uint8Array(1024)))])
+			.stream()
+			.pipeThrough(createAutoDecoder({}, { gzip }))
+			.getReader();
+		await reader.read();
+		await new Promise((resolve) => setTimeout(resolve, 10));
+
+		expect(produced).toBeLessThan(10);
+		await reader.cancel();
+	});
+
+	it("handles empty input", async () => {
+		const output = await streamToBuffer(
+			new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.close();
+				},
+			}).pipeThrough(createAutoDecoder()),
+		);
+
+		expect(output.length).toBe(0);
+	});
+});
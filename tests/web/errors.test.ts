@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+	createTarDecoder,
+	createTarIndex,
+	listTar,
+	packTar,
+	type TarEntry,
+	TarError,
+	TarFormatError,
+	unpackTar,
+} from "../../src/web";
+import { writeChecksum } from "../../src/web/checksum";
+import {
+	USTAR_CHECKSUM_OFFSET,
+	USTAR_MAGIC_OFFSET,
+} from "../../src/web/constants";
+import { encoder } from "../../src/web/utils";
+
+describe("tar errors", () => {
+	const entries: TarEntry[] = [
+		{ header: { name: "one.txt", size: 3 }, body: "one" },
+		{ header: { name: "two.txt", size: 600 }, body: "x".repeat(600) },
+	];
+
+	// Entry offsets: one.txt at 0 (data at 512), two.txt at 1024 (data at 1536).
+	const rejection = (promise: Promise<unknown>) =>
+		promise.then(
+			() => {
+				throw new Error("Expected a rejection.");
+			},
+			(err: unknown) => err,
+		);
+
+	it("reports a bad checksum with the offset of the header", async () => {
+		const tar = await packTar(entries);
+		tar[1024 + USTAR_CHECKSUM_OFFSET] ^= 1;
+
+		const err = await rejection(unpackTar(tar, { strict: true }));
+
+		expect(err).toBeInstanceOf(TarFormatError);
+		expect(err).toBeInstanceOf(TarError);
+		expect(err).toMatchObject({
+			name: "TarFormatError",
+			code: "TAR_BAD_CHECKSUM",
+			message: "Invalid tar header checksum.",
+			offset: 1024,
+		});
+	});
+
+	it("reports bad magic", async () => {
+		const tar = await packTar(entries);
+		tar.set(encoder.encode("gnutar"), 1024 + USTAR_MAGIC_OFFSET);
+		writeChecksum(tar.subarray(1024, 1536));
+
+		const err = await rejection(unpackTar(tar, { strict: true }));
+
+		expect(err).toMatchObject({ code: "TAR_BAD_MAGIC", offset: 1024 });
+	});
+
+	it("reports truncation with the entry and the end of the data", async () => {
+		const tar = await packTar(entries);
+
+		const err = await rejection(
+			unpackTar(tar.subarray(0, 1800), { strict: true }),
+		);
+
+		expect(err).toMatchObject({
+			code: "TAR_TRUNCATED",
+			offset: 1800,
+			header: { name: "two.txt", size: 600 },
+		});
+	});
+
+	it("reports data after the end of the archive", async () => {
+		// Leftover bytes that do not make up a header block, without an end-of-archive marker.
+		const tar = await packTar(entries);
+		const end = tar.length - 1024;
+		const data = new Uint8Array(end + 3);
+		data.set(tar.subarray(0, end));
+		data.set([0x42, 0x43, 0x44], end);
+
+		const err = await rejection(unpackTar(data, { strict: true }));
+
+		expect(err).toMatchObject({ code: "TAR_TRAILING_DATA", offset: end });
+	});
+
+	it("reports truncated headers when indexing", async () => {
+		const tar = await packTar(entries);
+		const truncated = new Uint8Array(tar.subarray(0, 1100));
+
+		expect(
+			await rejection(createTarIndex(new Blob([truncated]), { strict: true })),
+		).toMatchObject({ code: "TAR_TRUNCATED", offset: 1100 });
+		expect(await rejection(listTar(truncated, { strict: true }))).toMatchObject(
+			{ code: "TAR_TRUNCATED", offset: 1100 },
+		);
+	});
+
+	it("gives decoded entries the offset of their first header block", async () => {
+		const tar = await packTar([
+			...entries,
+			{ header: { name: `${"long/".repeat(60)}name.txt`, size: 0 } },
+		]);
+
+		const offsets: Array<number | undefined> = [];
+		const reader = new Blob([new Uint8Array(tar)])
+			.stream()
+			.pipeThrough(createTarDecoder())
+			.getReader();
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			offsets.push(value.offset);
+			await value.body.cancel();
+		}
+
+		// The last entry starts with its PAX header.
+		expect(offsets).toEqual([0, 1024, 2560]);
+	});
+});
@@ -33,8 +33,20 @@ export const UNKNOWN_FORMAT = join(__dirname, "unknown-format.tar");
 export const V7_TAR = join(__dirname, "v7.tar");
 export const INVALID_TAR = join(__dirname, "invalid.tar");
 
+// Created using gnu tar from a 256 KiB file with six 4 KiB data regions (see sparse.test.ts):
+// tar cf gnu-sparse.tar --sparse --format gnu sparse.bin
+export const GNU_SPARSE_TAR = join(__dirname, "gnu-sparse.tar");
+// tar cf pax-sparse-<version>.tar --sparse --format pax --sparse-version <version> sparse.bin
+export const PAX_SPARSE_0_0_TAR = join(__dirname, "pax-sparse-0.0.tar");
+export const PAX_SPARSE_0_1_TAR = join(__dirname, "pax-sparse-0.1.tar");
+export const PAX_SPARSE_1_0_TAR = join(__dirname, "pax-sparse-1.0.tar");
+
 // Real-world large packages for complex testing
 export const LODASH_TGZ = join(__dirname, "lodash-4.17.21.tgz");
 export const NEXT_SWC_TGZ = join(__dirname, "next-swc-linux-14.2.15.tgz");
 export const SHARP_TGZ = join(__dirname, "sharp-0.33.5.tgz");
 export const ELECTRON_TGZ = join(__dirname, "electron-33.0.2.tgz");
+
+// Recompressed from lodash-4.17.21.tgz: bzip2 -9 and xz -6 (with a CRC64 check)
+export const LODASH_TAR_BZ2 = join(__dirname, "lodash-4.17.21.tar.bz2");
+export const LODASH_TAR_XZ = join(__dirname, "lodash-4.17.21.tar.xz");
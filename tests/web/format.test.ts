@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { formatTarHeader, type TarHeader } from "../../src/web";
+
+describe("formatTarHeader", () => {
+	const mtime = new Date(Date.UTC(2024, 0, 2, 3, 4, 59));
+
+	const format = (header: Partial<TarHeader>) =>
+		formatTarHeader({ name: "file", size: 0, mtime, ...header }, { utc: true });
+
+	it("formats headers like tar -tv", () => {
+		expect(
+			format({
+				name: "package/",
+				type: "directory",
+				mode: 0o755,
+				uname: "root",
+				gname: "root",
+			}),
+		).toBe("drwxr-xr-x root/root         0 2024-01-02 03:04 package/");
+
+		expect(format({ name: "data.bin", size: 123456, mode: 0o644 })).toBe(
+			"-rw-r--r-- 0/0          123456 2024-01-02 03:04 data.bin",
+		);
+	});
+
+	it("falls back to ids and widens the columns for long names", () => {
+		expect(
+			format({ uid: 1000, gid: 100, uname: "", gname: "staff", size: 5 }),
+		).toBe("-rw-r--r-- 1000/staff        5 2024-01-02 03:04 file");
+
+		expect(format({ uname: "a".repeat(20), gname: "b", size: 5 })).toBe(
+			`-rw-r--r-- ${"a".repeat(20)}/b 5 2024-01-02 03:04 file`,
+		);
+	});
+
+	it("shows link targets", () => {
+		expect(
+			format({ name: "l", type: "symlink", mode: 0o777, linkname: "target" }),
+		).toBe("lrwxrwxrwx 0/0               0 2024-01-02 03:04 l -> target");
+
+		expect(format({ name: "h", type: "link", linkname: "file" })).toBe(
+			"hrw-r--r-- 0/0               0 2024-01-02 03:04 h link to file",
+		);
+	});
+
+	it("renders special mode bits", () => {
+		const modes = [0o4755, 0o2644, 0o1777, 0o1776, 0o6000].map((mode) =>
+			format({ mode }).slice(0, 10),
+		);
+
+		expect(modes).toEqual([
+			"-rwsr-xr-x",
+			"-rw-r-Sr--",
+			"-rwxrwxrwt",
+			"-rwxrwxrwT",
+			"---S--S---",
+		]);
+		expect(format({ type: "fifo" }).slice(0, 1)).toBe("p");
+		expect(format({ type: "character-device" }).slice(0, 1)).toBe("c");
+	});
+
+	it("formats headers as JSON lines", () => {
+		const line = formatTarHeader(
+			{
+				name: "package/index.js",
+				size: 13,
+				mtime,
+				mode: 0o644,
+				uid: 0,
+				gid: 0,
+				uname: "",
+				gname: "",
+			},
+			{ json: true },
+		);
+
+		expect(line).not.toContain("\n");
+		expect(JSON.parse(line)).toEqual({
+			name: "package/index.js",
+			type: "file",
+			size: 13,
+			mode: 0o644,
+			uid: 0,
+			gid: 0,
+			mtime: "2024-01-02T03:04:59.000Z",
+		});
+	});
+});
@@ -0,0 +1,228 @@
+import { readFile } from "node:fs/promises";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+	createGzipEncoder,
+	createGzipIndex,
+	createGzipRangeReader,
+	createTarIndex,
+	findGzipMember,
+	packTar,
+	type RangeReader,
+	readTarEntry,
+	type TarEntry,
+} from "../../src/web";
+import { streamToBuffer } from "../../src/web/utils";
+import { LODASH_TGZ } from "./fixtures";
+
+// Pseudo-random bytes that do not compress, so deflate keeps them in stored blocks.
+function noise(size: number, seed: number): Uint8Array {
+	const data = new Uint8Array(size);
+	let state = seed;
+	for (let i = 0; i < size; i++) {
+		state = (state * 1103515245 + 12345) & 0x7fffffff;
+		data[i] = state >>> 16;
+	}
+	return data;
+}
+
+const entries: TarEntry[] = [
+	{
+		header: { name: "text.txt", size: 100 * 1024 },
+		body: new TextEncoder().encode(
+			"the quick brown fox jumps over the lazy dog\n"
+				.repeat(2400)
+				.slice(0, 100 * 1024),
+		),
+	},
+	{
+		header: { name: "noise.bin", size: 100 * 1024 },
+		body: noise(100 * 1024, 1),
+	},
+	{ header: { name: "small.txt", size: 5 }, body: "small" },
+];
+
+// Compresses each chunk as an independent gzip member.
+function multiMember(data: Uint8Array, chunkSize: number, level: number) {
+	const members: Uint8Array[] = [];
+	for (let offset = 0; offset < data.length; offset += chunkSize) {
+		members.push(
+			gzipSync(data.subarray(offset, offset + chunkSize), { level }),
+		);
+	}
+	return new Uint8Array(Buffer.concat(members));
+}
+
+// Rewrites gzip members as BGZF blocks by adding the "BC" extra subfield.
+function bgzf(data: Uint8Array, chunkSize: number) {
+	const blocks: Uint8Array[] = [];
+	for (let offset = 0; offset < data.length; offset += chunkSize) {
+		const member = gzipSync(data.subarray(offset, offset + chunkSize));
+		const block = new Uint8Array(member.length + 8);
+
+		block.set(member.subarray(0, 10));
+		block[3] |= 0x04; // FEXTRA
+		block.set([6, 0, 66, 67, 2, 0], 10);
+		new DataView(block.buffer).setUint16(16, block.length - 1, true);
+		block.set(member.subarray(10), 18);
+
+		blocks.push(block);
+	}
+	return new Uint8Array(Buffer.concat(blocks));
+}
+
+describe("gzip index", () => {
+	it("finds the members of a multi-member gzip file", async () => {
+		const tar = new Uint8Array(await packTar(entries));
+		const compressed = new Uint8Array(
+			Buffer.concat([
+				multiMember(tar.subarray(0, 50 * 1024), 50 * 1024, 9),
+				multiMember(tar.subarray(50 * 1024, 150 * 1024), 50 * 1024, 0),
+				multiMember(tar.subarray(150 * 1024), 32 * 1024, 1),
+			]),
+		);
+
+		const members = await createGzipIndex(new Blob([compressed]));
+
+		expect(members[0]).toEqual({
+			compressedOffset: 0,
+			compressedSize: members[1].compressedOffset,
+			uncompressedOffset: 0,
+			uncompressedSize: 50 * 1024,
+		});
+		for (let i = 1; i < members.length; i++) {
+			const previous = members[i - 1];
+			expect(members[i].compressedOffset).toBe(
+				previous.compressedOffset + previous.compressedSize,
+			);
+			expect(members[i].uncompressedOffset).toBe(
+				previous.uncompressedOffset + previous.uncompressedSize,
+			);
+		}
+
+		const last = members[members.length - 1];
+		expect(last.compressedOffset + last.compressedSize).toBe(compressed.length);
+		expect(last.uncompressedOffset + last.uncompressedSize).toBe(tar.length);
+	});
+
+	it("indexes and reads tar entries through the compressed file", async () => {
+		const tar = new Uint8Array(await packTar(entries));
+		const blob = new Blob([multiMember(tar, 16 * 1024, 6)]);
+
+		const reader = createGzipRangeReader(blob, await createGzipIndex(blob));
+		const index = await createTarIndex(reader);
+		expect(index).toEqual(await createTarIndex(new Blob([tar])));
+
+		for (const [i, entry] of index.entries()) {
+			const data = await streamToBuffer(readTarEntry(reader, entry));
+			const expected = await streamToBuffer(
+				readTarEntry(new Blob([tar]), entry),
+			);
+			expect(Buffer.compare(data, expected), entries[i].header.name).toBe(0);
+		}
+	});
+
+	it("maps tar offsets to the members that hold them", async () => {
+		const tar = new Uint8Array(await packTar(entries));
+		const blob = new Blob([multiMember(tar, 64 * 1024, 6)]);
+		const members = await createGzipIndex(blob);
+
+		const [, noiseEntry] = await createTarIndex(
+			createGzipRangeReader(blob, members),
+		);
+		const member = findGzipMember(members, noiseEntry.dataOffset);
+
+		expect(member).toBe(
+			members[Math.floor(noiseEntry.dataOffset / (64 * 1024))],
+		);
+		expect(findGzipMember(members, tar.length)).toBeUndefined();
+	});
+
+	it("skips BGZF blocks without reading their data", async () => {
+		const tar = await packTar([
+			{
+				header: { name: "noise.bin", size: 512 * 1024 },
+				body: noise(512 * 1024, 2),
+			},
+		]);
+		const compressed = bgzf(tar, 60 * 1024);
+
+		let bytesRead = 0;
+		const read: RangeReader = async (offset, length) => {
+			const chunk = compressed.subarray(offset, offset + length);
+			bytesRead += chunk.length;
+			return chunk;
+		};
+
+		const members = await createGzipIndex(read);
+		expect(members).toHaveLength(Math.ceil(tar.length / (60 * 1024)));
+		expect(bytesRead).toBeLessThan(compressed.length / 10);
+
+		const reader = createGzipRangeReader(read, members);
+		const [entry] = await createTarIndex(reader);
+		const data = await streamToBuffer(readTarEntry(reader, entry));
+		expect(Buffer.compare(data, noise(512 * 1024, 2))).toBe(0);
+	});
+
+	it("throws on BGZF block sizes outside the file", async () => {
+		const compressed = bgzf(noise(4096, 4), 1024);
+		const view = new DataView(compressed.buffer);
+
+		// Too small to hold the header and trailer, then past the end of the file.
+		for (const blockSize of [10, 0xffff]) {
+			view.setUint16(16, blockSize - 1, true);
+			await expect(createGzipIndex(new Blob([compressed]))).rejects.toThrow(
+				"Gzip member at offset 0 has an invalid BGZF block size.",
+			);
+		}
+	});
+
+	it("indexes a single-member stream from createGzipEncoder", async () => {
+		const tar = new Uint8Array(await packTar(entries));
+		const compressed = new Uint8Array(
+			await streamToBuffer(
+				new Blob([tar]).stream().pipeThrough(createGzipEncoder()),
+			),
+		);
+
+		const members = await createGzipIndex(new Blob([compressed]));
+		expect(members).toEqual([
+			{
+				compressedOffset: 0,
+				compressedSize: compressed.length,
+				uncompressedOffset: 0,
+				uncompressedSize: tar.length,
+			},
+		]);
+	});
+
+	it("walks a real-world npm tarball", async () => {
+		const compressed = new Uint8Array(await readFile(LODASH_TGZ));
+		const members = await createGzipIndex(new Blob([compressed]));
+
+		expect(members).toHaveLength(1);
+		expect(members[0].compressedSize).toBe(compressed.length);
+		expect(members[0].uncompressedSize).toBe(gunzipSync(compressed).length);
+	});
+
+	it("ignores zero padding after the last member", async () => {
+		const data = new Uint8Array(gzipSync("hello"));
+		const padded = new Uint8Array(data.length + 512);
+		padded.set(data);
+
+		const members = await createGzipIndex(new Blob([padded]));
+		expect(members).toHaveLength(1);
+		expect(members[0].uncompressedSize).toBe(5);
+	});
+
+	it("throws on invalid or truncated data", async () => {
+		await expect(
+			createGzipIndex(new Blob([new Uint8Array([1, 2, 3, 4])])),
+		).rejects.toThrow("Invalid gzip header at offset 0.");
+
+		const data = new Uint8Array(gzipSync(noise(4096, 3)));
+		await expect(
+			createGzipIndex(new Blob([data.subarray(0, data.length - 100)])),
+		).rejects.toThrow();
+	});
+});
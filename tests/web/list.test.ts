@@ -0,0 +1,102 @@
+import { gzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { listTar, packTar, readTarEntry, type TarEntry } from "../../src/web";
+import { decoder, streamToBuffer } from "../../src/web/utils";
+
+// Streams the data in small chunks that do not line up with its blocks.
+function chunked(data: Uint8Array, size = 100): ReadableStream<Uint8Array> {
+	let offset = 0;
+	return new ReadableStream({
+		pull(controller) {
+			if (offset >= data.length) return controller.close();
+			controller.enqueue(data.slice(offset, offset + size));
+			offset += size;
+		},
+	});
+}
+
+describe("listTar", () => {
+	const mtime = new Date(1_700_000_000_000);
+	const entries: TarEntry[] = [
+		{ header: { name: "package/", type: "directory", size: 0, mtime } },
+		{
+			header: { name: "package/index.js", size: 13, mtime },
+			body: "console.log()",
+		},
+		{
+			header: { name: "package/big.bin", size: 5000, mtime },
+			body: new Uint8Array(5000).fill(7),
+		},
+		{
+			header: {
+				name: "package/link",
+				type: "symlink",
+				linkname: "/package/index.js",
+				size: 0,
+				mtime,
+			},
+		},
+	];
+
+	it("lists the headers and offsets of every entry", async () => {
+		const tar = await packTar(entries);
+		const list = await listTar(tar);
+
+		expect(list.map((e) => e.header.name)).toEqual([
+			"package/",
+			"package/index.js",
+			"package/big.bin",
+			"package/link",
+		]);
+		expect(list[2].header.size).toBe(5000);
+		expect(list[2].header.mtime).toEqual(mtime);
+
+		const body = await streamToBuffer(
+			readTarEntry(new Blob([new Uint8Array(tar)]), list[1]),
+		);
+		expect(decoder.decode(body)).toBe("console.log()");
+	});
+
+	it("lists the same entries from every kind of input", async () => {
+		const tar = await packTar(entries);
+		const expected = await listTar(tar);
+
+		expect(await listTar(tar.buffer as ArrayBuffer)).toEqual(expected);
+		expect(await listTar(new Blob([new Uint8Array(tar)]))).toEqual(expected);
+		expect(await listTar(chunked(tar))).toEqual(expected);
+		expect(await listTar(chunked(tar, 4096))).toEqual(expected);
+	});
+
+	it("lists compressed archives", async () => {
+		const tar = await packTar(entries);
+		const gzipped = new Uint8Array(gzipSync(tar));
+		const expected = await listTar(tar);
+
+		expect(await listTar(gzipped)).toEqual(expected);
+		expect(await listTar(new Blob([gzipped]))).toEqual(expected);
+		expect(await listTar(chunked(gzipped))).toEqual(expected);
+	});
+
+	it("applies the strip and filter options", async () => {
+		const tar = await packTar(entries);
+		const list = await listTar(chunked(tar), {
+			strip: 1,
+			filter: (header) => header.type !== "directory",
+		});
+
+		expect(list.map((e) => e.header.name)).toEqual([
+			"index.js",
+			"big.bin",
+			"link",
+		]);
+		expect(list[2].header.linkname).toBe("/index.js");
+	});
+
+	it("rejects a truncated archive in strict mode", async () => {
+		const tar = await packTar(entries);
+
+		await expect(
+			listTar(chunked(tar.subarray(0, 1636)), { strict: true }),
+		).rejects.toThrow("Tar archive is truncated.");
+	});
+});
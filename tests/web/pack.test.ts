@@ -1,6 +1,19 @@
 import { describe, expect, it } from "vitest";
-import { packTar, type TarEntry, unpackTar } from "../../src/web";
-import { decoder } from "../../src/web/utils";
+import {
+	createTarPacker,
+	packTar,
+	type SpoolStorage,
+	type TarEntry,
+	unpackTar,
+} from "../../src/web";
+import { createTarHeader } from "../../src/web/pack";
+import {
+	decoder,
+	encoder,
+	readNumeric,
+	streamToBuffer,
+	writeNumeric,
+} from "../../src/web/utils";
 
 describe("pack", () => {
 	it("packs a single file", async () => {
@@ -337,3 +350,389 @@ describe("pack", () => {
 		expect(extracted[3].header.size).toBe(0);
 	});
 });
+
+describe("pack formats", () => {
+	const mtime = new Date(1_700_000_000_000);
+	const longName = `${"a".repeat(80)}/${"b".repeat(80)}/file.txt`;
+
+	const entries: TarEntry[] = [
+		{ header: { name: "dir/", type: "directory", size: 0, mtime } },
+		{ header: { name: "dir/file.txt", size: 5, mtime }, body: "hello" },
+		{
+			header: {
+				name: "dir/link",
+				type: "symlink",
+				linkname: "file.txt",
+				size: 0,
+				mtime,
+			},
+		},
+	];
+
+	// Reads the magic, version and typeflag of the first header of an archive.
+	const describeHeader = (tar: Uint8Array) => ({
+		magic: decoder.decode(tar.subarray(257, 265)),
+		typeflag: tar[156],
+	});
+
+	it("writes USTAR headers with PAX extensions by default", async () => {
+		const tar = await packTar([
+			{ header: { name: "x".repeat(200), size: 0, mtime } },
+		]);
+
+		expect(describeHeader(tar)).toEqual({
+			magic: "ustar\x0000",
+			typeflag: 120,
+		});
+		const [entry] = await unpackTar(tar);
+		expect(entry.header.name).toBe("x".repeat(200));
+	});
+
+	it("writes strict ustar headers", async () => {
+		const tar = await packTar(
+			[...entries, { header: { name: longName, size: 0, mtime } }],
+			{ format: "ustar" },
+		);
+
+		expect(describeHeader(tar)).toEqual({ magic: "ustar\x0000", typeflag: 53 });
+		const extracted = await unpackTar(tar);
+		expect(extracted.map((e) => e.header.name)).toEqual([
+			"dir/",
+			"dir/file.txt",
+			"dir/link",
+			longName,
+		]);
+		expect(extracted.every((e) => !e.header.pax)).toBe(true);
+	});
+
+	it("rejects fields that do not fit in ustar headers", async () => {
+		await expect(
+			packTar([{ header: { name: "x".repeat(200), size: 0 } }], {
+				format: "ustar",
+			}),
+		).rejects.toThrow(
+			`Cannot write "${"x".repeat(200)}" in ustar format: the name is too long.`,
+		);
+		await expect(
+			packTar([{ header: { name: "big", size: 0, uid: 3_000_000 } }], {
+				format: "ustar",
+			}),
+		).rejects.toThrow(
+			'Cannot write "big" in ustar format: the uid is out of range.',
+		);
+		await expect(
+			packTar([{ header: { name: "pax", size: 0, pax: { comment: "hi" } } }], {
+				format: "ustar",
+			}),
+		).rejects.toThrow("PAX records require the pax format.");
+	});
+
+	it("writes GNU long name entries and base-256 numbers", async () => {
+		const longLink = "c".repeat(150);
+		const tar = await packTar(
+			[
+				{
+					header: { name: longName, size: 3, uid: 3_000_000, mtime },
+					body: "abc",
+				},
+				{
+					header: {
+						name: "link",
+						type: "symlink",
+						linkname: longLink,
+						size: 0,
+						mtime,
+					},
+				},
+			],
+			{ format: "gnu" },
+		);
+
+		expect(describeHeader(tar)).toEqual({ magic: "ustar  \0", typeflag: 76 });
+		expect(decoder.decode(tar.subarray(0, 13))).toBe("././@LongLink");
+
+		const extracted = await unpackTar(tar);
+		expect(extracted).toHaveLength(2);
+		expect(extracted[0].header).toMatchObject({
+			name: longName,
+			uid: 3_000_000,
+		});
+		expect(decoder.decode(extracted[0].data)).toBe("abc");
+		expect(extracted[1].header.linkname).toBe(longLink);
+	});
+
+	it("writes V7 headers without magic", async () => {
+		const tar = await packTar(entries, { format: "v7" });
+
+		expect(describeHeader(tar)).toEqual({
+			magic: "\0".repeat(8),
+			typeflag: 53,
+		});
+		// Regular files have a NUL typeflag.
+		expect(tar[512 + 156]).toBe(0);
+
+		const extracted = await unpackTar(tar);
+		expect(extracted.map((e) => [e.header.name, e.header.type])).toEqual([
+			["dir/", "directory"],
+			["dir/file.txt", "file"],
+			["dir/link", "symlink"],
+		]);
+		expect(decoder.decode(extracted[1].data)).toBe("hello");
+	});
+
+	it("rejects entries that V7 headers cannot hold", async () => {
+		await expect(
+			packTar([{ header: { name: longName, size: 0 } }], { format: "v7" }),
+		).rejects.toThrow("the name is too long.");
+		await expect(
+			packTar([{ header: { name: "pipe", type: "fifo", size: 0 } }], {
+				format: "v7",
+			}),
+		).rejects.toThrow(
+			'Cannot write "pipe" in v7 format: fifo entries are not supported.',
+		);
+	});
+});
+
+describe("base-256 numbers", () => {
+	const before1970 = new Date(-86_400_000 * 365);
+
+	// Offsets of the uid, size and mtime fields of a header block.
+	const UID = 108;
+	const SIZE = 124;
+	const MTIME = 136;
+
+	it("round-trips values through writeNumeric and readNumeric", () => {
+		const values = [0, 0o7777777, 0o10000000, 3_000_000_000, 2 ** 40];
+		for (const value of values) {
+			const view = new Uint8Array(12);
+			writeNumeric(view, 0, 12, value);
+			expect(readNumeric(view, 0, 12)).toBe(value);
+		}
+
+		// Octal sizes between 2 GiB and 8 GiB do not fit in 32 bits.
+		const view = new Uint8Array(12);
+		writeNumeric(view, 0, 12, 5 * 2 ** 30);
+		expect(decoder.decode(view.subarray(0, 11))).toBe("50000000000");
+		expect(readNumeric(view, 0, 12)).toBe(5 * 2 ** 30);
+
+		for (const value of [-1, -256, -257, -31_536_000, -(2 ** 40)]) {
+			const view = new Uint8Array(12);
+			writeNumeric(view, 0, 12, value);
+			expect(view[0]).toBe(0xff);
+			expect(readNumeric(view, 0, 12, true)).toBe(value);
+		}
+	});
+
+	it("never reads negative values from unsigned fields", () => {
+		const view = new Uint8Array(8).fill(0xff);
+		expect(readNumeric(view, 0, 8)).toBeGreaterThan(0);
+		expect(readNumeric(view, 0, 8, true)).toBe(-1);
+	});
+
+	it("writes sizes over 8 GiB to the header", () => {
+		const size = 10 * 2 ** 30;
+		const header = createTarHeader({ name: "big", size }, { base256: true });
+		expect(header[SIZE]).toBe(0x80);
+		expect(readNumeric(header, SIZE, 12)).toBe(size);
+
+		// Without base-256, the field is left for a PAX record instead of truncated.
+		const octal = createTarHeader({ name: "big", size });
+		expect(readNumeric(octal, SIZE, 12)).toBe(0);
+	});
+
+	it("writes base-256 numbers instead of PAX records", async () => {
+		const tar = await packTar(
+			[
+				{
+					header: {
+						name: "old.txt",
+						size: 3,
+						uid: 3_000_000_000,
+						gid: 3_000_000,
+						mtime: before1970,
+					},
+					body: "abc",
+				},
+			],
+			{ base256: true },
+		);
+
+		// The first header is the entry itself, not a PAX header.
+		expect(tar[156]).toBe(48);
+		expect(tar[UID]).toBe(0x80);
+		expect(tar[MTIME]).toBe(0xff);
+
+		const [entry] = await unpackTar(tar);
+		expect(entry.header).toMatchObject({
+			name: "old.txt",
+			uid: 3_000_000_000,
+			gid: 3_000_000,
+			mtime: before1970,
+		});
+		expect(entry.header.pax).toBeUndefined();
+		expect(decoder.decode(entry.data)).toBe("abc");
+	});
+
+	it("writes PAX records for mtimes before 1970 by default", async () => {
+		const tar = await packTar([
+			{ header: { name: "old.txt", size: 0, mtime: before1970 } },
+		]);
+
+		expect(tar[156]).toBe(120);
+		const [entry] = await unpackTar(tar);
+		expect(entry.header.mtime).toEqual(before1970);
+	});
+
+	it("allows base-256 numbers in ustar headers", async () => {
+		const entries: TarEntry[] = [
+			{ header: { name: "old.txt", size: 0, mtime: before1970 } },
+		];
+
+		await expect(packTar(entries, { format: "ustar" })).rejects.toThrow(
+			'Cannot write "old.txt" in ustar format: the mtime is out of range.',
+		);
+
+		const tar = await packTar(entries, { format: "ustar", base256: true });
+		const [entry] = await unpackTar(tar);
+		expect(entry.header.mtime).toEqual(before1970);
+	});
+
+	it("rejects negative sizes and ids even in base-256", async () => {
+		await expect(
+			packTar([{ header: { name: "bad", size: 0, uid: -1 } }], {
+				format: "gnu",
+			}),
+		).rejects.toThrow(
+			'Cannot write "bad" in gnu format: the uid is out of range.',
+		);
+	});
+});
+
+describe("pack streams of unknown size", () => {
+	// Creates a stream of `count` chunks of the given text.
+	const createSource = (text: string, count: number) => {
+		let pulls = 0;
+		return new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (pulls++ < count) controller.enqueue(encoder.encode(text));
+				else controller.close();
+			},
+		});
+	};
+
+	// Storage that records its writes, backed by memory.
+	const createStorage = () => {
+		const writes: number[] = [];
+		const state = { discarded: false, cancelled: false };
+		const chunks: Uint8Array[] = [];
+		const storage: SpoolStorage = {
+			async write(data) {
+				writes.push(data.length);
+				chunks.push(data.slice());
+			},
+			async read() {
+				const reader = new Blob(chunks as Uint8Array<ArrayBuffer>[])
+					.stream()
+					.getReader();
+				return new ReadableStream<Uint8Array>({
+					async pull(controller) {
+						const { done, value } = await reader.read();
+						if (done) controller.close();
+						else controller.enqueue(value);
+					},
+					cancel() {
+						state.cancelled = true;
+					},
+				});
+			},
+			async discard() {
+				state.discarded = true;
+			},
+		};
+		return { storage, writes, state };
+	};
+
+	it("writes entries with the size of their stream", async () => {
+		const { readable, controller } = createTarPacker();
+		const archive = streamToBuffer(readable);
+
+		await createSource("hello ", 3).pipeTo(
+			controller.addStream({ name: "hello.txt", mode: 0o600 }),
+		);
+		await createSource("", 0).pipeTo(controller.addStream({ name: "empty" }));
+		controller.finalize();
+
+		const entries = await unpackTar(await archive);
+		expect(entries.map((e) => [e.header.name, e.header.size])).toEqual([
+			["hello.txt", 18],
+			["empty", 0],
+		]);
+		expect(entries[0].header.mode).toBe(0o600);
+		expect(decoder.decode(entries[0].data)).toBe("hello hello hello ");
+	});
+
+	it("moves bodies larger than the memory limit to storage", async () => {
+		const { storage, writes } = createStorage();
+		const { readable, controller } = createTarPacker({
+			spoolMemory: 10,
+			spoolStorage: () => storage,
+		});
+		const archive = streamToBuffer(readable);
+
+		await createSource("abcd", 7).pipeTo(
+			controller.addStream({ name: "data.txt" }),
+		);
+		controller.finalize();
+
+		// Each batch is moved as soon as it passes the limit, and the rest on close.
+		expect(writes).toEqual([12, 12, 4]);
+		const [entry] = await unpackTar(await archive);
+		expect(entry.header.size).toBe(28);
+		expect(decoder.decode(entry.data)).toBe("abcd".repeat(7));
+	});
+
+	it("spools to a Blob by default", async () => {
+		const { readable, controller } = createTarPacker({ spoolMemory: 4 });
+		const archive = streamToBuffer(readable);
+
+		await createSource("0123456789", 5).pipeTo(
+			controller.addStream({ name: "digits.txt" }),
+		);
+		controller.finalize();
+
+		const [entry] = await unpackTar(await archive);
+		expect(decoder.decode(entry.data)).toBe("0123456789".repeat(5));
+	});
+
+	it("discards the spool and errors the archive on abort", async () => {
+		const { storage, state } = createStorage();
+		const { readable, controller } = createTarPacker({
+			spoolMemory: 2,
+			spoolStorage: () => storage,
+		});
+		const archive = streamToBuffer(readable);
+
+		const writer = controller.addStream({ name: "aborted.txt" }).getWriter();
+		await writer.write(encoder.encode("abc"));
+		await writer.abort(new Error("Source failed."));
+
+		expect(state.discarded).toBe(true);
+		await expect(archive).rejects.toThrow("Source failed.");
+	});
+
+	it("releases the spooled body when the entry cannot be written", async () => {
+		const { storage, state } = createStorage();
+		const { controller } = createTarPacker({
+			format: "v7",
+			spoolMemory: 2,
+			spoolStorage: () => storage,
+		});
+		const name = "x".repeat(120);
+
+		await expect(
+			createSource("abc", 2).pipeTo(controller.addStream({ name })),
+		).rejects.toThrow(`Cannot write "${name}" in v7 format`);
+		expect(state.cancelled).toBe(true);
+	});
+});
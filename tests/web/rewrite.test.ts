@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+	createTarRewriter,
+	packTar,
+	type TarEntry,
+	type TarRewriteCallback,
+	unpackTar,
+} from "../../src/web";
+import { decoder, encoder, streamToBuffer } from "../../src/web/utils";
+
+describe("createTarRewriter", () => {
+	const mtime = new Date(1_700_000_000_000);
+	const entries: TarEntry[] = [
+		{ header: { name: "package/", type: "directory", size: 0, mtime } },
+		{
+			header: { name: "package/index.js", size: 13, mtime, mode: 0o755 },
+			body: "console.log()",
+		},
+		{ header: { name: "package/.env", size: 6, mtime }, body: "SECRET" },
+		{
+			header: {
+				name: "package/link",
+				type: "symlink",
+				linkname: "index.js",
+				size: 0,
+				mtime,
+			},
+		},
+	];
+
+	// Packs the entries, rewrites the archive in small chunks and unpacks the result.
+	const rewriteArchive = async (
+		rewrite: TarRewriteCallback,
+		input: TarEntry[] = entries,
+	) => {
+		const tar = await packTar(input);
+		let offset = 0;
+		const source = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (offset >= tar.length) return controller.close();
+				controller.enqueue(tar.slice(offset, offset + 100));
+				offset += 100;
+			},
+		});
+
+		const output = await streamToBuffer(
+			source.pipeThrough(createTarRewriter(rewrite)),
+		);
+		return unpackTar(output);
+	};
+
+	it("keeps every entry unchanged by default", async () => {
+		const result = await rewriteArchive(() => undefined);
+
+		expect(result.map((e) => e.header.name)).toEqual([
+			"package/",
+			"package/index.js",
+			"package/.env",
+			"package/link",
+		]);
+		expect(result[1].header).toMatchObject({ mode: 0o755, mtime });
+		expect(decoder.decode(result[1].data)).toBe("console.log()");
+		expect(result[3].header.linkname).toBe("index.js");
+	});
+
+	it("drops entries", async () => {
+		const result = await rewriteArchive((entry) =>
+			entry.header.name.endsWith(".env") ? false : undefined,
+		);
+
+		expect(result.map((e) => e.header.name)).toEqual([
+			"package/",
+			"package/index.js",
+			"package/link",
+		]);
+	});
+
+	it("renames entries with new PAX headers", async () => {
+		const longName = `${"x".repeat(120)}.js`;
+		const result = await rewriteArchive((entry) => {
+			if (entry.header.name === "package/index.js") {
+				return { header: { ...entry.header, name: longName } };
+			}
+		});
+		expect(result[1].header.name).toBe(longName);
+		expect(result[1].header.pax?.path).toBe(longName);
+		expect(decoder.decode(result[1].data)).toBe("console.log()");
+
+		// The old PAX path does not override a later rename.
+		const renamed = await rewriteArchive(
+			(entry) => ({
+				header: { ...entry.header, name: entry.header.name.replace("x", "y") },
+			}),
+			[{ header: { name: longName, size: 2, mtime }, body: "ok" }],
+		);
+		expect(renamed[0].header.name).toBe(`y${"x".repeat(119)}.js`);
+		expect(decoder.decode(renamed[0].data)).toBe("ok");
+	});
+
+	it("keeps custom PAX records", async () => {
+		const result = await rewriteArchive(
+			(entry) => ({ header: { ...entry.header, name: "renamed.txt" } }),
+			[
+				{
+					header: {
+						name: "file.txt",
+						size: 2,
+						mtime,
+						pax: { comment: "kept" },
+					},
+					body: "hi",
+				},
+			],
+		);
+
+		expect(result[0].header.name).toBe("renamed.txt");
+		expect(result[0].header.pax).toEqual({ comment: "kept" });
+	});
+
+	it("keeps the PAX records of unchanged fields", async () => {
+		const result = await rewriteArchive(
+			(entry) => ({ header: { ...entry.header, name: "renamed.txt" } }),
+			[
+				{
+					header: {
+						name: "file.txt",
+						size: 2,
+						mtime,
+						pax: { mtime: "1700000000.25" },
+					},
+					body: "hi",
+				},
+			],
+		);
+
+		expect(result[0].header.name).toBe("renamed.txt");
+		expect(result[0].header.mtime).toEqual(new Date(1_700_000_000_250));
+		expect(result[0].header.pax).toEqual({ mtime: "1700000000.25" });
+
+		// A changed mtime is written again from the header.
+		const changed = await rewriteArchive(
+			(entry) => ({ header: { ...entry.header, mtime } }),
+			[
+				{
+					header: {
+						name: "file.txt",
+						size: 2,
+						pax: { mtime: "1700000000.25" },
+					},
+					body: "hi",
+				},
+			],
+		);
+		expect(changed[0].header.mtime).toEqual(mtime);
+		expect(changed[0].header.pax).toBeUndefined();
+	});
+
+	it("replaces bodies with the size of the new body", async () => {
+		const result = await rewriteArchive(async (entry) => {
+			if (entry.header.name === "package/.env") {
+				return { body: "REDACTED" };
+			}
+			if (entry.header.name === "package/index.js") {
+				// Read the original body and replace it with a stream of unknown size.
+				const original = decoder.decode(await streamToBuffer(entry.body));
+				return {
+					body: new ReadableStream({
+						start(controller) {
+							controller.enqueue(encoder.encode(`${original};\n`));
+							controller.enqueue(encoder.encode("export {};\n"));
+							controller.close();
+						},
+					}),
+				};
+			}
+		});
+
+		expect(result[1].header.size).toBe(26);
+		expect(decoder.decode(result[1].data)).toBe("console.log();\nexport {};\n");
+		expect(result[2].header.size).toBe(8);
+		expect(decoder.decode(result[2].data)).toBe("REDACTED");
+	});
+
+	it("errors the output when the callback throws", async () => {
+		await expect(
+			rewriteArchive(() => {
+				throw new Error("Rewrite failed.");
+			}),
+		).rejects.toThrow("Rewrite failed.");
+	});
+});
@@ -0,0 +1,230 @@
+import { readFile } from "node:fs/promises";
+import { describe, expect, it } from "vitest";
+import {
+	createTarDecoder,
+	createTarIndex,
+	packTar,
+	unpackTar,
+} from "../../src/web";
+import { writeChecksum } from "../../src/web/checksum";
+import {
+	BLOCK_SIZE,
+	GNU_ISEXTENDED_OFFSET,
+	GNU_REALSIZE_OFFSET,
+	GNU_SPARSE_OFFSET,
+	USTAR_SIZE_OFFSET,
+	USTAR_SIZE_SIZE,
+} from "../../src/web/constants";
+import { createSparseEntry } from "../../src/web/sparse";
+import type { TarSparseSegment } from "../../src/web/types";
+import { encoder, streamToBuffer } from "../../src/web/utils";
+import {
+	GNU_SPARSE_TAR,
+	PAX_SPARSE_0_0_TAR,
+	PAX_SPARSE_0_1_TAR,
+	PAX_SPARSE_1_0_TAR,
+} from "./fixtures";
+
+const SPARSE_SIZE = 256 * 1024;
+
+// The fixtures hold a 256 KiB file with a 4 KiB data region at 8192 + n * 40960.
+const EXPECTED_SEGMENTS = [
+	...Array.from({ length: 6 }, (_, i) => ({
+		offset: i * 40960 + 8192,
+		size: 4096,
+	})),
+	{ offset: SPARSE_SIZE, size: 0 },
+];
+
+// Packs a PAX 1.0 sparse entry whose data regions are filled with "x".
+function packSparse(
+	segments: TarSparseSegment[],
+	realSize: number,
+): Promise<Uint8Array> {
+	const { header, map } = createSparseEntry(
+		{ name: "sparse.bin", size: realSize },
+		segments,
+	);
+	const body = new Uint8Array(header.size ?? 0).fill(120); // 'x'
+	body.set(map);
+	return packTar([{ header, body }]);
+}
+
+function expectedContent(): Uint8Array {
+	const data = new Uint8Array(SPARSE_SIZE);
+	for (let i = 0; i < 6; i++) {
+		const chunk = encoder.encode(`chunk${i}-`.repeat(512));
+		data.set(chunk, i * 40960 + 8192);
+	}
+	return data;
+}
+
+describe("sparse files", () => {
+	const fixtures = [
+		["old GNU", GNU_SPARSE_TAR],
+		["PAX 0.0", PAX_SPARSE_0_0_TAR],
+		["PAX 0.1", PAX_SPARSE_0_1_TAR],
+		["PAX 1.0", PAX_SPARSE_1_0_TAR],
+	] as const;
+
+	for (const [format, fixture] of fixtures) {
+		it(`re-inflates ${format} sparse entries`, async () => {
+			const buffer = await readFile(fixture);
+			const entries = await unpackTar(buffer);
+
+			expect(entries).toHaveLength(1);
+			const [entry] = entries;
+
+			expect(entry.header.name).toBe("sparse.bin");
+			expect(entry.header.type).toBe("file");
+			expect(entry.header.size).toBe(SPARSE_SIZE);
+			expect(entry.header.sparse).toEqual(EXPECTED_SEGMENTS);
+			expect(Buffer.compare(entry.data, expectedContent())).toBe(0);
+		});
+
+		it(`parses ${format} sparse entries split across small chunks`, async () => {
+			const buffer = new Uint8Array(await readFile(fixture));
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (let i = 0; i < buffer.length; i += 100) {
+						controller.enqueue(buffer.slice(i, i + 100));
+					}
+					controller.close();
+				},
+			});
+
+			// Bodies are read concurrently, as the decoder only advances while entries are pulled.
+			const entries = stream.pipeThrough(createTarDecoder());
+			const bodies: Promise<Uint8Array>[] = [];
+			for await (const entry of entries) {
+				expect(entry.header.name).toBe("sparse.bin");
+				bodies.push(streamToBuffer(entry.body));
+			}
+
+			const results = await Promise.all(bodies);
+			expect(results).toHaveLength(1);
+			expect(Buffer.compare(results[0], expectedContent())).toBe(0);
+		});
+	}
+
+	it("emits only the data regions with inflateSparse: false", async () => {
+		const buffer = new Uint8Array(await readFile(PAX_SPARSE_1_0_TAR));
+		const entries = new Blob([buffer])
+			.stream()
+			.pipeThrough(createTarDecoder({ inflateSparse: false }));
+
+		for await (const entry of entries) {
+			expect(entry.header.size).toBe(SPARSE_SIZE);
+			expect(entry.header.sparse).toEqual(EXPECTED_SEGMENTS);
+
+			const expected = expectedContent();
+			const packed = EXPECTED_SEGMENTS.map(({ offset, size }) =>
+				expected.subarray(offset, offset + size),
+			);
+			const body = await streamToBuffer(entry.body);
+			expect(Buffer.compare(body, Buffer.concat(packed))).toBe(0);
+		}
+	});
+
+	it("emits a fully sparse entry as zeros", async () => {
+		// Rewrite the old GNU header to have no data regions and a 2000 byte real size.
+		const buffer = new Uint8Array(await readFile(GNU_SPARSE_TAR));
+		const header = buffer.slice(0, BLOCK_SIZE);
+
+		header.fill(0, USTAR_SIZE_OFFSET, USTAR_SIZE_OFFSET + USTAR_SIZE_SIZE);
+		encoder.encodeInto("00000000000", header.subarray(USTAR_SIZE_OFFSET));
+		header.fill(0, GNU_SPARSE_OFFSET, GNU_ISEXTENDED_OFFSET + 1);
+		encoder.encodeInto("00000003720", header.subarray(GNU_REALSIZE_OFFSET));
+		writeChecksum(header);
+
+		const archive = new Uint8Array(BLOCK_SIZE * 3);
+		archive.set(header);
+
+		const [entry] = await unpackTar(archive);
+		expect(entry.header.size).toBe(2000);
+		expect(entry.header.sparse).toEqual([]);
+		expect(entry.data).toEqual(new Uint8Array(2000));
+	});
+
+	it("produces the zeros of a huge hole only as the body is read", async () => {
+		const realSize = 2 ** 40; // 1 TiB
+		const archive = await packSparse([{ offset: 0, size: 5 }], realSize);
+
+		const entries = new Blob([new Uint8Array(archive)])
+			.stream()
+			.pipeThrough(createTarDecoder());
+
+		for await (const entry of entries) {
+			expect(entry.header.size).toBe(realSize);
+
+			const body = entry.body.getReader();
+			let bytesRead = 0;
+			while (bytesRead < 1024 * 1024) {
+				const { value } = await body.read();
+				bytesRead += value?.length ?? 0;
+			}
+
+			await body.cancel();
+			break;
+		}
+	});
+
+	describe("rejects invalid sparse maps", () => {
+		const cases: Array<[string, TarSparseSegment[], number]> = [
+			["a negative offset", [{ offset: -1, size: 5 }], 100],
+			[
+				"unsorted regions",
+				[
+					{ offset: 50, size: 5 },
+					{ offset: 0, size: 5 },
+				],
+				100,
+			],
+			[
+				"overlapping regions",
+				[
+					{ offset: 0, size: 10 },
+					{ offset: 5, size: 10 },
+				],
+				100,
+			],
+			["a region past the real size", [{ offset: 90, size: 20 }], 100],
+			["a non-numeric real size", [{ offset: 0, size: 5 }], Number.NaN],
+		];
+
+		for (const [description, segments, realSize] of cases) {
+			it(description, async () => {
+				const archive = await packSparse(segments, realSize);
+				await expect(unpackTar(archive)).rejects.toMatchObject({
+					name: "TarFormatError",
+					code: "TAR_BAD_SPARSE_MAP",
+				});
+			});
+		}
+
+		it("a map that does not end within its entry", async () => {
+			const { header } = createSparseEntry({ name: "sparse.bin", size: 100 }, [
+				{ offset: 0, size: 10 },
+			]);
+
+			// The map is cut off after the offset of its only region, and the entry after it
+			// holds what would complete it.
+			const map = new Uint8Array(BLOCK_SIZE).fill(120); // 'x'
+			map.set(encoder.encode("1\n0\n"));
+			const archive = await packTar([
+				{ header: { ...header, size: BLOCK_SIZE }, body: map },
+				{ header: { name: "next.txt", size: 3 }, body: "10\n" },
+			]);
+
+			const error = {
+				name: "TarFormatError",
+				code: "TAR_BAD_SPARSE_MAP",
+				message: "Sparse map does not end within its entry.",
+			};
+			await expect(unpackTar(archive)).rejects.toMatchObject(error);
+			await expect(
+				createTarIndex(new Blob([new Uint8Array(archive)])),
+			).rejects.toMatchObject(error);
+		});
+	});
+});
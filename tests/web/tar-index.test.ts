@@ -0,0 +1,225 @@
+import { readFile } from "node:fs/promises";
+import { describe, expect, it } from "vitest";
+import {
+	createTarIndex,
+	loadTarIndex,
+	packTar,
+	type RangeReader,
+	readTarEntry,
+	serializeTarIndex,
+	unpackTar,
+} from "../../src/web";
+import { BLOCK_SIZE } from "../../src/web/constants";
+import { createTarHeader } from "../../src/web/pack";
+import { decoder, encoder, streamToBuffer } from "../../src/web/utils";
+import {
+	GNU_LONG_PATH,
+	GNU_SPARSE_TAR,
+	LONG_NAME_TAR,
+	MULTI_FILE_TAR,
+	PAX_SPARSE_1_0_TAR,
+	PAX_TAR,
+	TYPES_TAR,
+} from "./fixtures";
+
+describe("tar index", () => {
+	const fixtures = [
+		MULTI_FILE_TAR,
+		PAX_TAR,
+		TYPES_TAR,
+		LONG_NAME_TAR,
+		GNU_LONG_PATH,
+		GNU_SPARSE_TAR,
+		PAX_SPARSE_1_0_TAR,
+	];
+
+	for (const fixture of fixtures) {
+		it(`indexes the same entries as unpackTar (${fixture.split("/").pop()})`, async () => {
+			const buffer = await readFile(fixture);
+			const blob = new Blob([new Uint8Array(buffer)]);
+
+			const expected = await unpackTar(buffer);
+			const index = await createTarIndex(blob);
+
+			expect(index.map((e) => e.header)).toEqual(expected.map((e) => e.header));
+
+			for (const [i, entry] of index.entries()) {
+				const data = await streamToBuffer(readTarEntry(blob, entry));
+				expect(Buffer.compare(data, expected[i].data)).toBe(0);
+			}
+		});
+	}
+
+	it("records header and data offsets", async () => {
+		const longName = `${"a".repeat(200)}/file.txt`;
+		const archive = await packTar([
+			{ header: { name: "first.txt", size: 5 }, body: "hello" },
+			{ header: { name: longName, size: 5 }, body: "world" },
+			{ header: { name: "dir/", type: "directory", size: 0 } },
+		]);
+
+		const index = await createTarIndex(new Blob([new Uint8Array(archive)]));
+		expect(index).toHaveLength(3);
+
+		expect(index[0].headerOffset).toBe(0);
+		expect(index[0].dataOffset).toBe(BLOCK_SIZE);
+		expect(index[0].dataSize).toBe(5);
+
+		// The second entry starts at its PAX header, which needs a header and a body block.
+		expect(index[1].header.name).toBe(longName);
+		expect(index[1].headerOffset).toBe(BLOCK_SIZE * 2);
+		expect(index[1].dataOffset).toBe(BLOCK_SIZE * 5);
+
+		expect(index[2].headerOffset).toBe(BLOCK_SIZE * 6);
+		expect(index[2].dataSize).toBe(0);
+
+		const body = archive.subarray(
+			index[1].dataOffset,
+			index[1].dataOffset + index[1].dataSize,
+		);
+		expect(decoder.decode(body)).toBe("world");
+	});
+
+	it("only reads headers from a range reader", async () => {
+		const size = 1024 * 1024;
+		const archive = await packTar([
+			{ header: { name: "big.bin", size }, body: new Uint8Array(size) },
+			{ header: { name: "small.txt", size: 5 }, body: "small" },
+		]);
+
+		let bytesRead = 0;
+		const read: RangeReader = async (offset, length) => {
+			const chunk = archive.subarray(offset, offset + length);
+			bytesRead += chunk.length;
+			return chunk;
+		};
+
+		const index = await createTarIndex(read);
+		expect(index.map((e) => e.header.name)).toEqual(["big.bin", "small.txt"]);
+		expect(bytesRead).toBeLessThanOrEqual(BLOCK_SIZE * 4);
+
+		const data = await streamToBuffer(readTarEntry(read, index[1]));
+		expect(decoder.decode(data)).toBe("small");
+	});
+
+	it("skips bodies larger than 2 GiB", async () => {
+		// The size is given by a PAX record as it does not fit the octal field.
+		const size = 3 * 1024 * 1024 * 1024 + 1;
+		const record = encoder.encode(`19 size=${size}\n`);
+		const blocks = new Map<number, Uint8Array>([
+			[
+				0,
+				createTarHeader({
+					name: "PaxHeader",
+					type: "pax-header",
+					size: record.length,
+				}),
+			],
+			[BLOCK_SIZE, record],
+			[BLOCK_SIZE * 2, createTarHeader({ name: "big.bin", size: 0 })],
+		]);
+		const nextOffset = BLOCK_SIZE * 3 + size + (BLOCK_SIZE - 1);
+		blocks.set(nextOffset, createTarHeader({ name: "next.txt", size: 0 }));
+
+		// Only the header blocks exist, everything else reads as zeros.
+		const read: RangeReader = async (offset, length) =>
+			blocks.get(offset) ?? new Uint8Array(length);
+
+		const index = await createTarIndex(read);
+		expect(index.map((e) => e.header.name)).toEqual(["big.bin", "next.txt"]);
+		expect(index[0].dataSize).toBe(size);
+		expect(index[1].headerOffset).toBe(nextOffset);
+		expect(index[1].dataOffset).toBe(nextOffset + BLOCK_SIZE);
+	});
+
+	it("throws on a truncated archive in strict mode", async () => {
+		const archive = await packTar([
+			{ header: { name: "file.txt", size: 5 }, body: "hello" },
+		]);
+		const truncated = archive.subarray(0, BLOCK_SIZE * 2 + 100);
+
+		await expect(
+			createTarIndex(new Blob([new Uint8Array(truncated)]), { strict: true }),
+		).rejects.toThrow("Tar archive is truncated.");
+	});
+
+	describe("serialization", () => {
+		it("round-trips an index and reads entries from the loaded index", async () => {
+			const buffer = await readFile(PAX_SPARSE_1_0_TAR);
+			const blob = new Blob([new Uint8Array(buffer)]);
+
+			const index = await createTarIndex(blob);
+			const loaded = await loadTarIndex(
+				await serializeTarIndex(index, blob),
+				blob,
+			);
+
+			expect(loaded).toHaveLength(index.length);
+			for (let i = 0; i < index.length; i++) {
+				expect(loaded[i].headerOffset).toBe(index[i].headerOffset);
+				expect(loaded[i].dataOffset).toBe(index[i].dataOffset);
+				expect(loaded[i].dataSize).toBe(index[i].dataSize);
+				expect(loaded[i].header).toEqual({
+					name: index[i].header.name,
+					type: index[i].header.type,
+					size: index[i].header.size,
+					mtime: index[i].header.mtime,
+					mode: index[i].header.mode,
+					sparse: index[i].header.sparse,
+				});
+			}
+
+			const expected = await streamToBuffer(readTarEntry(blob, index[0]));
+			const actual = await streamToBuffer(readTarEntry(blob, loaded[0]));
+			expect(Buffer.compare(actual, expected)).toBe(0);
+		});
+
+		it("rejects an index when the archive size changed", async () => {
+			const archive = await packTar([
+				{ header: { name: "a.txt", size: 1 }, body: "a" },
+			]);
+			const index = await createTarIndex(new Blob([new Uint8Array(archive)]));
+			const data = await serializeTarIndex(
+				index,
+				new Blob([new Uint8Array(archive)]),
+			);
+
+			const appended = new Uint8Array(archive.length + BLOCK_SIZE * 2);
+			appended.set(archive);
+
+			await expect(loadTarIndex(data, new Blob([appended]))).rejects.toThrow(
+				"Tar index does not match the archive size.",
+			);
+		});
+
+		it("rejects an index when a sampled header changed", async () => {
+			const entries = Array.from({ length: 40 }, (_, i) => ({
+				header: { name: `file-${i}.txt`, size: 1 },
+				body: "x",
+			}));
+			const archive = await packTar(entries);
+			const read: RangeReader = async (offset, length) =>
+				archive.subarray(offset, offset + length);
+
+			const index = await createTarIndex(read);
+			const data = await serializeTarIndex(index, read, {
+				size: archive.length,
+			});
+			expect(await loadTarIndex(data, read)).toHaveLength(40);
+
+			// Same size, but with different entries.
+			const renamed = await packTar(
+				entries.map((e) => ({
+					...e,
+					header: { ...e.header, name: e.header.name.toUpperCase() },
+				})),
+			);
+			const readRenamed: RangeReader = async (offset, length) =>
+				renamed.subarray(offset, offset + length);
+
+			await expect(
+				loadTarIndex(data, readRenamed, { size: renamed.length }),
+			).rejects.toThrow("Tar index does not match the archive header");
+		});
+	});
+});
@@ -0,0 +1,71 @@
+import { readFile } from "node:fs/promises";
+import { gunzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createXzDecoder, unpackTar } from "../../src/web";
+import { streamToBuffer } from "../../src/web/utils";
+import { LODASH_TAR_XZ, LODASH_TGZ } from "./fixtures";
+
+function decode(data: Uint8Array): Promise<Uint8Array> {
+	// Small chunks, so the decoder has to wait for more input mid-block.
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < data.length; i += 4096) {
+				controller.enqueue(data.subarray(i, i + 4096));
+			}
+			controller.close();
+		},
+	});
+
+	return streamToBuffer(stream.pipeThrough(createXzDecoder()));
+}
+
+describe("xz decoder", () => {
+	it("decompresses a real-world archive", async () => {
+		const compressed = new Uint8Array(await readFile(LODASH_TAR_XZ));
+		const expected = gunzipSync(await readFile(LODASH_TGZ));
+
+		const output = await decode(compressed);
+		expect(Buffer.compare(output, expected)).toBe(0);
+	});
+
+	it("is detected by unpackTar", async () => {
+		const entries = await unpackTar(
+			new Uint8Array(await readFile(LODASH_TAR_XZ)),
+		);
+		const expected = await unpackTar(
+			new Uint8Array(gunzipSync(await readFile(LODASH_TGZ))),
+		);
+
+		expect(entries.map((e) => e.header)).toEqual(expected.map((e) => e.header));
+	});
+
+	it("decodes concatenated streams", async () => {
+		const compressed = await readFile(LODASH_TAR_XZ);
+		const expected = gunzipSync(await readFile(LODASH_TGZ));
+
+		const output = await decode(
+			// Streams may be separated by null padding.
+			new Uint8Array(Buffer.concat([compressed, Buffer.alloc(8), compressed])),
+		);
+		expect(Buffer.compare(output, Buffer.concat([expected, expected]))).toBe(0);
+	});
+
+	it("throws on corrupt or truncated data", async () => {
+		const compressed = new Uint8Array(await readFile(LODASH_TAR_XZ));
+
+		const corrupt = compressed.slice();
+		corrupt[corrupt.length >> 1] ^= 0x10;
+		await expect(decode(corrupt)).rejects.toThrow();
+
+		await expect(decode(compressed.subarray(0, 100_000))).rejects.toThrow(
+			"LZMA2 data is truncated.",
+		);
+		await expect(
+			decode(
+				new Uint8Array([
+					0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00, 0x00, 0x04, 0, 0, 0, 0,
+				]),
+			),
+		).rejects.toThrow("Invalid xz stream header.");
+	});
+});
@@ -2,7 +2,7 @@ import { defineConfig } from "tsdown";
 
 export default defineConfig([
 	{
-		entry: ["./src/web/index.ts", "./src/fs/index.ts"],
+		entry: ["./src/web/index.ts", "./src/fs/index.ts", "./src/cli/index.ts"],
 		platform: "node",
 		dts: {
 			build: true,